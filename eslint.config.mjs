@@ -0,0 +1,14 @@
+import tsPlugin from '@typescript-eslint/eslint-plugin';
+
+export default [
+  { ignores: ['dist/', 'node_modules/'] },
+  ...tsPlugin.configs['flat/recommended'],
+  {
+    rules: {
+      // Neo4j records and bundle rows are untyped maps throughout the graph code
+      '@typescript-eslint/no-explicit-any': 'off',
+      // `const { secret, ...rest } = entity` is how fields are left out of responses
+      '@typescript-eslint/no-unused-vars': ['error', { ignoreRestSiblings: true }]
+    }
+  }
+];
\ No newline at end of file
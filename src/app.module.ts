@@ -2,14 +2,29 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Neo4jModule } from './neo4j/neo4j.module';
+import { MailModule } from './mail/mail.module';
 import { MiipaModule } from './miipa/miipa.module';
 import { SearchModule } from './search/search.module';
 import { MetaModule } from './meta/meta.module';
 import { IndicationsModule } from './indications/indications.module';
 import { MutationsModule } from './mutations/mutations.module';
+import { EpidemiologyModule } from './epidemiology/epidemiology.module';
+import { DatasetsModule } from './datasets/datasets.module';
+import { SnapshotsModule } from './snapshots/snapshots.module';
+import { CompetitionModule } from './competition/competition.module';
+import { MarketSizingModule } from './market-sizing/market-sizing.module';
 import { UsersModule } from './users/users.module';
 import { AuthModule } from './auth/auth.module';
 import { User } from './users/user.entity';
+import { Invitation } from './users/invitation.entity';
+import { RefreshToken } from './users/refresh-token.entity';
+import { PasswordResetToken } from './users/password-reset-token.entity';
+import { ApiKey } from './users/api-key.entity';
+import { AuditLog } from './audit/audit-log.entity';
+import { ResearchJob } from './indications/research-job.entity';
+import { ResearchDraft } from './indications/research-draft.entity';
+import { GraphSnapshot } from './snapshots/graph-snapshot.entity';
+import { AuditModule } from './audit/audit.module';
 
 @Module({
   imports: [
@@ -20,17 +35,24 @@ import { User } from './users/user.entity';
         return {
           type: 'postgres',
           url: process.env.DATABASE_URL || 'postgresql://localhost:5432/miipa',
-          entities: [User],
+          entities: [User, Invitation, RefreshToken, PasswordResetToken, ApiKey, AuditLog, ResearchJob, ResearchDraft, GraphSnapshot],
           synchronize: true,
           ssl: process.env.DATABASE_URL ? { rejectUnauthorized: false } : false
         };
       }
     }),
     Neo4jModule,
+    MailModule,
+    AuditModule,
     UsersModule,
     AuthModule,
     IndicationsModule,
     MutationsModule,
+    EpidemiologyModule,
+    DatasetsModule,
+    SnapshotsModule,
+    CompetitionModule,
+    MarketSizingModule,
     MiipaModule,
     SearchModule,
     MetaModule
@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+@Entity()
+export class AuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  action: string;
+
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  actorId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  actorEmail: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  ip: string | null;
+
+  // Graph node ids (or user/key ids) touched by the action
+  @Column('text', { array: true, default: '{}' })
+  targetIds: string[];
+
+  @Column({ type: 'jsonb', nullable: true })
+  before: Record<string, any> | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  after: Record<string, any> | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  details: Record<string, any> | null;
+
+  @Index()
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { Type } from 'class-transformer';
+import { IsDate, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { AuditService } from './audit.service';
+import { Roles } from '../auth/roles.decorator';
+
+class AuditQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  pageSize?: number;
+
+  @IsOptional()
+  @IsString()
+  action?: string;
+
+  @IsOptional()
+  @IsString()
+  actorId?: string;
+
+  @IsOptional()
+  @IsString()
+  targetId?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+}
+
+@Controller('admin/audit')
+@Roles('admin')
+export class AuditController {
+  constructor(private auditService: AuditService) {}
+
+  @Get()
+  list(@Query() query: AuditQueryDto) {
+    return this.auditService.find({ ...query, page: query.page || 1, pageSize: query.pageSize || 50 });
+  }
+}
\ No newline at end of file
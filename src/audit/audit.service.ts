@@ -0,0 +1,81 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AuditLog } from './audit-log.entity';
+import { AuthUser } from '../auth/auth-user.interface';
+
+export interface AuditEntry {
+  action: string;
+  // Either pass the authenticated identity or the raw actor fields (e.g. for failed logins)
+  actor?: AuthUser | null;
+  actorId?: string | null;
+  actorEmail?: string | null;
+  ip?: string | null;
+  targetIds?: string[];
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  details?: Record<string, any> | null;
+}
+
+export interface AuditQuery {
+  page: number;
+  pageSize: number;
+  action?: string;
+  actorId?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(@InjectRepository(AuditLog) private repo: Repository<AuditLog>) {}
+
+  // Persist an audit entry; failures are logged rather than breaking the audited operation
+  async record(entry: AuditEntry) {
+    try {
+      await this.repo.insert({
+        action: entry.action,
+        actorId: entry.actor?.id ?? entry.actorId ?? null,
+        actorEmail: entry.actor?.email ?? entry.actorEmail ?? null,
+        ip: entry.ip ?? null,
+        targetIds: entry.targetIds ?? [],
+        before: entry.before ?? null,
+        after: entry.after ?? null,
+        details: entry.details ?? null
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record audit entry "${entry.action}"`, error as Error);
+    }
+  }
+
+  /**
+   * Lists audit entries, newest first. `action` matches exactly or, when it
+   * ends with `.*`, as a prefix (e.g. `graph.*`).
+   */
+  async find(query: AuditQuery) {
+    const qb = this.repo.createQueryBuilder('a');
+
+    if (query.action) {
+      if (query.action.endsWith('.*')) {
+        qb.andWhere('a.action LIKE :action', { action: `${query.action.slice(0, -1)}%` });
+      } else {
+        qb.andWhere('a.action = :action', { action: query.action });
+      }
+    }
+    if (query.actorId) qb.andWhere('a.actorId = :actorId', { actorId: query.actorId });
+    if (query.targetId) qb.andWhere(':targetId = ANY(a.targetIds)', { targetId: query.targetId });
+    if (query.from) qb.andWhere('a.createdAt >= :from', { from: query.from });
+    if (query.to) qb.andWhere('a.createdAt <= :to', { to: query.to });
+
+    const [items, total] = await qb
+      .orderBy('a.createdAt', 'DESC')
+      .skip((query.page - 1) * query.pageSize)
+      .take(query.pageSize)
+      .getManyAndCount();
+
+    return { items, total, page: query.page, pageSize: query.pageSize };
+  }
+}
\ No newline at end of file
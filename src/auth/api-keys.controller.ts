@@ -0,0 +1,44 @@
+import { Body, Controller, Delete, Get, Param, ParseUUIDPipe, Post } from '@nestjs/common';
+import { ArrayNotEmpty, IsArray, IsIn, IsInt, IsOptional, IsString, Max, Min, MaxLength } from 'class-validator';
+import { ApiKeysService } from './api-keys.service';
+import { CurrentUser } from './current-user.decorator';
+import { AuthUser } from './auth-user.interface';
+import { API_KEY_SCOPES, ApiKeyScope } from '../users/api-key.entity';
+
+class CreateApiKeyDto {
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: ApiKeyScope[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expiresInDays?: number;
+}
+
+// Key management is only reachable with an interactive session: no @Scopes, so API keys are refused
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private apiKeysService: ApiKeysService) {}
+
+  @Post()
+  create(@Body() body: CreateApiKeyDto, @CurrentUser() user: AuthUser) {
+    return this.apiKeysService.create(user.id, body.name, body.scopes, body.expiresInDays);
+  }
+
+  @Get()
+  list(@CurrentUser() user: AuthUser) {
+    return this.apiKeysService.list(user.id);
+  }
+
+  @Delete(':id')
+  revoke(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() user: AuthUser) {
+    return this.apiKeysService.revoke(id, user.id);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey, ApiKeyScope } from '../users/api-key.entity';
+import { UsersService } from '../users/users.service';
+import { AuthUser } from './auth-user.interface';
+import { AuditService } from '../audit/audit.service';
+
+const KEY_PREFIX = 'miipa_';
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey) private repo: Repository<ApiKey>,
+    private usersService: UsersService,
+    private auditService: AuditService
+  ) {}
+
+  // Create a key for the user; the raw key is only returned from this call
+  async create(userId: string, name: string, scopes: ApiKeyScope[], expiresInDays?: number) {
+    const key = KEY_PREFIX + randomBytes(32).toString('hex');
+    const apiKey = await this.repo.save(
+      this.repo.create({
+        userId,
+        name,
+        prefix: key.slice(0, KEY_PREFIX.length + 8),
+        keyHash: this.hash(key),
+        scopes: [...new Set(scopes)],
+        lastUsedAt: null,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+        revokedAt: null
+      })
+    );
+    await this.auditService.record({
+      action: 'auth.api_key.create',
+      actorId: userId,
+      targetIds: [apiKey.id],
+      after: { name: apiKey.name, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt }
+    });
+    return { ...this.toPublic(apiKey), key };
+  }
+
+  async list(userId: string) {
+    const keys = await this.repo.find({ where: { userId }, order: { createdAt: 'DESC' } });
+    return keys.map(k => this.toPublic(k));
+  }
+
+  async revoke(id: string, userId: string) {
+    const apiKey = await this.repo.findOne({ where: { id, userId } });
+    if (!apiKey) throw new NotFoundException('API key not found');
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await this.repo.save(apiKey);
+      await this.auditService.record({ action: 'auth.api_key.revoke', actorId: userId, targetIds: [apiKey.id] });
+    }
+    return this.toPublic(apiKey);
+  }
+
+  // Resolve an X-API-Key header to its owner's identity, recording the use
+  async authenticate(rawKey: string): Promise<AuthUser> {
+    const apiKey = await this.repo.findOne({ where: { keyHash: this.hash(rawKey), revokedAt: IsNull() } });
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt.getTime() < Date.now())) {
+      throw new UnauthorizedException();
+    }
+    const user = await this.usersService.findById(apiKey.userId);
+    if (!user || !user.isActive) throw new UnauthorizedException();
+
+    await this.repo.update({ id: apiKey.id }, { lastUsedAt: new Date() });
+    return { id: user.id, email: user.email, role: user.role, apiKeyId: apiKey.id, scopes: apiKey.scopes };
+  }
+
+  private toPublic(apiKey: ApiKey) {
+    const { keyHash, ...rest } = apiKey;
+    return rest;
+  }
+
+  private hash(key: string) {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { CanActivate, ExecutionContext, HttpException, HttpStatus, Injectable } from '@nestjs/common';
+
+const WINDOW_MS = 15 * 60 * 1000;
+const MAX_REQUESTS_PER_WINDOW = 20;
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * In-memory fixed-window limiter for unauthenticated auth endpoints,
+ * keyed by client IP and route. State is per instance.
+ */
+@Injectable()
+export class AuthRateLimitGuard implements CanActivate {
+  private readonly hits = new Map<string, { count: number; windowStart: number }>();
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+    const now = Date.now();
+    const key = `${request.ip}:${request.route?.path ?? request.url}`;
+
+    if (this.hits.size > SWEEP_THRESHOLD) this.sweep(now);
+
+    let bucket = this.hits.get(key);
+    if (!bucket || now - bucket.windowStart >= WINDOW_MS) {
+      bucket = { count: 0, windowStart: now };
+      this.hits.set(key, bucket);
+    }
+    bucket.count++;
+
+    if (bucket.count > MAX_REQUESTS_PER_WINDOW) {
+      const retryAfter = Math.ceil((bucket.windowStart + WINDOW_MS - now) / 1000);
+      response.setHeader('Retry-After', String(retryAfter));
+      throw new HttpException('Too many attempts, please try again later', HttpStatus.TOO_MANY_REQUESTS);
+    }
+    return true;
+  }
+
+  private sweep(now: number) {
+    for (const [key, bucket] of this.hits) {
+      if (now - bucket.windowStart >= WINDOW_MS) this.hits.delete(key);
+    }
+  }
+}
\ No newline at end of file
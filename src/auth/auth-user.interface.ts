@@ -0,0 +1,12 @@
+import { UserRole } from '../users/user.entity';
+import { ApiKeyScope } from '../users/api-key.entity';
+
+/** Identity attached to `request.user` once a request has been authenticated. */
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  // Set only when the request was authenticated with an X-API-Key header
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[];
+}
\ No newline at end of file
@@ -1,17 +1,104 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import { Body, Controller, HttpCode, Ip, Post, UseGuards } from '@nestjs/common';
+import { IsBoolean, IsEmail, IsOptional, IsString, MinLength } from 'class-validator';
 import { AuthService } from './auth.service';
+import { PasswordService } from './password.service';
+import { Public } from './public.decorator';
+import { CurrentUser } from './current-user.decorator';
+import { AuthUser } from './auth-user.interface';
+import { AuthRateLimitGuard } from './auth-rate-limit.guard';
 
 class LoginDto {
+  @IsEmail()
   email: string;
+
+  @IsString()
   password: string;
 }
 
+class RefreshDto {
+  @IsString()
+  refreshToken: string;
+}
+
+class LogoutDto {
+  @IsString()
+  refreshToken: string;
+
+  @IsOptional()
+  @IsBoolean()
+  allSessions?: boolean;
+}
+
+class ForgotPasswordDto {
+  @IsEmail()
+  email: string;
+}
+
+class ResetPasswordDto {
+  @IsString()
+  token: string;
+
+  @IsString()
+  @MinLength(8)
+  newPassword: string;
+}
+
+class ChangePasswordDto {
+  @IsString()
+  currentPassword: string;
+
+  @IsString()
+  @MinLength(8)
+  newPassword: string;
+}
+
 @Controller('auth')
 export class AuthController {
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private passwordService: PasswordService
+  ) {}
 
+  @Public()
+  @UseGuards(AuthRateLimitGuard)
   @Post('login')
-  login(@Body() body: LoginDto) {
-    return this.authService.login(body.email, body.password);
+  login(@Body() body: LoginDto, @Ip() ip: string) {
+    return this.authService.login(body.email, body.password, ip);
+  }
+
+  @Public()
+  @HttpCode(200)
+  @Post('refresh')
+  refresh(@Body() body: RefreshDto) {
+    return this.authService.refresh(body.refreshToken);
+  }
+
+  // Public so a client holding an expired access token can still end its session
+  @Public()
+  @HttpCode(200)
+  @Post('logout')
+  logout(@Body() body: LogoutDto) {
+    return this.authService.logout(body.refreshToken, body.allSessions);
+  }
+
+  @Public()
+  @UseGuards(AuthRateLimitGuard)
+  @HttpCode(200)
+  @Post('forgot-password')
+  forgotPassword(@Body() body: ForgotPasswordDto) {
+    return this.passwordService.forgotPassword(body.email);
+  }
+
+  @Public()
+  @HttpCode(200)
+  @Post('reset-password')
+  resetPassword(@Body() body: ResetPasswordDto) {
+    return this.passwordService.resetPassword(body.token, body.newPassword);
+  }
+
+  @HttpCode(200)
+  @Post('change-password')
+  changePassword(@Body() body: ChangePasswordDto, @CurrentUser() user: AuthUser) {
+    return this.passwordService.changePassword(user.id, body.currentPassword, body.newPassword);
   }
 }
\ No newline at end of file
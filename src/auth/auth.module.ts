@@ -1,11 +1,33 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { UsersModule } from '../users/users.module';
+import { RefreshToken } from '../users/refresh-token.entity';
+import { PasswordResetToken } from '../users/password-reset-token.entity';
+import { ApiKey } from '../users/api-key.entity';
 import { AuthService } from './auth.service';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { PasswordService } from './password.service';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
 import { AuthController } from './auth.controller';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { RolesGuard } from './roles.guard';
+import { ScopesGuard } from './scopes.guard';
 
 @Module({
-  imports: [UsersModule],
-  providers: [AuthService],
-  controllers: [AuthController]
+  imports: [UsersModule, TypeOrmModule.forFeature([RefreshToken, PasswordResetToken, ApiKey])],
+  providers: [
+    AuthService,
+    RefreshTokensService,
+    PasswordService,
+    ApiKeysService,
+    // Order matters: authentication must populate request.user before roles and scopes are checked
+    { provide: APP_GUARD, useClass: JwtAuthGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
+    { provide: APP_GUARD, useClass: ScopesGuard }
+  ],
+  controllers: [AuthController, ApiKeysController],
+  exports: [AuthService]
 })
 export class AuthModule {}
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { UnauthorizedException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { AuthService } from './auth.service';
+import { User } from '../users/user.entity';
+
+describe('AuthService login', () => {
+  let user: User;
+  let users: { findByEmail: jest.Mock; updateLoginState: jest.Mock };
+  let audit: { record: jest.Mock };
+  let service: AuthService;
+
+  // The error a login attempt fails with, or null if it succeeds
+  const attempt = (email: string, password: string) =>
+    service.login(email, password, '127.0.0.1').then(
+      () => null,
+      (error: unknown) => error
+    );
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    user = {
+      id: 'user-1',
+      email: 'ana@example.com',
+      passwordHash: bcrypt.hashSync('correct horse', 4),
+      role: 'user',
+      isActive: true,
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      lastLoginAt: null,
+      createdAt: new Date()
+    };
+    users = {
+      findByEmail: jest.fn(async (email: string) => (email === user.email ? user : null)),
+      updateLoginState: jest.fn(async (_id: string, state: Partial<User>) => Object.assign(user, state))
+    };
+    audit = { record: jest.fn() };
+    const refreshTokens = { issue: jest.fn(async () => ({ token: 'refresh' })) };
+    service = new AuthService(users as any, refreshTokens as any, audit as any);
+  });
+
+  it('issues tokens and resets the failure count on success', async () => {
+    user.failedLoginAttempts = 3;
+    const result = await service.login(user.email, 'correct horse');
+
+    expect(result.token).toEqual(expect.any(String));
+    expect(result.refreshToken).toBe('refresh');
+    expect(user.failedLoginAttempts).toBe(0);
+  });
+
+  it('locks the account after five consecutive failures', async () => {
+    for (let i = 0; i < 4; i++) await attempt(user.email, 'wrong');
+    expect(user.lockedUntil).toBeNull();
+
+    await attempt(user.email, 'wrong');
+    expect(user.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+
+    // Even the right password is refused while locked
+    expect(await attempt(user.email, 'correct horse')).toBeInstanceOf(UnauthorizedException);
+    expect(audit.record).toHaveBeenLastCalledWith(
+      expect.objectContaining({ action: 'auth.login.failure', details: { reason: 'locked' } })
+    );
+  });
+
+  it('doubles the lockout with every further failure', async () => {
+    user.failedLoginAttempts = 5;
+    await attempt(user.email, 'wrong');
+    const lockout = user.lockedUntil!.getTime() - Date.now();
+
+    expect(lockout).toBeGreaterThan(110 * 1000);
+    expect(lockout).toBeLessThanOrEqual(120 * 1000);
+  });
+
+  it('does not reveal whether an account exists or is locked', async () => {
+    const unknown = (await attempt('nobody@example.com', 'wrong')) as UnauthorizedException;
+    const badPassword = (await attempt(user.email, 'wrong')) as UnauthorizedException;
+    user.lockedUntil = new Date(Date.now() + 60 * 1000);
+    const locked = (await attempt(user.email, 'correct horse')) as UnauthorizedException;
+
+    expect(unknown.getResponse()).toEqual(badPassword.getResponse());
+    expect(locked.getResponse()).toEqual(badPassword.getResponse());
+  });
+
+  it('spends a bcrypt comparison on unknown emails', async () => {
+    const compare = jest.spyOn(bcrypt, 'compare');
+    try {
+      await attempt('nobody@example.com', 'wrong');
+      expect(compare).toHaveBeenCalledTimes(1);
+    } finally {
+      compare.mockRestore();
+    }
+  });
+});
\ No newline at end of file
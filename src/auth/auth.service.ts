@@ -1,23 +1,125 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
+import { AuthUser } from './auth-user.interface';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { AuditService } from '../audit/audit.service';
 import * as bcrypt from 'bcrypt';
 import * as jwt from 'jsonwebtoken';
 
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+// Progressive lockout: after LOCKOUT_THRESHOLD consecutive failures the account is locked
+// for 1 minute, doubling with every further failure up to MAX_LOCKOUT_MS.
+const LOCKOUT_THRESHOLD = 5;
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+// Compared against when the email is unknown, so that path costs the same bcrypt round
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('not-a-real-password', 10);
+
 @Injectable()
 export class AuthService {
-  constructor(private usersService: UsersService) {}
+  private readonly jwtSecret: string;
+
+  constructor(
+    private usersService: UsersService,
+    private refreshTokensService: RefreshTokensService,
+    private auditService: AuditService
+  ) {
+    // Checked at startup: without it anyone could sign tokens with a guessable key
+    if (!process.env.JWT_SECRET) throw new Error('JWT_SECRET must be set');
+    this.jwtSecret = process.env.JWT_SECRET;
+  }
 
-  async login(email: string, password: string) {
+  async login(email: string, password: string, ip?: string) {
     const user = await this.usersService.findByEmail(email);
-    if (!user) throw new UnauthorizedException();
-    const ok = await bcrypt.compare(password, user.passwordHash);
-    if (!ok) throw new UnauthorizedException();
+    // Every failure gets the same response, so it does not reveal whether the account exists or is locked
+    const fail = async (reason: string): Promise<never> => {
+      await this.auditService.record({
+        action: 'auth.login.failure',
+        actorId: user?.id,
+        actorEmail: email,
+        ip,
+        details: { reason }
+      });
+      throw new UnauthorizedException();
+    };
+
+    const ok = await bcrypt.compare(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+    if (!user) return fail('unknown_email');
+    if (!user.isActive) return fail('inactive');
+    if (user.lockedUntil && user.lockedUntil.getTime() > Date.now()) return fail('locked');
+
+    if (!ok) {
+      const failedLoginAttempts = user.failedLoginAttempts + 1;
+      await this.usersService.updateLoginState(user.id, {
+        failedLoginAttempts,
+        lockedUntil: this.lockoutUntil(failedLoginAttempts)
+      });
+      return fail('bad_password');
+    }
+
+    await this.usersService.updateLoginState(user.id, {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      lastLoginAt: new Date()
+    });
+    await this.auditService.record({
+      action: 'auth.login.success',
+      actorId: user.id,
+      actorEmail: user.email,
+      ip
+    });
+
+    const { token: refreshToken } = await this.refreshTokensService.issue(user.id);
+    return this.tokenResponse(user, refreshToken);
+  }
+
+  // Rotate the refresh token and mint a new access token for its owner
+  async refresh(refreshToken: string) {
+    const rotated = await this.refreshTokensService.rotate(refreshToken);
+    const user = await this.usersService.findById(rotated.userId);
+    if (!user || !user.isActive) {
+      await this.refreshTokensService.revoke(rotated.token);
+      throw new UnauthorizedException();
+    }
+    return this.tokenResponse(user, rotated.token);
+  }
+
+  async logout(refreshToken: string, allSessions = false) {
+    const userId = await this.refreshTokensService.revoke(refreshToken, allSessions);
+    if (userId) {
+      await this.auditService.record({ action: 'auth.logout', actorId: userId, details: { allSessions } });
+    }
+    return { success: true };
+  }
+
+  // Verify a bearer token and map its claims to the request identity
+  verifyToken(token: string): AuthUser {
+    try {
+      const payload = jwt.verify(token, this.jwtSecret) as jwt.JwtPayload;
+      return { id: payload.sub as string, email: payload.email, role: payload.role };
+    } catch {
+      throw new UnauthorizedException();
+    }
+  }
+
+  private lockoutUntil(failedLoginAttempts: number): Date | null {
+    if (failedLoginAttempts < LOCKOUT_THRESHOLD) return null;
+    const duration = Math.min(
+      BASE_LOCKOUT_MS * 2 ** (failedLoginAttempts - LOCKOUT_THRESHOLD),
+      MAX_LOCKOUT_MS
+    );
+    return new Date(Date.now() + duration);
+  }
 
+  private tokenResponse(user: User, refreshToken: string) {
     const token = jwt.sign(
       { sub: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET || 'secret',
-      { expiresIn: '8h' }
+      this.jwtSecret,
+      { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
     );
-    return { token };
+    return { token, expiresIn: ACCESS_TOKEN_TTL_SECONDS, refreshToken };
   }
 }
\ No newline at end of file
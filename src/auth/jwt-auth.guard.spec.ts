@@ -0,0 +1,142 @@
+import { Controller, Get, INestApplication } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import * as jwt from 'jsonwebtoken';
+import * as request from 'supertest';
+import { ApiKeysService } from './api-keys.service';
+import { AuthService } from './auth.service';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { Public } from './public.decorator';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { Roles } from './roles.decorator';
+import { RolesGuard } from './roles.guard';
+import { Scopes } from './scopes.decorator';
+import { ScopesGuard } from './scopes.guard';
+import { AuditService } from '../audit/audit.service';
+import { UsersService } from '../users/users.service';
+
+const SECRET = 'test-secret';
+
+@Controller()
+class ProbeController {
+  @Public()
+  @Get('open')
+  open() {
+    return { ok: true };
+  }
+
+  @Scopes('read:miipa')
+  @Get('data')
+  data() {
+    return { ok: true };
+  }
+
+  @Roles('admin')
+  @Get('admin')
+  admin() {
+    return { ok: true };
+  }
+
+  @Get('session-only')
+  sessionOnly() {
+    return { ok: true };
+  }
+}
+
+function bearer(claims: { sub: string; email: string; role: string }, secret = SECRET) {
+  return `Bearer ${jwt.sign(claims, secret, { expiresIn: 60 })}`;
+}
+
+describe('API authentication', () => {
+  let app: INestApplication;
+  const apiKeysService = { authenticate: jest.fn() };
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = SECRET;
+    const moduleRef = await Test.createTestingModule({
+      controllers: [ProbeController],
+      providers: [
+        AuthService,
+        { provide: UsersService, useValue: {} },
+        { provide: RefreshTokensService, useValue: {} },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        { provide: ApiKeysService, useValue: apiKeysService },
+        { provide: APP_GUARD, useClass: JwtAuthGuard },
+        { provide: APP_GUARD, useClass: RolesGuard },
+        { provide: APP_GUARD, useClass: ScopesGuard }
+      ]
+    }).compile();
+    app = moduleRef.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('lets public routes through without credentials', async () => {
+    await request(app.getHttpServer()).get('/open').expect(200);
+  });
+
+  it('rejects requests without a token', async () => {
+    await request(app.getHttpServer()).get('/data').expect(401);
+  });
+
+  it('rejects tokens signed with another key', async () => {
+    await request(app.getHttpServer())
+      .get('/data')
+      .set('Authorization', bearer({ sub: 'u1', email: 'a@example.com', role: 'admin' }, 'secret'))
+      .expect(401);
+  });
+
+  it('accepts a valid token', async () => {
+    await request(app.getHttpServer())
+      .get('/data')
+      .set('Authorization', bearer({ sub: 'u1', email: 'a@example.com', role: 'user' }))
+      .expect(200);
+  });
+
+  it('enforces roles', async () => {
+    const server = app.getHttpServer();
+    await request(server)
+      .get('/admin')
+      .set('Authorization', bearer({ sub: 'u1', email: 'a@example.com', role: 'user' }))
+      .expect(403);
+    await request(server)
+      .get('/admin')
+      .set('Authorization', bearer({ sub: 'u2', email: 'b@example.com', role: 'admin' }))
+      .expect(200);
+  });
+
+  it('limits API keys to the scopes they hold', async () => {
+    const server = app.getHttpServer();
+    apiKeysService.authenticate.mockResolvedValue({
+      id: 'u1',
+      email: 'a@example.com',
+      role: 'admin',
+      apiKeyId: 'k1',
+      scopes: ['read:miipa']
+    });
+    await request(server).get('/data').set('X-API-Key', 'key').expect(200);
+    await request(server).get('/session-only').set('X-API-Key', 'key').expect(403);
+
+    apiKeysService.authenticate.mockResolvedValue({
+      id: 'u1',
+      email: 'a@example.com',
+      role: 'admin',
+      apiKeyId: 'k1',
+      scopes: ['write:graph']
+    });
+    await request(server).get('/data').set('X-API-Key', 'key').expect(403);
+  });
+
+  it('refuses to start without a signing key', () => {
+    const secret = process.env.JWT_SECRET;
+    delete process.env.JWT_SECRET;
+    try {
+      expect(() => new AuthService({} as any, {} as any, {} as any)).toThrow('JWT_SECRET must be set');
+    } finally {
+      process.env.JWT_SECRET = secret;
+    }
+  });
+});
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { ApiKeysService } from './api-keys.service';
+import { IS_PUBLIC_KEY } from './public.decorator';
+
+/**
+ * Global guard authenticating either an `X-API-Key` header or an
+ * `Authorization: Bearer <jwt>` header. Routes decorated with `@Public()`
+ * are let through untouched.
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+    private readonly apiKeysService: ApiKeysService
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass()
+    ]);
+    if (isPublic) return true;
+
+    const request = context.switchToHttp().getRequest();
+    const apiKey: string | undefined = request.headers['x-api-key'];
+    if (apiKey) {
+      request.user = await this.apiKeysService.authenticate(apiKey);
+      return true;
+    }
+
+    const header: string | undefined = request.headers['authorization'];
+    const [scheme, token] = header ? header.split(' ') : [];
+    if (scheme !== 'Bearer' || !token) throw new UnauthorizedException();
+
+    request.user = this.authService.verifyToken(token);
+    return true;
+  }
+}
\ No newline at end of file
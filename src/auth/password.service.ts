@@ -0,0 +1,97 @@
+import { BadRequestException, Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { PasswordResetToken } from '../users/password-reset-token.entity';
+import { UsersService } from '../users/users.service';
+import { Mailer, MAILER } from '../mail/mailer.interface';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { AuditService } from '../audit/audit.service';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class PasswordService {
+  constructor(
+    @InjectRepository(PasswordResetToken) private repo: Repository<PasswordResetToken>,
+    @Inject(MAILER) private mailer: Mailer,
+    private usersService: UsersService,
+    private refreshTokensService: RefreshTokensService,
+    private auditService: AuditService
+  ) {}
+
+  /**
+   * Emails a single-use reset link. Always resolves the same way so the
+   * endpoint cannot be used to discover which emails have accounts.
+   */
+  async forgotPassword(email: string) {
+    const user = await this.usersService.findByEmail(email);
+    if (user && user.isActive) {
+      // Only the most recent link stays valid
+      await this.repo.update({ userId: user.id, usedAt: IsNull() }, { usedAt: new Date() });
+
+      const token = randomBytes(32).toString('hex');
+      await this.repo.save(
+        this.repo.create({
+          userId: user.id,
+          tokenHash: this.hash(token),
+          expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+          usedAt: null
+        })
+      );
+
+      const baseUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+      await this.mailer.send({
+        to: user.email,
+        subject: 'Reset your MIIPA password',
+        text:
+          `A password reset was requested for your MIIPA account.\n\n` +
+          `Open the link below within one hour to choose a new password:\n` +
+          `${baseUrl}/reset-password?token=${token}\n\n` +
+          `If you did not request this, you can ignore this email.`
+      });
+      await this.auditService.record({ action: 'auth.password.reset_requested', actorId: user.id, actorEmail: user.email });
+    }
+    return { success: true };
+  }
+
+  async resetPassword(token: string, newPassword: string) {
+    const record = await this.repo.findOne({
+      where: { tokenHash: this.hash(token), usedAt: IsNull() }
+    });
+    if (!record || record.expiresAt.getTime() < Date.now()) {
+      throw new BadRequestException('Reset token is invalid or has expired');
+    }
+
+    // Claim the token before changing anything so it cannot be redeemed twice
+    const claimed = await this.repo.update({ id: record.id, usedAt: IsNull() }, { usedAt: new Date() });
+    if (!claimed.affected) throw new BadRequestException('Reset token is invalid or has expired');
+
+    await this.setPassword(record.userId, newPassword);
+    await this.auditService.record({ action: 'auth.password.reset', actorId: record.userId });
+    return { success: true };
+  }
+
+  async changePassword(userId: string, currentPassword: string, newPassword: string) {
+    const user = await this.usersService.findById(userId);
+    if (!user || !user.isActive) throw new UnauthorizedException();
+    const ok = await bcrypt.compare(currentPassword, user.passwordHash);
+    if (!ok) throw new UnauthorizedException('Current password is incorrect');
+
+    await this.setPassword(user.id, newPassword);
+    await this.auditService.record({ action: 'auth.password.change', actorId: user.id, actorEmail: user.email });
+    return { success: true };
+  }
+
+  // Store the new hash, clear any lockout and sign out every existing session
+  private async setPassword(userId: string, password: string) {
+    await this.usersService.setPasswordHash(userId, await bcrypt.hash(password, 10));
+    await this.usersService.updateLoginState(userId, { failedLoginAttempts: 0, lockedUntil: null });
+    await this.refreshTokensService.revokeAllForUser(userId);
+  }
+
+  private hash(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
\ No newline at end of file
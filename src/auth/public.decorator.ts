@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/** Marks a route (or controller) as reachable without a JWT. */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
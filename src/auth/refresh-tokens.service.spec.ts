@@ -0,0 +1,86 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { FindOperator } from 'typeorm';
+import { RefreshTokensService } from './refresh-tokens.service';
+import { RefreshToken } from '../users/refresh-token.entity';
+
+// Just enough of a TypeORM repository, kept in memory: equality and IsNull() criteria
+function memoryRepository() {
+  const rows: RefreshToken[] = [];
+  const matches = (row: Record<string, any>, where: Record<string, any>) =>
+    Object.entries(where).every(([field, value]) =>
+      value instanceof FindOperator && value.type === 'isNull' ? row[field] == null : row[field] === value
+    );
+  return {
+    rows,
+    create: (fields: Partial<RefreshToken>) => ({ ...fields }) as RefreshToken,
+    save: async (row: RefreshToken) => {
+      const saved = { ...row, id: row.id ?? randomUUID(), createdAt: new Date() };
+      rows.push(saved);
+      return saved;
+    },
+    findOne: async ({ where }: { where: Record<string, any> }) => rows.find(row => matches(row, where)) ?? null,
+    update: async (where: Record<string, any>, changes: Partial<RefreshToken>) => {
+      const hit = rows.filter(row => matches(row, where));
+      hit.forEach(row => Object.assign(row, changes));
+      return { affected: hit.length };
+    }
+  };
+}
+
+describe('RefreshTokensService', () => {
+  let repo: ReturnType<typeof memoryRepository>;
+  let audit: { record: jest.Mock };
+  let service: RefreshTokensService;
+
+  beforeEach(() => {
+    repo = memoryRepository();
+    audit = { record: jest.fn() };
+    service = new RefreshTokensService(repo as any, audit as any);
+  });
+
+  it('rotates a token into a successor in the same family', async () => {
+    const { token, record } = await service.issue('user-1');
+    const rotated = await service.rotate(token);
+
+    expect(rotated.userId).toBe('user-1');
+    expect(rotated.token).not.toBe(token);
+    const successor = repo.rows.find(r => r.id === record.replacedById);
+    expect(successor?.familyId).toBe(record.familyId);
+    expect(record.revokedReason).toBe('rotated');
+  });
+
+  it('revokes the whole family when a rotated token is presented again', async () => {
+    const { token } = await service.issue('user-1');
+    const { token: successor } = await service.rotate(token);
+
+    await expect(service.rotate(token)).rejects.toThrow('Refresh token reuse detected');
+    expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({ action: 'auth.refresh.reuse_detected' }));
+    expect(repo.rows.every(r => r.revokedAt !== null)).toBe(true);
+    // The legitimate holder's newer token is gone too
+    await expect(service.rotate(successor)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('leaves other sessions alone when one family is revoked', async () => {
+    const first = await service.issue('user-1');
+    const second = await service.issue('user-1');
+    await service.rotate(first.token);
+    await expect(service.rotate(first.token)).rejects.toThrow(UnauthorizedException);
+
+    await expect(service.rotate(second.token)).resolves.toMatchObject({ userId: 'user-1' });
+  });
+
+  it('rejects unknown and expired tokens', async () => {
+    await expect(service.rotate('unknown')).rejects.toThrow(UnauthorizedException);
+
+    const { token, record } = await service.issue('user-1');
+    record.expiresAt = new Date(Date.now() - 1000);
+    await expect(service.rotate(token)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('refuses tokens after logout', async () => {
+    const { token } = await service.issue('user-1');
+    await expect(service.revoke(token)).resolves.toBe('user-1');
+    await expect(service.rotate(token)).rejects.toThrow(UnauthorizedException);
+  });
+});
\ No newline at end of file
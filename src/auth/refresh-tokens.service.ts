@@ -0,0 +1,95 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { RefreshToken, RefreshTokenRevocation } from '../users/refresh-token.entity';
+import { AuditService } from '../audit/audit.service';
+
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class RefreshTokensService {
+  constructor(
+    @InjectRepository(RefreshToken) private repo: Repository<RefreshToken>,
+    private auditService: AuditService
+  ) {}
+
+  // Start a new token family for a fresh login
+  issue(userId: string) {
+    return this.create(userId, randomUUID());
+  }
+
+  /**
+   * Exchanges a refresh token for its successor in the same family.
+   * Presenting a token that was already rotated or revoked is treated as theft:
+   * the whole family is revoked and the caller must log in again.
+   */
+  async rotate(rawToken: string) {
+    const current = await this.repo.findOne({ where: { tokenHash: this.hash(rawToken) } });
+    if (!current) throw new UnauthorizedException();
+    if (current.expiresAt.getTime() < Date.now()) throw new UnauthorizedException();
+
+    // Conditional update so two concurrent rotations of the same token cannot both succeed
+    const claimed = await this.repo.update(
+      { id: current.id, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: 'rotated' }
+    );
+    if (!claimed.affected) {
+      await this.revokeFamily(current.familyId, 'reuse');
+      await this.auditService.record({
+        action: 'auth.refresh.reuse_detected',
+        actorId: current.userId,
+        targetIds: [current.familyId]
+      });
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    const next = await this.create(current.userId, current.familyId);
+    await this.repo.update({ id: current.id }, { replacedById: next.record.id });
+
+    return { userId: current.userId, token: next.token };
+  }
+
+  // Revoke the family the given token belongs to (or every session of its user); unknown tokens are ignored
+  async revoke(rawToken: string, allSessions = false): Promise<string | null> {
+    const current = await this.repo.findOne({ where: { tokenHash: this.hash(rawToken) } });
+    if (!current) return null;
+    if (allSessions) await this.revokeAllForUser(current.userId);
+    else await this.revokeFamily(current.familyId, 'logout');
+    return current.userId;
+  }
+
+  async revokeAllForUser(userId: string) {
+    await this.repo.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: 'logout' }
+    );
+  }
+
+  private async revokeFamily(familyId: string, reason: RefreshTokenRevocation) {
+    await this.repo.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+  }
+
+  private async create(userId: string, familyId: string) {
+    const token = randomBytes(48).toString('hex');
+    const record = await this.repo.save(
+      this.repo.create({
+        userId,
+        familyId,
+        tokenHash: this.hash(token),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        revokedAt: null,
+        revokedReason: null,
+        replacedById: null
+      })
+    );
+    return { token, record };
+  }
+
+  private hash(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '../users/user.entity';
+import { AuthUser } from './auth-user.interface';
+import { ROLES_KEY } from './roles.decorator';
+
+/** Global guard enforcing `@Roles(...)`; runs after JwtAuthGuard has set `request.user`. */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass()
+    ]);
+    if (!roles || roles.length === 0) return true;
+
+    const user: AuthUser | undefined = context.switchToHttp().getRequest().user;
+    if (!user || !roles.includes(user.role)) throw new ForbiddenException();
+    return true;
+  }
+}
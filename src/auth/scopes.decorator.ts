@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../users/api-key.entity';
+
+export const SCOPES_KEY = 'scopes';
+
+/**
+ * Declares which API key scopes may call a route (or controller). Interactive
+ * JWT sessions are unaffected; API keys are refused on routes without scopes.
+ */
+export const Scopes = (...scopes: ApiKeyScope[]) => SetMetadata(SCOPES_KEY, scopes);
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyScope } from '../users/api-key.entity';
+import { AuthUser } from './auth-user.interface';
+import { SCOPES_KEY } from './scopes.decorator';
+
+/** Global guard restricting API-key requests to routes whose `@Scopes(...)` the key holds. */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const user: AuthUser | undefined = context.switchToHttp().getRequest().user;
+    if (!user || !user.apiKeyId) return true;
+
+    const scopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass()
+    ]);
+    if (!scopes || !scopes.some(scope => user.scopes?.includes(scope))) {
+      throw new ForbiddenException('API key lacks the required scope');
+    }
+    return true;
+  }
+}
\ No newline at end of file
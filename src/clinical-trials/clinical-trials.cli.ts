@@ -0,0 +1,49 @@
+import 'reflect-metadata';
+import neo4j from 'neo4j-driver';
+import * as dotenv from 'dotenv';
+import { readStudyFiles } from './clinical-trials.files';
+import { ClinicalTrialsService } from './clinical-trials.service';
+dotenv.config();
+
+const USAGE = `Usage: npm run trials -- <command>  (or trials:prod after a build)
+  import <path> [--dry-run]   upsert ClinicalTrials.gov studies from a JSON file or a directory of them`;
+
+const uri = process.env.NEO4J_URI || 'bolt://localhost:7687';
+const user = process.env.NEO4J_USER || 'neo4j';
+const password = process.env.NEO4J_PASSWORD || 'password';
+
+async function main() {
+  const [command, location, ...flags] = process.argv.slice(2);
+  if (command !== 'import' || !location) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const files = await readStudyFiles(location);
+  for (const { file, studies } of files) {
+    console.log(`${file}: ${studies.length} stud${studies.length === 1 ? 'y' : 'ies'}`);
+  }
+
+  const driver = neo4j.driver(uri, neo4j.auth.basic(user, password));
+  try {
+    const service = new ClinicalTrialsService(driver);
+    const dryRun = flags.includes('--dry-run');
+    const result = await service.importStudies(files.flatMap(f => f.studies), { dryRun });
+
+    const { created, updated, unchanged } = result.changes;
+    console.log(`Trials: created ${created}, updated ${updated}, unchanged ${unchanged}`);
+    if (result.invalid) console.log(`Skipped ${result.invalid} stud${result.invalid === 1 ? 'y' : 'ies'} without an NCT number`);
+    if (result.unlinked.length) {
+      console.log(`Skipped ${result.unlinked.length} trial(s) matching no indication or mutation: ${result.unlinked.join(', ')}`);
+    }
+    console.log(dryRun ? 'Dry run: nothing was written' : `Imported ${location}`);
+  } finally {
+    await driver.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Clinical trial import error:', error);
+  process.exitCode = 1;
+});
\ No newline at end of file
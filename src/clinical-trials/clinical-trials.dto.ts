@@ -0,0 +1,62 @@
+/** ClinicalTrials.gov registry ids (NCT numbers) are the ClinicalTrial node ids. */
+export const CLINICAL_TRIAL_ID_PATTERN = /^NCT\d{8}$/;
+
+export const CLINICAL_TRIAL_REGISTRY = 'ClinicalTrials.gov';
+
+/** Study phases as ClinicalTrials.gov spells them, earliest first. */
+export const TRIAL_PHASES = ['EARLY_PHASE1', 'PHASE1', 'PHASE2', 'PHASE3', 'PHASE4', 'NA'] as const;
+
+/** Overall statuses of trials that are running or about to. */
+export const ACTIVE_TRIAL_STATUSES = [
+  'NOT_YET_RECRUITING',
+  'RECRUITING',
+  'ENROLLING_BY_INVITATION',
+  'ACTIVE_NOT_RECRUITING'
+];
+
+/**
+ * A study as ClinicalTrials.gov API v2 returns it (and as its bulk
+ * downloads store it), reduced to the modules the importer reads.
+ */
+export interface CtGovStudy {
+  protocolSection?: {
+    identificationModule?: { nctId?: string; briefTitle?: string; officialTitle?: string };
+    statusModule?: {
+      overallStatus?: string;
+      startDateStruct?: { date?: string };
+      completionDateStruct?: { date?: string };
+      lastUpdatePostDateStruct?: { date?: string };
+    };
+    sponsorCollaboratorsModule?: { leadSponsor?: { name?: string } };
+    designModule?: { phases?: string[]; enrollmentInfo?: { count?: number } };
+    conditionsModule?: { conditions?: string[]; keywords?: string[] };
+    armsInterventionsModule?: {
+      interventions?: Array<{ type?: string; name?: string; otherNames?: string[] }>;
+    };
+    eligibilityModule?: { eligibilityCriteria?: string };
+  };
+}
+
+/** A study's fields as stored on its ClinicalTrial node, plus the text used to link it. */
+export interface ClinicalTrialRecord {
+  id: string;
+  registry: string;
+  title: string;
+  // Listed phases joined with `/`, e.g. `PHASE1/PHASE2`; `NA` when the registry gives none
+  phase: string;
+  status: string;
+  sponsor: string | null;
+  enrollment: number | null;
+  startDate: string | null;
+  completionDate: string | null;
+  registryUpdatedAt: string | null;
+  conditions: string[];
+  keywords: string[];
+  // Names of the drug and biological interventions
+  interventions: string[];
+  // Their synonyms and brand names, only used for linking therapies
+  interventionOtherNames: string[];
+  // Inclusion criteria, one entry per criterion
+  inclusionCriteria: string[];
+  sourceUrl: string;
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CtGovStudy } from './clinical-trials.dto';
+import { studiesIn } from './ctgov-study';
+
+export interface StudyFile {
+  file: string;
+  studies: CtGovStudy[];
+}
+
+/**
+ * Reads ClinicalTrials.gov JSON from a file, or from every `.json` file in a
+ * directory (e.g. an unpacked bulk download), in file name order.
+ */
+export async function readStudyFiles(location: string): Promise<StudyFile[]> {
+  const stat = await fs.stat(location);
+  const files = stat.isDirectory()
+    ? (await fs.readdir(location))
+        .filter(name => name.toLowerCase().endsWith('.json'))
+        .sort()
+        .map(name => path.join(location, name))
+    : [location];
+
+  const result: StudyFile[] = [];
+  for (const file of files) {
+    let document: unknown;
+    try {
+      document = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`${file} is not valid JSON: ${(error as Error).message}`);
+    }
+    result.push({ file, studies: studiesIn(document) });
+  }
+  return result;
+}
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Driver, Transaction } from 'neo4j-driver';
+import { classifyNode, emptyCounts, ImportCounts } from '../neo4j/graph-upsert';
+import { updatedStamp } from '../meta/freshness';
+import { today } from '../provenance/provenance';
+import { CLINICAL_TRIAL_REGISTRY, ClinicalTrialRecord, CtGovStudy } from './clinical-trials.dto';
+import { toTrialRecord } from './ctgov-study';
+import { LinkableGraph, linkTrial, TrialLinks } from './trial-links';
+
+export interface ClinicalTrialImportOptions {
+  // Roll back after computing the changes
+  dryRun?: boolean;
+}
+
+export interface ClinicalTrialImportResult {
+  dryRun: boolean;
+  applied: boolean;
+  studies: number;
+  changes: ImportCounts;
+  // Studies without a valid NCT number
+  invalid: number;
+  // Trials that matched no indication or mutation in the graph and were not imported
+  unlinked: string[];
+  trials: Array<{ id: string } & Omit<TrialLinks, 'biomarkerCriteria'>>;
+}
+
+// Node properties of a trial; `retrievedAt` is left out so re-importing the same study leaves it unchanged
+function trialProps(trial: ClinicalTrialRecord, links: TrialLinks): Record<string, any> {
+  return {
+    registry: trial.registry,
+    title: trial.title,
+    phase: trial.phase,
+    status: trial.status,
+    sponsor: trial.sponsor,
+    enrollment: trial.enrollment,
+    startDate: trial.startDate,
+    completionDate: trial.completionDate,
+    registryUpdatedAt: trial.registryUpdatedAt,
+    conditions: trial.conditions,
+    interventions: trial.interventions,
+    biomarkerCriteria: links.biomarkerCriteria,
+    source: CLINICAL_TRIAL_REGISTRY,
+    sourceUrl: trial.sourceUrl
+  };
+}
+
+/**
+ * Imports ClinicalTrials.gov studies as ClinicalTrial nodes:
+ * (:ClinicalTrial)-[:FOR_INDICATION]->(:Indication),
+ * (:ClinicalTrial)-[:FOR_MUTATION]->(:Mutation) and
+ * (:ClinicalTrial)-[:TESTS]->(:Therapy).
+ *
+ * Links are derived from the study text on every import (see linkTrial) and
+ * replace the trial's previous ones. Studies linked to neither an indication
+ * nor a mutation are skipped. The import runs in a single transaction.
+ */
+@Injectable()
+export class ClinicalTrialsService {
+  private readonly logger = new Logger(ClinicalTrialsService.name);
+
+  constructor(@Inject('NEO4J_DRIVER') private readonly driver: Driver) {}
+
+  async importStudies(studies: CtGovStudy[], options: ClinicalTrialImportOptions = {}): Promise<ClinicalTrialImportResult> {
+    // A study listed more than once (e.g. in overlapping downloads) is imported as last read
+    const records = new Map<string, ClinicalTrialRecord>();
+    let invalid = 0;
+    for (const study of studies) {
+      const record = toTrialRecord(study);
+      if (record) {
+        records.set(record.id, record);
+      } else {
+        invalid++;
+      }
+    }
+
+    const session = this.driver.session();
+    const tx = session.beginTransaction();
+    try {
+      const graph = await this.linkableGraph(tx);
+      const changes = emptyCounts();
+      const unlinked: string[] = [];
+      const trials: ClinicalTrialImportResult['trials'] = [];
+      const retrievedAt = today();
+
+      for (const trial of records.values()) {
+        const links = linkTrial(trial, graph);
+        if (links.indicationIds.length === 0 && links.mutationIds.length === 0) {
+          unlinked.push(trial.id);
+          continue;
+        }
+        const { indicationIds, mutationIds, therapyIds } = links;
+        trials.push({ id: trial.id, indicationIds, mutationIds, therapyIds });
+
+        const props = trialProps(trial, links);
+        const params = { indicationIds, mutationIds, therapyIds };
+        const outcome = await classifyNode(tx, 'ClinicalTrial', { field: 'id', value: trial.id }, props, {
+          pattern: `
+            MATCH (n)
+            WHERE COUNT { (n)-[:FOR_INDICATION]->() } = size($indicationIds)
+              AND COUNT { (n)-[:FOR_MUTATION]->() } = size($mutationIds)
+              AND COUNT { (n)-[:TESTS]->() } = size($therapyIds)
+              AND all(id IN $indicationIds WHERE EXISTS { (n)-[:FOR_INDICATION]->(:Indication {id: id}) })
+              AND all(id IN $mutationIds WHERE EXISTS { (n)-[:FOR_MUTATION]->(:Mutation {id: id}) })
+              AND all(id IN $therapyIds WHERE EXISTS { (n)-[:TESTS]->(:Therapy {id: id}) })
+          `,
+          params
+        });
+        changes[outcome]++;
+        if (outcome === 'unchanged') continue;
+
+        await tx.run(`
+          MERGE (t:ClinicalTrial {id: $id})
+          SET t += $props, t.retrievedAt = $retrievedAt, ${updatedStamp('t')}
+          WITH t
+          CALL {
+            WITH t
+            MATCH (t)-[old:FOR_INDICATION|FOR_MUTATION|TESTS]->()
+            DELETE old
+          }
+          CALL {
+            WITH t
+            UNWIND $indicationIds AS indicationId
+            MATCH (i:Indication {id: indicationId})
+            MERGE (t)-[:FOR_INDICATION]->(i)
+          }
+          CALL {
+            WITH t
+            UNWIND $mutationIds AS mutationId
+            MATCH (m:Mutation {id: mutationId})
+            MERGE (t)-[:FOR_MUTATION]->(m)
+          }
+          CALL {
+            WITH t
+            UNWIND $therapyIds AS therapyId
+            MATCH (th:Therapy {id: therapyId})
+            MERGE (t)-[:TESTS]->(th)
+          }
+        `, { id: trial.id, props, retrievedAt, ...params });
+      }
+
+      const applied = !options.dryRun;
+      if (applied) {
+        await tx.commit();
+        this.logger.log(`Imported clinical trials: ${JSON.stringify(changes)}, ${unlinked.length} unlinked`);
+      } else {
+        await tx.rollback();
+      }
+      return { dryRun: !!options.dryRun, applied, studies: studies.length, changes, invalid, unlinked, trials };
+    } catch (error) {
+      if (tx.isOpen()) await tx.rollback();
+      throw error;
+    } finally {
+      await session.close();
+    }
+  }
+
+  // Names, aliases and brand names of the nodes trials can link to
+  private async linkableGraph(tx: Transaction): Promise<LinkableGraph> {
+    const nodes = async (query: string) => (await tx.run(query)).records.map(rec => rec.get('node'));
+    const indications = await nodes('MATCH (i:Indication) RETURN i {.id, .name, .aliases} AS node');
+    const mutations = await nodes(`
+      MATCH (m:Mutation)
+      OPTIONAL MATCH (m)-[:IN_GENE]->(g:Gene)
+      WITH m, head(collect(g.hugoSymbol)) AS gene
+      RETURN m {.id, .name, .alias, .alteration, gene: coalesce(gene, m.gene)} AS node
+    `);
+    const therapies = await nodes('MATCH (t:Therapy) RETURN t {.id, .name, .brandNames} AS node');
+    return { indications, mutations, therapies };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { CLINICAL_TRIAL_ID_PATTERN, CLINICAL_TRIAL_REGISTRY, ClinicalTrialRecord, CtGovStudy } from './clinical-trials.dto';
+
+const STUDY_URL = 'https://clinicaltrials.gov/study/';
+const TARGETED_INTERVENTION_TYPES = ['DRUG', 'BIOLOGICAL', 'COMBINATION_PRODUCT'];
+
+/**
+ * Studies in a parsed ClinicalTrials.gov JSON document: an API v2 page
+ * (`{ studies: [...] }`), a list of studies or a single study.
+ */
+export function studiesIn(document: unknown): CtGovStudy[] {
+  if (Array.isArray(document)) return document;
+  if (document && typeof document === 'object') {
+    const studies = (document as { studies?: unknown }).studies;
+    if (Array.isArray(studies)) return studies;
+    if ('protocolSection' in document) return [document as CtGovStudy];
+  }
+  return [];
+}
+
+// Criteria are free text, usually one bulleted or numbered criterion per line
+function criteriaLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*(?:[*•-]|\d+[.)])\s*/, '').trim())
+    .filter(line => line.length > 0 && !/^(inclusion|exclusion) criteria:?$/i.test(line));
+}
+
+// The inclusion part of the eligibility criteria; exclusions often name alterations a trial does not accept
+function inclusionCriteria(eligibility: string | undefined): string[] {
+  if (!eligibility) return [];
+  const [inclusion] = eligibility.split(/exclusion criteria:?/i);
+  return criteriaLines(inclusion);
+}
+
+/**
+ * Maps a study to the ClinicalTrial record stored in the graph.
+ * Returns null when it has no valid NCT number.
+ */
+export function toTrialRecord(study: CtGovStudy): ClinicalTrialRecord | null {
+  const protocol = study.protocolSection ?? {};
+  const nctId = protocol.identificationModule?.nctId?.trim();
+  if (!nctId || !CLINICAL_TRIAL_ID_PATTERN.test(nctId)) return null;
+
+  const phases = protocol.designModule?.phases ?? [];
+  const interventions = (protocol.armsInterventionsModule?.interventions ?? []).filter(
+    i => i.name && TARGETED_INTERVENTION_TYPES.includes(i.type ?? '') && !/placebo/i.test(i.name)
+  );
+  const status = protocol.statusModule;
+
+  return {
+    id: nctId,
+    registry: CLINICAL_TRIAL_REGISTRY,
+    title: protocol.identificationModule?.briefTitle || protocol.identificationModule?.officialTitle || nctId,
+    phase: phases.length ? phases.join('/') : 'NA',
+    status: status?.overallStatus || 'UNKNOWN',
+    sponsor: protocol.sponsorCollaboratorsModule?.leadSponsor?.name ?? null,
+    enrollment: protocol.designModule?.enrollmentInfo?.count ?? null,
+    startDate: status?.startDateStruct?.date ?? null,
+    completionDate: status?.completionDateStruct?.date ?? null,
+    registryUpdatedAt: status?.lastUpdatePostDateStruct?.date ?? null,
+    conditions: protocol.conditionsModule?.conditions ?? [],
+    keywords: protocol.conditionsModule?.keywords ?? [],
+    interventions: [...new Set(interventions.map(i => i.name as string))],
+    interventionOtherNames: [...new Set(interventions.flatMap(i => i.otherNames ?? []))],
+    inclusionCriteria: inclusionCriteria(protocol.eligibilityModule?.eligibilityCriteria),
+    sourceUrl: `${STUDY_URL}${nctId}`
+  };
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { ClinicalTrialRecord } from './clinical-trials.dto';
+
+/**
+ * Links a registry study to the graph by text: conditions to indications,
+ * alterations named in the title, keywords or inclusion criteria to
+ * mutations, and interventions to therapies. Matching is on whole words,
+ * case-insensitive, ignoring punctuation and the `p.` of protein changes.
+ * A mutation also matches when its gene and its alteration are named apart
+ * within one criterion ("EGFR mutations (Ex19del, L858R)").
+ */
+
+export interface LinkableIndication {
+  id: string;
+  name: string;
+  aliases?: string[] | null;
+}
+
+export interface LinkableMutation {
+  id: string;
+  name: string;
+  alias?: string | null;
+  gene?: string | null;
+  alteration?: string | null;
+}
+
+export interface LinkableTherapy {
+  id: string;
+  name: string;
+  brandNames?: string[] | null;
+}
+
+export interface LinkableGraph {
+  indications: LinkableIndication[];
+  mutations: LinkableMutation[];
+  therapies: LinkableTherapy[];
+}
+
+export interface TrialLinks {
+  indicationIds: string[];
+  mutationIds: string[];
+  therapyIds: string[];
+  // Inclusion criteria naming a gene of a mutation in the graph
+  biomarkerCriteria: string[];
+}
+
+// Shorter terms (e.g. a bare "AML" is fine, "ca" is not) match too much free text
+const MIN_TERM_LENGTH = 3;
+
+export function normalizeTerm(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\bp\.(?=[a-z*])/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// A name plus, for names like "Osimertinib (Tagrisso)", the parts outside and inside the parentheses
+function nameTerms(name: string): string[] {
+  const inner = [...name.matchAll(/\(([^)]*)\)/g)].map(match => match[1]);
+  return [name, name.replace(/\([^)]*\)/g, ''), ...inner];
+}
+
+function termsOf(names: Array<string | null | undefined>): string[] {
+  const terms = names.filter((n): n is string => !!n).flatMap(nameTerms).map(normalizeTerm);
+  return [...new Set(terms.filter(term => term.length >= MIN_TERM_LENGTH))];
+}
+
+// Gene symbols are matched as written: some (MET, CAT) are also English words
+function genePattern(gene: string): RegExp {
+  return new RegExp(`(^|[^A-Za-z0-9])${gene.replace(/[^A-Za-z0-9]/g, '\\$&')}($|[^A-Za-z0-9])`);
+}
+
+function mentions(texts: string[], terms: string[]): boolean {
+  const haystacks = texts.map(text => ` ${normalizeTerm(text)} `);
+  return terms.some(term => haystacks.some(haystack => haystack.includes(` ${term} `)));
+}
+
+export function linkTrial(trial: ClinicalTrialRecord, graph: LinkableGraph): TrialLinks {
+  const indicationIds = graph.indications
+    .filter(i => mentions(trial.conditions, termsOf([i.name, ...(i.aliases ?? [])])))
+    .map(i => i.id);
+
+  const biomarkerTexts = [trial.title, ...trial.conditions, ...trial.keywords, ...trial.inclusionCriteria];
+  const mutationIds = graph.mutations
+    .filter(m => {
+      const geneAlteration = m.gene && m.alteration ? `${m.gene} ${m.alteration}` : null;
+      if (mentions(biomarkerTexts, termsOf([m.name, m.alias, geneAlteration]))) return true;
+      if (!m.gene) return false;
+      const gene = genePattern(m.gene);
+      const alteration = termsOf([m.alteration ?? m.name.replace(m.gene, '')]);
+      return biomarkerTexts.some(text => gene.test(text) && mentions([text], alteration));
+    })
+    .map(m => m.id);
+
+  const therapyIds = graph.therapies
+    .filter(t =>
+      mentions([...trial.interventions, ...trial.interventionOtherNames], termsOf([t.name, ...(t.brandNames ?? [])]))
+    )
+    .map(t => t.id);
+
+  const genes = [...new Set(graph.mutations.map(m => m.gene).filter((g): g is string => !!g))];
+  const genePatterns = genes.map(genePattern);
+  const biomarkerCriteria = trial.inclusionCriteria.filter(line => genePatterns.some(pattern => pattern.test(line)));
+
+  return { indicationIds, mutationIds, therapyIds, biomarkerCriteria };
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { ACTIVE_TRIAL_STATUSES, TRIAL_PHASES } from './clinical-trials.dto';
+
+/**
+ * Trials shown for an indication or a mutation: how many there are, how
+ * many are active, counts per phase and the trials themselves, active ones
+ * first, then latest phase first.
+ */
+export interface TrialSummary<T> {
+  count: number;
+  active: number;
+  byPhase: Record<string, number>;
+  trials: T[];
+}
+
+type SummarisedTrial = { id: string; phase?: string | null; status?: string | null };
+
+// Rank of the latest listed phase; NA and unknown phases rank lowest
+function phaseRank(phase: string | null | undefined): number {
+  return Math.max(-1, ...(phase ?? '').split('/').map(p => (p === 'NA' ? -1 : TRIAL_PHASES.indexOf(p as any))));
+}
+
+export function isActiveTrial(trial: { status?: string | null }): boolean {
+  return !!trial.status && ACTIVE_TRIAL_STATUSES.includes(trial.status);
+}
+
+export function trialSummaryOf<T extends SummarisedTrial>(trials: T[]): TrialSummary<T> {
+  const byPhase: Record<string, number> = {};
+  for (const trial of trials) {
+    const phase = trial.phase || 'NA';
+    byPhase[phase] = (byPhase[phase] ?? 0) + 1;
+  }
+  const sorted = [...trials].sort(
+    (a, b) =>
+      Number(isActiveTrial(b)) - Number(isActiveTrial(a)) ||
+      phaseRank(b.phase) - phaseRank(a.phase) ||
+      a.id.localeCompare(b.id)
+  );
+  return { count: trials.length, active: trials.filter(isActiveTrial).length, byPhase, trials: sorted };
+}
\ No newline at end of file
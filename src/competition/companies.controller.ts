@@ -0,0 +1,39 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post } from '@nestjs/common';
+import { CompetitionService } from './competition.service';
+import { CreateCompanyDto, UpdateCompanyDto } from './competition.dto';
+import { Scopes } from '../auth/scopes.decorator';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+
+@Controller('companies')
+@Scopes('read:miipa')
+export class CompaniesController {
+  constructor(private competitionService: CompetitionService) {}
+
+  @Get()
+  async listCompanies() {
+    return this.competitionService.listCompanies();
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Post()
+  async createCompany(@Body() body: CreateCompanyDto, @CurrentUser() user: AuthUser) {
+    return this.competitionService.createCompany(body, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Patch(':id')
+  async updateCompany(@Param('id') id: string, @Body() body: UpdateCompanyDto, @CurrentUser() user: AuthUser) {
+    return this.competitionService.updateCompany(id, body, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Delete(':id')
+  async deleteCompany(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.competitionService.deleteCompany(id, user);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,187 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  MinLength
+} from 'class-validator';
+import { ProvenanceDto } from '../provenance/provenance.dto';
+
+/** Company ids follow the `co-<slug>` convention. */
+export const COMPANY_ID_PATTERN = /^co-[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** Pipeline asset ids follow the `asset-<slug>` convention. */
+export const PIPELINE_ASSET_ID_PATTERN = /^asset-[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** Development phases, earliest first. */
+export const PIPELINE_PHASES = [
+  'PRECLINICAL',
+  'PHASE_1',
+  'PHASE_1_2',
+  'PHASE_2',
+  'PHASE_2_3',
+  'PHASE_3',
+  'FILED',
+  'APPROVED'
+] as const;
+
+/** Phases counted as late-stage competition in the crowdedness score. */
+export const LATE_STAGE_PHASES = ['PHASE_2_3', 'PHASE_3', 'FILED'];
+
+export const PIPELINE_ASSET_STATUSES = ['ACTIVE', 'ON_HOLD', 'DISCONTINUED'] as const;
+
+export class CreateCompanyDto {
+  @IsOptional()
+  @Matches(COMPANY_ID_PATTERN, { message: 'id must look like co-<slug>' })
+  id?: string;
+
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  headquarters?: string;
+
+  @IsOptional()
+  @IsUrl()
+  website?: string;
+}
+
+export class UpdateCompanyDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  headquarters?: string;
+
+  @IsOptional()
+  @IsUrl()
+  website?: string;
+}
+
+export class CreatePipelineAssetDto extends ProvenanceDto {
+  @IsOptional()
+  @Matches(PIPELINE_ASSET_ID_PATTERN, { message: 'id must look like asset-<slug>' })
+  id?: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  name: string;
+
+  // Sponsor
+  @Matches(COMPANY_ID_PATTERN, { message: 'companyId must look like co-<slug>' })
+  companyId: string;
+
+  @IsIn(PIPELINE_PHASES)
+  phase: string;
+
+  @IsOptional()
+  @IsIn(PIPELINE_ASSET_STATUSES)
+  status?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  mechanism?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  modality?: string;
+
+  // Mutations the asset targets and indications it is developed in
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  mutationIds: string[];
+
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  indicationIds: string[];
+
+  // Expected date of the next pivotal readout
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  expectedReadout?: string;
+}
+
+export class UpdatePipelineAssetDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @Matches(COMPANY_ID_PATTERN, { message: 'companyId must look like co-<slug>' })
+  companyId?: string;
+
+  @IsOptional()
+  @IsIn(PIPELINE_PHASES)
+  phase?: string;
+
+  @IsOptional()
+  @IsIn(PIPELINE_ASSET_STATUSES)
+  status?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  mechanism?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  modality?: string;
+
+  // Replace the asset's links when present
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  mutationIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  indicationIds?: string[];
+
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  expectedReadout?: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(500)
+  source?: string;
+
+  @IsOptional()
+  @IsUrl()
+  sourceUrl?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  sourceDocumentId?: string;
+
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  retrievedAt?: string;
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CompaniesController } from './companies.controller';
+import { PipelineAssetsController } from './pipeline-assets.controller';
+import { CompetitiveLandscapeController } from './competitive-landscape.controller';
+import { CompetitionService } from './competition.service';
+
+@Module({
+  controllers: [CompaniesController, PipelineAssetsController, CompetitiveLandscapeController],
+  providers: [CompetitionService],
+  exports: [CompetitionService]
+})
+export class CompetitionModule {}
\ No newline at end of file
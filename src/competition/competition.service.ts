@@ -0,0 +1,471 @@
+import { BadRequestException, ConflictException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Driver, Transaction } from 'neo4j-driver';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user.interface';
+import { updatedStamp } from '../meta/freshness';
+import { provenanceOf, today } from '../provenance/provenance';
+import {
+  CreateCompanyDto,
+  CreatePipelineAssetDto,
+  PIPELINE_PHASES,
+  UpdateCompanyDto,
+  UpdatePipelineAssetDto
+} from './competition.dto';
+import { crowdednessOf } from './crowdedness';
+
+export interface PipelineAssetFilter {
+  indicationId?: string;
+  mutationId?: string;
+  companyId?: string;
+  phase?: string;
+  includeDiscontinued?: boolean;
+}
+
+// Appended to a query that binds `a` to PipelineAsset nodes
+const ASSET_RETURN = `
+  OPTIONAL MATCH (c:Company)-[:SPONSORS]->(a)
+  OPTIONAL MATCH (a)-[:TARGETS]->(m:Mutation)
+  OPTIONAL MATCH (a)-[:FOR_INDICATION]->(i:Indication)
+  WITH a, c, collect(DISTINCT m {.id, .name}) AS mutations, collect(DISTINCT i {.id, .name}) AS indications
+  RETURN a, c {.id, .name} AS company, mutations, indications
+`;
+
+// Latest phase first, then by name
+function byPhase(a: { phase: string; name: string }, b: { phase: string; name: string }) {
+  const rank = (phase: string) => PIPELINE_PHASES.indexOf(phase as (typeof PIPELINE_PHASES)[number]);
+  return rank(b.phase) - rank(a.phase) || String(a.name).localeCompare(String(b.name));
+}
+
+/**
+ * Competitive landscape: Company nodes sponsor PipelineAsset nodes, which
+ * target mutations (TARGETS) and are developed in indications
+ * (FOR_INDICATION). Writes are audited like the rest of the graph.
+ */
+@Injectable()
+export class CompetitionService {
+  constructor(
+    @Inject('NEO4J_DRIVER') private readonly driver: Driver,
+    private readonly auditService: AuditService
+  ) {}
+
+  async listCompanies() {
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(tx =>
+        tx.run(`
+          MATCH (c:Company)
+          OPTIONAL MATCH (c)-[:SPONSORS]->(a:PipelineAsset)
+          RETURN c, count(a) AS assetCount
+          ORDER BY c.name
+        `)
+      );
+      return res.records.map(rec => ({ ...rec.get('c').properties, assetCount: rec.get('assetCount').toNumber() }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * @throws ConflictException if the id or name is already used by another company
+   */
+  async createCompany(dto: CreateCompanyDto, actor?: AuthUser) {
+    const id = dto.id || `co-${this.slug(dto.name)}`;
+    const session = this.driver.session();
+    try {
+      const company = await session.writeTransaction(async tx => {
+        const existing = await tx.run(
+          'MATCH (c:Company) WHERE c.id = $id OR toLower(c.name) = toLower($name) RETURN c.id AS id LIMIT 1',
+          { id, name: dto.name }
+        );
+        if (existing.records.length > 0) {
+          throw new ConflictException(`Company "${existing.records[0].get('id')}" already exists`);
+        }
+        const res = await tx.run(
+          `
+          CREATE (c:Company {id: $id})
+          SET c += $props, ${updatedStamp('c')}
+          RETURN c
+          `,
+          { id, props: this.companyProps(dto) }
+        );
+        return res.records[0].get('c').properties;
+      });
+
+      await this.auditService.record({ action: 'graph.company.create', actor, targetIds: [id], after: company });
+      return company;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * @throws NotFoundException if the company does not exist
+   * @throws ConflictException if the new name is used by another company
+   */
+  async updateCompany(id: string, dto: UpdateCompanyDto, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      const { before, after } = await session.writeTransaction(async tx => {
+        const before = await this.requireNode(tx, 'Company', id);
+        if (dto.name) {
+          const clash = await tx.run(
+            'MATCH (c:Company) WHERE c.id <> $id AND toLower(c.name) = toLower($name) RETURN c.id AS id LIMIT 1',
+            { id, name: dto.name }
+          );
+          if (clash.records.length > 0) {
+            throw new ConflictException(`Company "${clash.records[0].get('id')}" already uses this name`);
+          }
+        }
+        const res = await tx.run(
+          `
+          MATCH (c:Company {id: $id})
+          SET c += $props, ${updatedStamp('c')}
+          RETURN c
+          `,
+          { id, props: this.companyProps(dto) }
+        );
+        return { before, after: res.records[0].get('c').properties };
+      });
+
+      await this.auditService.record({ action: 'graph.company.update', actor, targetIds: [id], before, after });
+      return after;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * @throws NotFoundException if the company does not exist
+   * @throws ConflictException if it still sponsors pipeline assets
+   */
+  async deleteCompany(id: string, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      const before = await session.writeTransaction(async tx => {
+        const before = await this.requireNode(tx, 'Company', id);
+        const assets = await tx.run('MATCH (:Company {id: $id})-[:SPONSORS]->(a:PipelineAsset) RETURN count(a) AS c', { id });
+        const count = assets.records[0].get('c').toNumber();
+        if (count > 0) throw new ConflictException(`Company ${id} still sponsors ${count} pipeline asset(s)`);
+        await tx.run('MATCH (c:Company {id: $id}) DETACH DELETE c', { id });
+        return before;
+      });
+
+      await this.auditService.record({ action: 'graph.company.delete', actor, targetIds: [id], before });
+      return { id, deleted: true };
+    } finally {
+      await session.close();
+    }
+  }
+
+  async listAssets(filter: PipelineAssetFilter = {}) {
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(tx =>
+        tx.run(
+          `
+          MATCH (a:PipelineAsset)
+          WHERE ($indicationId IS NULL OR (a)-[:FOR_INDICATION]->(:Indication {id: $indicationId}))
+            AND ($mutationId IS NULL OR (a)-[:TARGETS]->(:Mutation {id: $mutationId}))
+            AND ($companyId IS NULL OR (:Company {id: $companyId})-[:SPONSORS]->(a))
+            AND ($phase IS NULL OR a.phase = $phase)
+            AND ($includeDiscontinued OR coalesce(a.status, 'ACTIVE') <> 'DISCONTINUED')
+          ${ASSET_RETURN}
+          `,
+          {
+            indicationId: filter.indicationId ?? null,
+            mutationId: filter.mutationId ?? null,
+            companyId: filter.companyId ?? null,
+            phase: filter.phase ?? null,
+            includeDiscontinued: !!filter.includeDiscontinued
+          }
+        )
+      );
+      return res.records.map(rec => this.toAsset(rec)).sort(byPhase);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * @throws NotFoundException if the asset does not exist
+   */
+  async getAsset(id: string) {
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(tx =>
+        tx.run(`MATCH (a:PipelineAsset {id: $id}) ${ASSET_RETURN}`, { id })
+      );
+      if (res.records.length === 0) throw new NotFoundException('Pipeline asset not found');
+      return this.toAsset(res.records[0]);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * @throws BadRequestException if the company, a mutation or an indication does not exist
+   * @throws ConflictException if the asset id is already in use
+   */
+  async createAsset(dto: CreatePipelineAssetDto, actor?: AuthUser) {
+    const id = dto.id || `asset-${this.slug(dto.name)}`;
+    const session = this.driver.session();
+    try {
+      const asset = await session.writeTransaction(async tx => {
+        const existing = await tx.run('MATCH (a:PipelineAsset {id: $id}) RETURN a', { id });
+        if (existing.records.length > 0) throw new ConflictException(`Pipeline asset ${id} already exists`);
+        await this.requireReferences(tx, dto);
+
+        await tx.run(
+          `
+          CREATE (a:PipelineAsset {id: $id})
+          SET a += $props,
+              a.status = coalesce($props.status, 'ACTIVE'),
+              a.retrievedAt = $retrievedAt,
+              a.curatedBy = $curatedBy,
+              ${updatedStamp('a')}
+          `,
+          { id, props: this.assetProps(dto), retrievedAt: dto.retrievedAt ?? today(), curatedBy: actor?.email ?? null }
+        );
+        await this.linkAsset(tx, id, dto);
+        return this.readAsset(tx, id);
+      });
+
+      await this.auditService.record({
+        action: 'graph.pipelineAsset.create',
+        actor,
+        targetIds: [id, dto.companyId, ...dto.mutationIds, ...dto.indicationIds],
+        after: asset
+      });
+      return asset;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Updates the supplied fields of an asset. `companyId`, `mutationIds` and
+   * `indicationIds` replace the asset's existing links when present.
+   *
+   * @throws NotFoundException if the asset does not exist
+   * @throws BadRequestException if a referenced node does not exist
+   */
+  async updateAsset(id: string, dto: UpdatePipelineAssetDto, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      const { before, after } = await session.writeTransaction(async tx => {
+        await this.requireNode(tx, 'PipelineAsset', id);
+        const before = await this.readAsset(tx, id);
+        await this.requireReferences(tx, dto);
+
+        await tx.run(
+          `
+          MATCH (a:PipelineAsset {id: $id})
+          SET a += $props, a.curatedBy = coalesce($curatedBy, a.curatedBy), ${updatedStamp('a')}
+          `,
+          { id, props: this.assetProps(dto), curatedBy: actor?.email ?? null }
+        );
+        await this.linkAsset(tx, id, dto);
+        return { before, after: await this.readAsset(tx, id) };
+      });
+
+      await this.auditService.record({ action: 'graph.pipelineAsset.update', actor, targetIds: [id], before, after });
+      return after;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * @throws NotFoundException if the asset does not exist
+   */
+  async deleteAsset(id: string, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      const before = await session.writeTransaction(async tx => {
+        await this.requireNode(tx, 'PipelineAsset', id);
+        const before = await this.readAsset(tx, id);
+        await tx.run('MATCH (a:PipelineAsset {id: $id}) DETACH DELETE a', { id });
+        return before;
+      });
+
+      await this.auditService.record({ action: 'graph.pipelineAsset.delete', actor, targetIds: [id], before });
+      return { id, deleted: true };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Assets developed in an indication, their sponsors, the count per phase and
+   * the crowdedness of each targeted mutation in the indication.
+   *
+   * @throws NotFoundException if the indication does not exist
+   */
+  async indicationLandscape(indicationId: string, includeDiscontinued = false) {
+    const indication = await this.findNode('Indication', indicationId);
+    if (!indication) throw new NotFoundException('Indication not found');
+    const assets = await this.listAssets({ indicationId, includeDiscontinued });
+
+    const mutations = new Map<string, { id: string; name: string }>();
+    for (const asset of assets) asset.mutations.forEach((m: { id: string; name: string }) => mutations.set(m.id, m));
+    const crowdedness = [...mutations.values()]
+      .map(m => ({
+        mutationId: m.id,
+        mutationName: m.name,
+        ...crowdednessOf(assets.filter(a => a.mutations.some((am: { id: string }) => am.id === m.id)))
+      }))
+      .sort((a, b) => b.score - a.score || a.mutationName.localeCompare(b.mutationName));
+
+    return {
+      indication: { id: indication.id, name: indication.name },
+      ...this.summarize(assets),
+      crowdedness,
+      assets
+    };
+  }
+
+  /**
+   * Assets targeting a mutation, their sponsors, the count per phase and the
+   * crowdedness of the mutation in each indication they are developed in.
+   *
+   * @throws NotFoundException if the mutation does not exist
+   */
+  async mutationLandscape(mutationId: string, includeDiscontinued = false) {
+    const mutation = await this.findNode('Mutation', mutationId);
+    if (!mutation) throw new NotFoundException('Mutation not found');
+    const assets = await this.listAssets({ mutationId, includeDiscontinued });
+
+    const indications = new Map<string, { id: string; name: string }>();
+    for (const asset of assets) asset.indications.forEach((i: { id: string; name: string }) => indications.set(i.id, i));
+    const crowdedness = [...indications.values()]
+      .map(i => ({
+        indicationId: i.id,
+        indicationName: i.name,
+        ...crowdednessOf(assets.filter(a => a.indications.some((ai: { id: string }) => ai.id === i.id)))
+      }))
+      .sort((a, b) => b.score - a.score || a.indicationName.localeCompare(b.indicationName));
+
+    return {
+      mutation: { id: mutation.id, name: mutation.name },
+      ...this.summarize(assets),
+      crowdedness,
+      assets
+    };
+  }
+
+  // Asset counts per phase and per sponsor
+  private summarize(assets: Array<Record<string, any>>) {
+    const byPhase = Object.fromEntries(
+      PIPELINE_PHASES.map(phase => [phase, assets.filter(a => a.phase === phase).length])
+    );
+    const companies = new Map<string, { id: string; name: string; assetCount: number }>();
+    for (const asset of assets) {
+      if (!asset.company) continue;
+      const entry = companies.get(asset.company.id) ?? { ...asset.company, assetCount: 0 };
+      entry.assetCount++;
+      companies.set(asset.company.id, entry);
+    }
+    return {
+      assetCount: assets.length,
+      byPhase,
+      companies: [...companies.values()].sort((a, b) => b.assetCount - a.assetCount || a.name.localeCompare(b.name))
+    };
+  }
+
+  private toAsset(rec: { get(key: string): any }) {
+    const props = rec.get('a').properties;
+    return {
+      ...props,
+      company: rec.get('company'),
+      mutations: rec.get('mutations') as { id: string; name: string }[],
+      indications: rec.get('indications') as { id: string; name: string }[],
+      provenance: provenanceOf(props)
+    };
+  }
+
+  private async readAsset(tx: Transaction, id: string) {
+    const res = await tx.run(`MATCH (a:PipelineAsset {id: $id}) ${ASSET_RETURN}`, { id });
+    return this.toAsset(res.records[0]);
+  }
+
+  // Replaces the sponsor and target links that the dto supplies
+  private async linkAsset(tx: Transaction, id: string, dto: CreatePipelineAssetDto | UpdatePipelineAssetDto) {
+    const links: [string | string[] | undefined, string, string][] = [
+      [dto.companyId, '(c:Company)-[r:SPONSORS]->(a)', 'MATCH (c:Company {id: target}) CREATE (c)-[:SPONSORS]->(a)'],
+      [dto.mutationIds, '(a)-[r:TARGETS]->(:Mutation)', 'MATCH (m:Mutation {id: target}) CREATE (a)-[:TARGETS]->(m)'],
+      [dto.indicationIds, '(a)-[r:FOR_INDICATION]->(:Indication)', 'MATCH (i:Indication {id: target}) CREATE (a)-[:FOR_INDICATION]->(i)']
+    ];
+    for (const [targets, existing, create] of links) {
+      if (targets === undefined) continue;
+      await tx.run(
+        `
+        MATCH (a:PipelineAsset {id: $id})
+        OPTIONAL MATCH ${existing}
+        DELETE r
+        WITH DISTINCT a
+        UNWIND $targets AS target
+        ${create}
+        `,
+        { id, targets: [...new Set(Array.isArray(targets) ? targets : [targets])] }
+      );
+    }
+  }
+
+  private async requireReferences(tx: Transaction, dto: CreatePipelineAssetDto | UpdatePipelineAssetDto) {
+    const refs: [string, string[] | undefined][] = [
+      ['Company', dto.companyId ? [dto.companyId] : undefined],
+      ['Mutation', dto.mutationIds],
+      ['Indication', dto.indicationIds]
+    ];
+    for (const [label, ids] of refs) {
+      if (!ids?.length) continue;
+      const res = await tx.run(
+        `UNWIND $ids AS id OPTIONAL MATCH (n:${label} {id: id}) WITH id, n WHERE n IS NULL RETURN collect(id) AS missing`,
+        { ids }
+      );
+      const missing: string[] = res.records[0].get('missing');
+      if (missing.length > 0) throw new BadRequestException(`${label} ${missing.join(', ')} does not exist`);
+    }
+  }
+
+  private async requireNode(tx: Transaction, label: string, id: string) {
+    const res = await tx.run(`MATCH (n:${label} {id: $id}) RETURN n`, { id });
+    if (res.records.length === 0) {
+      throw new NotFoundException(`${label === 'PipelineAsset' ? 'Pipeline asset' : label} not found`);
+    }
+    return res.records[0].get('n').properties;
+  }
+
+  private async findNode(label: string, id: string): Promise<Record<string, any> | null> {
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(tx => tx.run(`MATCH (n:${label} {id: $id}) RETURN n`, { id }));
+      return res.records[0]?.get('n').properties ?? null;
+    } finally {
+      await session.close();
+    }
+  }
+
+  // Only the fields the client actually sent, so PATCH leaves the rest untouched
+  private companyProps(dto: CreateCompanyDto | UpdateCompanyDto) {
+    const props: Record<string, unknown> = {};
+    if (dto.name !== undefined) props.name = dto.name;
+    if (dto.headquarters !== undefined) props.headquarters = dto.headquarters;
+    if (dto.website !== undefined) props.website = dto.website;
+    return props;
+  }
+
+  private assetProps(dto: CreatePipelineAssetDto | UpdatePipelineAssetDto) {
+    const fields = [
+      'name', 'phase', 'status', 'mechanism', 'modality', 'expectedReadout',
+      'source', 'sourceUrl', 'sourceDocumentId', 'retrievedAt'
+    ] as const;
+    return Object.fromEntries(
+      fields.filter(field => dto[field] !== undefined).map(field => [field, dto[field]])
+    );
+  }
+
+  private slug(value: string) {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { CompetitionService } from './competition.service';
+import { Scopes } from '../auth/scopes.decorator';
+
+@Controller()
+@Scopes('read:miipa')
+export class CompetitiveLandscapeController {
+  constructor(private competitionService: CompetitionService) {}
+
+  @Get('indications/:id/competitive-landscape')
+  async indicationLandscape(@Param('id') id: string, @Query('includeDiscontinued') includeDiscontinued?: string) {
+    return this.competitionService.indicationLandscape(id, includeDiscontinued === 'true');
+  }
+
+  @Get('mutations/:id/competitive-landscape')
+  async mutationLandscape(@Param('id') id: string, @Query('includeDiscontinued') includeDiscontinued?: string) {
+    return this.competitionService.mutationLandscape(id, includeDiscontinued === 'true');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { LATE_STAGE_PHASES } from './competition.dto';
+
+/**
+ * Crowdedness of a mutation–indication pair: how many approved and how many
+ * late-stage assets target the mutation in the indication. Discontinued
+ * assets do not count. The score is their sum.
+ */
+export interface Crowdedness {
+  approved: number;
+  lateStage: number;
+  score: number;
+}
+
+export function crowdednessOf(assets: Array<{ phase?: string | null; status?: string | null }>): Crowdedness {
+  const active = assets.filter(a => a.status !== 'DISCONTINUED');
+  const approved = active.filter(a => a.phase === 'APPROVED').length;
+  const lateStage = active.filter(a => !!a.phase && LATE_STAGE_PHASES.includes(a.phase)).length;
+  return { approved, lateStage, score: approved + lateStage };
+}
\ No newline at end of file
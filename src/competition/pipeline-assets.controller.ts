@@ -0,0 +1,56 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query } from '@nestjs/common';
+import { CompetitionService } from './competition.service';
+import { CreatePipelineAssetDto, UpdatePipelineAssetDto } from './competition.dto';
+import { Scopes } from '../auth/scopes.decorator';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+
+@Controller('pipeline-assets')
+@Scopes('read:miipa')
+export class PipelineAssetsController {
+  constructor(private competitionService: CompetitionService) {}
+
+  @Get()
+  async listAssets(
+    @Query('indicationId') indicationId?: string,
+    @Query('mutationId') mutationId?: string,
+    @Query('companyId') companyId?: string,
+    @Query('phase') phase?: string,
+    @Query('includeDiscontinued') includeDiscontinued?: string
+  ) {
+    return this.competitionService.listAssets({
+      indicationId,
+      mutationId,
+      companyId,
+      phase,
+      includeDiscontinued: includeDiscontinued === 'true'
+    });
+  }
+
+  @Get(':id')
+  async getAsset(@Param('id') id: string) {
+    return this.competitionService.getAsset(id);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Post()
+  async createAsset(@Body() body: CreatePipelineAssetDto, @CurrentUser() user: AuthUser) {
+    return this.competitionService.createAsset(body, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Patch(':id')
+  async updateAsset(@Param('id') id: string, @Body() body: UpdatePipelineAssetDto, @CurrentUser() user: AuthUser) {
+    return this.competitionService.updateAsset(id, body, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Delete(':id')
+  async deleteAsset(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.competitionService.deleteAsset(id, user);
+  }
+}
\ No newline at end of file
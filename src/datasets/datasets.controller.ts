@@ -0,0 +1,39 @@
+import { Controller, Get, HttpCode, Param, Post, Query, UploadedFile, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express/multer';
+import { IsIn, IsOptional } from 'class-validator';
+import { DatasetsService, MAX_UPLOAD_BYTES, UploadedSpreadsheet } from './datasets.service';
+import { Roles } from '../auth/roles.decorator';
+import { Scopes } from '../auth/scopes.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+
+class UploadDatasetQueryDto {
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  dryRun?: string;
+}
+
+@Controller('datasets')
+@Roles('admin')
+@Scopes('write:graph')
+export class DatasetsController {
+  constructor(private datasetsService: DatasetsService) {}
+
+  // Uploadable datasets and their spreadsheet columns
+  @Get()
+  list() {
+    return this.datasetsService.listDatasets();
+  }
+
+  @Post(':dataset/upload')
+  @HttpCode(200)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }))
+  upload(
+    @Param('dataset') dataset: string,
+    @UploadedFile() file: UploadedSpreadsheet | undefined,
+    @Query() query: UploadDatasetQueryDto,
+    @CurrentUser() user: AuthUser
+  ) {
+    return this.datasetsService.upload(dataset, file, query.dryRun === 'true', user);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { Transform, Type } from 'class-transformer';
+import { IsInt, IsNumber, IsOptional, IsString, Matches, Max, MaxLength, Min, MinLength } from 'class-validator';
+import { ProvenanceDto } from '../provenance/provenance.dto';
+import { UpsertEpidemiologyMetricDto } from '../epidemiology/epidemiology.dto';
+
+/** Curated datasets analysts can upload as CSV or XLSX. */
+export const DATASETS = ['epidemiology', 'mutation-prevalence', 'therapies'] as const;
+
+export type Dataset = (typeof DATASETS)[number];
+
+/** One epidemiology metric per row, keyed by indication, region and type. */
+export class EpidemiologyRowDto extends UpsertEpidemiologyMetricDto {
+  @IsString()
+  indicationId: string;
+}
+
+/** Share of an indication's patients carrying a mutation, per region. */
+export class MutationPrevalenceRowDto extends ProvenanceDto {
+  @IsString()
+  mutationId: string;
+
+  @IsString()
+  indicationId: string;
+
+  @IsString()
+  region: string;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentageOfPatients: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1900)
+  @Max(2100)
+  year?: number;
+}
+
+export class TherapyRowDto extends ProvenanceDto {
+  // Derived from the name when omitted, as deep research does
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(-[a-z0-9]+)*$/, { message: 'id must be a lower-case slug' })
+  id?: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  name: string;
+
+  @IsString()
+  indicationId: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  mechanism?: string;
+
+  // Gene symbols separated by `|` or `,`
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.split(/[|,]/).map(t => t.trim()).filter(Boolean) : value
+  )
+  @IsString({ each: true })
+  targets?: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  approvalStatus?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  annualCostUSA?: number;
+}
+
+/** A validated row of any dataset. */
+export type DatasetRow = EpidemiologyRowDto | MutationPrevalenceRowDto | TherapyRowDto;
+
+export const DATASET_ROW_TYPES: Record<Dataset, new () => DatasetRow> = {
+  epidemiology: EpidemiologyRowDto,
+  'mutation-prevalence': MutationPrevalenceRowDto,
+  therapies: TherapyRowDto
+};
+
+// Optional citation columns; `source` itself is required
+const CITATION_COLUMNS = ['sourceUrl', 'sourceDocumentId', 'retrievedAt'];
+
+/** Spreadsheet columns per dataset, required ones first. */
+export const DATASET_COLUMNS: Record<Dataset, { required: string[]; optional: string[] }> = {
+  epidemiology: {
+    required: ['indicationId', 'region', 'type', 'value', 'year', 'confidence', 'source'],
+    optional: ['unit', ...CITATION_COLUMNS]
+  },
+  'mutation-prevalence': {
+    required: ['mutationId', 'indicationId', 'region', 'percentageOfPatients', 'source'],
+    optional: ['year', ...CITATION_COLUMNS]
+  },
+  therapies: {
+    required: ['name', 'indicationId', 'source'],
+    optional: ['id', 'mechanism', 'targets', 'approvalStatus', 'annualCostUSA', ...CITATION_COLUMNS]
+  }
+};
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { DatasetsController } from './datasets.controller';
+import { DatasetsService } from './datasets.service';
+import { EpidemiologyModule } from '../epidemiology/epidemiology.module';
+
+@Module({
+  imports: [EpidemiologyModule],
+  controllers: [DatasetsController],
+  providers: [DatasetsService]
+})
+export class DatasetsModule {}
\ No newline at end of file
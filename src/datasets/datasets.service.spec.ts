@@ -0,0 +1,105 @@
+import { BadRequestException, UnsupportedMediaTypeException } from '@nestjs/common';
+import { DatasetsService, UploadedSpreadsheet } from './datasets.service';
+import { writeXlsx } from '../spreadsheet/xlsx';
+
+const HEADER = 'indicationId,region,type,value,year,confidence,source';
+
+function csv(...lines: string[]): UploadedSpreadsheet {
+  return { originalname: 'metrics.csv', mimetype: 'text/csv', buffer: Buffer.from([HEADER, ...lines].join('\n')) };
+}
+
+describe('DatasetsService.upload', () => {
+  let tx: { run: jest.Mock; commit: jest.Mock; rollback: jest.Mock; isOpen: jest.Mock };
+  let epidemiology: { writeMetric: jest.Mock };
+  let audit: { record: jest.Mock };
+  let service: DatasetsService;
+
+  beforeEach(() => {
+    // The graph holds one indication and two regions
+    const graph: Record<string, string[]> = { Indication: ['nsclc'], Mutation: [], Region: ['United States', 'EU5'] };
+    tx = {
+      run: jest.fn(async (query: string, { values }: { values: string[] }) => {
+        const label = /MATCH \(n:(\w+)\)/.exec(query)![1];
+        const found = values.filter(v => graph[label].includes(v));
+        return { records: [{ get: () => found }] };
+      }),
+      commit: jest.fn(),
+      rollback: jest.fn(),
+      isOpen: jest.fn(() => true)
+    };
+    const driver = { session: () => ({ beginTransaction: () => tx, close: jest.fn() }) };
+    epidemiology = {
+      writeMetric: jest.fn(async () => ({ metric: { id: 'epi-1' }, previous: [], changed: true }))
+    };
+    audit = { record: jest.fn() };
+    service = new DatasetsService(driver as any, epidemiology as any, audit as any);
+  });
+
+  it('applies valid rows and reports invalid ones by spreadsheet row number', async () => {
+    const result = await service.upload('epidemiology', csv(
+      'nsclc,United States,INCIDENCE,200000,2023,high,SEER',
+      'nsclc,United States,INCIDENCE,not-a-number,2023,high,SEER',
+      'melanoma,United States,PREVALENCE,100,2023,high,SEER',
+      'nsclc,Atlantis,PREVALENCE,100,2023,high,SEER',
+      'nsclc,United States,INCIDENCE,210000,2023,high,SEER'
+    ), false);
+
+    expect(result.validRows).toBe(1);
+    expect(result.invalidRows).toBe(4);
+    expect(new Set(result.errors.filter(e => e.row === 3).map(e => e.field))).toEqual(new Set(['value']));
+    expect(result.errors.filter(e => e.row !== 3)).toEqual([
+      { row: 4, field: 'indicationId', message: 'Indication melanoma does not exist' },
+      { row: 5, field: 'region', message: 'Region Atlantis does not exist' },
+      { row: 6, message: 'Duplicates row 2' }
+    ]);
+    expect(epidemiology.writeMetric).toHaveBeenCalledTimes(1);
+    expect(tx.commit).toHaveBeenCalled();
+    expect(audit.record).toHaveBeenCalledWith(expect.objectContaining({ action: 'graph.dataset.upload' }));
+  });
+
+  it('rolls back a dry run and records no audit entry', async () => {
+    const result = await service.upload('epidemiology', csv('nsclc,EU5,INCIDENCE,300000,2022,medium,GLOBOCAN'), true);
+
+    expect(result.changes).toEqual({ created: 1, updated: 0, unchanged: 0 });
+    expect(tx.rollback).toHaveBeenCalled();
+    expect(tx.commit).not.toHaveBeenCalled();
+    expect(audit.record).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown datasets, missing files and unsupported formats', async () => {
+    await expect(service.upload('patients', csv(), false)).rejects.toThrow(BadRequestException);
+    await expect(service.upload('epidemiology', undefined, false)).rejects.toThrow('Attach the spreadsheet');
+    await expect(
+      service.upload('epidemiology', { originalname: 'metrics.json', mimetype: 'application/json', buffer: Buffer.from('[]') }, false)
+    ).rejects.toThrow(UnsupportedMediaTypeException);
+  });
+
+  it('rejects files without data rows or with missing required columns', async () => {
+    await expect(service.upload('epidemiology', csv(), false)).rejects.toThrow('The spreadsheet has no data rows');
+
+    const file = { ...csv(), buffer: Buffer.from('indicationId,region\nnsclc,EU5') };
+    await expect(service.upload('epidemiology', file, false)).rejects.toThrow(
+      'Missing required column(s): type, value, year, confidence, source'
+    );
+  });
+
+  it('rejects more rows than can be uploaded at once', async () => {
+    const lines = Array.from({ length: 5001 }, () => 'nsclc,EU5,INCIDENCE,1,2023,low,Registry');
+    await expect(service.upload('epidemiology', csv(...lines), false)).rejects.toThrow('At most 5000 rows');
+    expect(tx.run).not.toHaveBeenCalled();
+  });
+
+  it('rejects workbooks with cells beyond the dataset columns', async () => {
+    const header = HEADER.split(',');
+    const buffer = writeXlsx([{
+      name: 'Sheet1',
+      // 11 columns are known for epidemiology; the 12th lies outside them
+      rows: [[...header, 'unit', 'sourceUrl', 'sourceDocumentId', 'retrievedAt', 'overflow']]
+    }]);
+    const file = { originalname: 'metrics.xlsx', mimetype: 'application/octet-stream', buffer };
+
+    await expect(service.upload('epidemiology', file, false)).rejects.toThrow(
+      'Could not read workbook: Cell L1 is outside the first 11 columns'
+    );
+  });
+});
\ No newline at end of file
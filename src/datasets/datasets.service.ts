@@ -0,0 +1,384 @@
+/**
+ * Datasets Service - Bulk Spreadsheet Uploads
+ *
+ * Lets analysts maintain curated tables (epidemiology metrics, mutation
+ * prevalence per indication, therapies) in CSV or XLSX files and upload them
+ * instead of editing graph data by hand.
+ *
+ * Every row is validated on its own: field checks first, then references to
+ * existing indications, mutations and regions, then duplicates within the
+ * file. Invalid rows are reported by spreadsheet row number and skipped; all
+ * valid rows are written in a single transaction, so an upload is applied
+ * completely or not at all.
+ *
+ * @module DatasetsService
+ */
+
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  UnsupportedMediaTypeException
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validateSync, ValidationError } from 'class-validator';
+import { randomUUID } from 'crypto';
+import { Driver, Transaction } from 'neo4j-driver';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user.interface';
+import { EpidemiologyService } from '../epidemiology/epidemiology.service';
+import { classifyNode, emptyCounts, ImportCounts, ImportOutcome } from '../neo4j/graph-upsert';
+import { priceStamp, updatedStamp } from '../meta/freshness';
+import { today } from '../provenance/provenance';
+import { parseCsv } from '../spreadsheet/csv';
+import { readXlsx } from '../spreadsheet/xlsx';
+import {
+  Dataset,
+  DATASET_COLUMNS,
+  DATASET_ROW_TYPES,
+  DatasetRow,
+  DATASETS,
+  EpidemiologyRowDto,
+  MutationPrevalenceRowDto,
+  TherapyRowDto
+} from './datasets.dto';
+
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+const MAX_ROWS = 5000;
+
+/** The parts of a multer upload the service uses. */
+export interface UploadedSpreadsheet {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+export interface DatasetRowError {
+  // Spreadsheet row number; the header is row 1
+  row: number;
+  field?: string;
+  message: string;
+}
+
+interface ParsedRow {
+  row: number;
+  values: Record<string, string>;
+}
+
+// Graph nodes a row refers to; therapy rows name no mutation or region
+function rowReferences(dto: DatasetRow): { indicationId: string; mutationId?: string; region?: string } {
+  return {
+    indicationId: dto.indicationId,
+    mutationId: 'mutationId' in dto ? dto.mutationId : undefined,
+    region: 'region' in dto ? dto.region : undefined
+  };
+}
+
+function flattenErrors(errors: ValidationError[], prefix = ''): { field: string; message: string }[] {
+  return errors.flatMap(e => [
+    ...Object.values(e.constraints || {}).map(message => ({ field: prefix + e.property, message })),
+    ...flattenErrors(e.children || [], `${prefix}${e.property}.`)
+  ]);
+}
+
+@Injectable()
+export class DatasetsService {
+  private readonly logger = new Logger(DatasetsService.name);
+
+  constructor(
+    @Inject('NEO4J_DRIVER') private readonly driver: Driver,
+    private readonly epidemiologyService: EpidemiologyService,
+    private readonly auditService: AuditService
+  ) {}
+
+  listDatasets() {
+    return DATASETS.map(dataset => ({ dataset, columns: DATASET_COLUMNS[dataset] }));
+  }
+
+  /**
+   * Validates an uploaded spreadsheet and applies its valid rows.
+   *
+   * @param dataset - Which curated table the file holds
+   * @param file - CSV or XLSX upload; for workbooks the first sheet is read
+   * @param dryRun - Validate and count changes, then roll back
+   * @returns Row counts, per-outcome change counts and the row-level error report
+   * @throws BadRequestException for an unknown dataset, missing columns or too many rows
+   * @throws UnsupportedMediaTypeException if the file is neither CSV nor XLSX
+   */
+  async upload(dataset: string, file: UploadedSpreadsheet | undefined, dryRun: boolean, actor?: AuthUser) {
+    if (!DATASETS.includes(dataset as Dataset)) {
+      throw new BadRequestException(`Unknown dataset "${dataset}"; expected one of ${DATASETS.join(', ')}`);
+    }
+    if (!file) throw new BadRequestException('Attach the spreadsheet as the "file" form field');
+
+    const { rows, ignoredColumns } = this.readRows(dataset as Dataset, file);
+    const errors: DatasetRowError[] = [];
+
+    const valid: { row: number; dto: DatasetRow }[] = [];
+    for (const { row, values } of rows) {
+      const dto = plainToInstance(DATASET_ROW_TYPES[dataset as Dataset], values);
+      const rowErrors = flattenErrors(validateSync(dto, { whitelist: true }));
+      if (rowErrors.length) errors.push(...rowErrors.map(e => ({ row, ...e })));
+      else valid.push({ row, dto });
+    }
+
+    const session = this.driver.session();
+    const tx = session.beginTransaction();
+    let result: { applied: number; changes: ImportCounts; targetIds: string[] };
+    try {
+      const resolved = await this.checkReferences(tx, dataset as Dataset, valid, errors);
+      result = await this.applyRows(tx, dataset as Dataset, resolved, actor);
+      if (dryRun) await tx.rollback();
+      else await tx.commit();
+    } catch (error) {
+      if (tx.isOpen()) await tx.rollback();
+      throw error;
+    } finally {
+      await session.close();
+    }
+
+    const changed = result.changes.created + result.changes.updated > 0;
+    if (!dryRun && changed) {
+      this.logger.log(`Dataset upload ${dataset} (${file.originalname}): ${JSON.stringify(result.changes)}`);
+      await this.auditService.record({
+        action: 'graph.dataset.upload',
+        actor,
+        targetIds: result.targetIds,
+        details: {
+          dataset,
+          filename: file.originalname,
+          rows: rows.length,
+          appliedRows: result.applied,
+          invalidRows: new Set(errors.map(e => e.row)).size,
+          changes: result.changes
+        }
+      });
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+    return {
+      dataset,
+      filename: file.originalname,
+      dryRun,
+      rows: rows.length,
+      validRows: result.applied,
+      invalidRows: new Set(errors.map(e => e.row)).size,
+      ignoredColumns,
+      changes: result.changes,
+      errors
+    };
+  }
+
+  // Parse the file into rows keyed by canonical column name, with empty cells dropped
+  private readRows(dataset: Dataset, file: UploadedSpreadsheet) {
+    const name = file.originalname.toLowerCase();
+    const { required, optional } = DATASET_COLUMNS[dataset];
+    let table: string[][];
+    let rowNumbers: number[];
+
+    if (name.endsWith('.csv') || file.mimetype === 'text/csv') {
+      const records = parseCsv(file.buffer.toString('utf8'));
+      const header = records.length ? Object.keys(records[0]) : [];
+      table = records.length ? [header, ...records.map(r => header.map(h => r[h]))] : [];
+      rowNumbers = table.map((_, i) => i + 1);
+    } else if (name.endsWith('.xlsx')) {
+      let sheets;
+      try {
+        // A header row plus MAX_ROWS data rows, in no more columns than the dataset has
+        sheets = readXlsx(file.buffer, { maxRows: MAX_ROWS + 1, maxColumns: required.length + optional.length });
+      } catch (error) {
+        throw new BadRequestException(`Could not read workbook: ${(error as Error).message}`);
+      }
+      const sheetRows = sheets[0]?.rows ?? [];
+      rowNumbers = sheetRows.map((_, i) => i + 1).filter(i => sheetRows[i - 1].some(c => c !== null && c !== ''));
+      table = rowNumbers.map(i => sheetRows[i - 1].map(c => (c === null ? '' : String(c))));
+    } else {
+      throw new UnsupportedMediaTypeException('Upload a .csv or .xlsx file');
+    }
+
+    if (table.length < 2) throw new BadRequestException('The spreadsheet has no data rows');
+    if (table.length - 1 > MAX_ROWS) throw new BadRequestException(`At most ${MAX_ROWS} rows can be uploaded at once`);
+
+    // Match headers case-insensitively against the dataset's columns
+    const known = new Map([...required, ...optional].map(c => [c.toLowerCase(), c]));
+    const columns = table[0].map(h => known.get(h.trim().toLowerCase()) ?? null);
+    const missing = required.filter(c => !columns.includes(c));
+    if (missing.length) throw new BadRequestException(`Missing required column(s): ${missing.join(', ')}`);
+    const ignoredColumns = table[0].filter((h, i) => h.trim() && !columns[i]);
+
+    const rows: ParsedRow[] = table.slice(1).map((cells, i) => ({
+      row: rowNumbers[i + 1],
+      values: Object.fromEntries(
+        columns
+          .map((column, c) => [column, (cells[c] ?? '').trim()] as const)
+          .filter(([column, value]) => column && value !== '')
+      ) as Record<string, string>
+    }));
+    return { rows, ignoredColumns };
+  }
+
+  /**
+   * Drops rows that reference unknown indications, mutations or regions, or
+   * that repeat the key of an earlier row, recording an error for each.
+   */
+  private async checkReferences(
+    tx: Transaction,
+    dataset: Dataset,
+    rows: { row: number; dto: DatasetRow }[],
+    errors: DatasetRowError[]
+  ) {
+    const existing = async (label: string, field: string, values: string[]) => {
+      const res = await tx.run(
+        `MATCH (n:${label}) WHERE n.${field} IN $values RETURN collect(n.${field}) AS found`,
+        { values: [...new Set(values)] }
+      );
+      return new Set<string>(res.records[0].get('found'));
+    };
+
+    const refs = rows.map(r => rowReferences(r.dto));
+    const present = (values: Array<string | undefined>) => values.filter((v): v is string => !!v);
+    const indications = await existing('Indication', 'id', refs.map(d => d.indicationId));
+    const mutations = await existing('Mutation', 'id', present(refs.map(d => d.mutationId)));
+    const regions = await existing('Region', 'name', present(refs.map(d => d.region)));
+
+    const seen = new Map<string, number>();
+    return rows.filter(({ row, dto }, index) => {
+      const d = refs[index];
+      const rowErrors: DatasetRowError[] = [];
+      if (!indications.has(d.indicationId)) {
+        rowErrors.push({ row, field: 'indicationId', message: `Indication ${d.indicationId} does not exist` });
+      }
+      if (d.mutationId && !mutations.has(d.mutationId)) {
+        rowErrors.push({ row, field: 'mutationId', message: `Mutation ${d.mutationId} does not exist` });
+      }
+      if (d.region && !regions.has(d.region)) {
+        rowErrors.push({ row, field: 'region', message: `Region ${d.region} does not exist` });
+      }
+
+      const key = this.rowKey(dataset, dto);
+      if (seen.has(key)) {
+        rowErrors.push({ row, message: `Duplicates row ${seen.get(key)}` });
+      } else {
+        seen.set(key, row);
+      }
+
+      errors.push(...rowErrors);
+      return rowErrors.length === 0;
+    });
+  }
+
+  private rowKey(dataset: Dataset, dto: DatasetRow): string {
+    switch (dataset) {
+      case 'epidemiology': {
+        const e = dto as EpidemiologyRowDto;
+        return `${e.indicationId}|${e.region}|${e.type}`;
+      }
+      case 'mutation-prevalence': {
+        const mp = dto as MutationPrevalenceRowDto;
+        return `${mp.mutationId}|${mp.indicationId}|${mp.region}`;
+      }
+      case 'therapies':
+        return this.therapyId(dto as TherapyRowDto);
+    }
+  }
+
+  private therapyId(dto: TherapyRowDto) {
+    return dto.id ?? `therapy-${dto.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+  }
+
+  private async applyRows(tx: Transaction, dataset: Dataset, rows: { row: number; dto: DatasetRow }[], actor?: AuthUser) {
+    const changes = emptyCounts();
+    const targetIds = new Set<string>();
+
+    for (const { dto } of rows) {
+      let outcome: ImportOutcome;
+      let id: string;
+      if (dataset === 'epidemiology') {
+        const e = dto as EpidemiologyRowDto;
+        const result = await this.epidemiologyService.writeMetric(tx, e.indicationId, e, actor);
+        outcome = !result.changed ? 'unchanged' : result.previous.length ? 'updated' : 'created';
+        id = result.metric.id;
+        targetIds.add(e.indicationId);
+      } else if (dataset === 'mutation-prevalence') {
+        ({ outcome, id } = await this.writeMutationPrevalence(tx, dto as MutationPrevalenceRowDto, actor));
+      } else {
+        ({ outcome, id } = await this.writeTherapy(tx, dto as TherapyRowDto, actor));
+      }
+      changes[outcome]++;
+      if (outcome !== 'unchanged') targetIds.add(id);
+    }
+
+    return { applied: rows.length, changes, targetIds: [...targetIds] };
+  }
+
+  // One prevalence node per mutation, indication and region, updated in place
+  private async writeMutationPrevalence(tx: Transaction, dto: MutationPrevalenceRowDto, actor?: AuthUser) {
+    const params = { mutationId: dto.mutationId, indicationId: dto.indicationId, region: dto.region };
+    const existing = await tx.run(
+      `
+      MATCH (:Mutation {id: $mutationId})-[:HAS_PREVALENCE]->(p:MutationPrevalence)-[:IN_INDICATION]->(:Indication {id: $indicationId})
+      MATCH (p)-[:FOR_REGION]->(:Region {name: $region})
+      RETURN p.id AS id
+      LIMIT 1
+      `,
+      params
+    );
+    const id: string = existing.records[0]?.get('id') ?? `mp-${randomUUID()}`;
+
+    const props = {
+      percentageOfPatients: dto.percentageOfPatients,
+      year: dto.year ?? null,
+      source: dto.source,
+      sourceUrl: dto.sourceUrl ?? null,
+      sourceDocumentId: dto.sourceDocumentId ?? null
+    };
+    const outcome = await classifyNode(tx, 'MutationPrevalence', { field: 'id', value: id }, props);
+    if (outcome !== 'unchanged') {
+      await tx.run(
+        `
+        MATCH (m:Mutation {id: $mutationId})
+        MATCH (i:Indication {id: $indicationId})
+        MATCH (r:Region {name: $region})
+        MERGE (p:MutationPrevalence {id: $id})
+        SET p += $props, p.retrievedAt = $retrievedAt, p.curatedBy = $curatedBy, ${updatedStamp('p')}
+        MERGE (m)-[:HAS_PREVALENCE]->(p)
+        MERGE (p)-[:IN_INDICATION]->(i)
+        MERGE (p)-[:FOR_REGION]->(r)
+        `,
+        { ...params, id, props, retrievedAt: dto.retrievedAt ?? today(), curatedBy: actor?.email ?? null }
+      );
+    }
+    return { outcome, id };
+  }
+
+  // Therapies are upserted by id and linked to the row's indication; omitted optional columns keep their stored value
+  private async writeTherapy(tx: Transaction, dto: TherapyRowDto, actor?: AuthUser) {
+    const id = this.therapyId(dto);
+    const described = { mechanism: dto.mechanism, targets: dto.targets, approvalStatus: dto.approvalStatus, annualCostUSA: dto.annualCostUSA };
+    const props = {
+      name: dto.name,
+      ...Object.fromEntries(Object.entries(described).filter(([, value]) => value !== undefined)),
+      source: dto.source,
+      sourceUrl: dto.sourceUrl ?? null,
+      sourceDocumentId: dto.sourceDocumentId ?? null
+    };
+    const outcome = await classifyNode(tx, 'Therapy', { field: 'id', value: id }, props, {
+      pattern: '(:Indication {id: $indicationId})-[:HAS_THERAPY]->(n)',
+      params: { indicationId: dto.indicationId }
+    });
+    if (outcome !== 'unchanged') {
+      await tx.run(
+        `
+        MATCH (i:Indication {id: $indicationId})
+        MERGE (t:Therapy {id: $id})
+        SET ${priceStamp('t', '$props.annualCostUSA')}
+        SET t += $props, t.retrievedAt = $retrievedAt, t.curatedBy = $curatedBy, ${updatedStamp('t')}
+        MERGE (i)-[:HAS_THERAPY]->(t)
+        `,
+        { indicationId: dto.indicationId, id, props, retrievedAt: dto.retrievedAt ?? today(), curatedBy: actor?.email ?? null }
+      );
+    }
+    return { outcome, id };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { Body, Controller, Get, Param, Put, Query } from '@nestjs/common';
+import { EpidemiologyService } from './epidemiology.service';
+import { EpidemiologyHistoryQueryDto, UpsertEpidemiologyMetricDto } from './epidemiology.dto';
+import { Scopes } from '../auth/scopes.decorator';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+
+@Controller('indications/:indicationId/epidemiology')
+@Scopes('read:miipa')
+export class EpidemiologyController {
+  constructor(private epidemiologyService: EpidemiologyService) {}
+
+  @Get()
+  async current(@Param('indicationId') indicationId: string) {
+    return this.epidemiologyService.getCurrentMetrics(indicationId);
+  }
+
+  @Get('history')
+  async history(
+    @Param('indicationId') indicationId: string,
+    @Query() query: EpidemiologyHistoryQueryDto
+  ) {
+    return this.epidemiologyService.getHistory(indicationId, query.region, query.type);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Put()
+  async upsert(
+    @Param('indicationId') indicationId: string,
+    @Body() body: UpsertEpidemiologyMetricDto,
+    @CurrentUser() user: AuthUser
+  ) {
+    return this.epidemiologyService.upsertMetric(indicationId, body, user);
+  }
+}
\ No newline at end of file
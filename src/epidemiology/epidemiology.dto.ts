@@ -0,0 +1,59 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsNumber, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { ProvenanceDto } from '../provenance/provenance.dto';
+
+export const EPIDEMIOLOGY_METRIC_TYPES = [
+  'PREVALENCE',
+  'INCIDENCE',
+  'MEDIAN_SURVIVAL_YEARS',
+  'FIVE_YEAR_SURVIVAL'
+] as const;
+
+export type EpidemiologyMetricType = (typeof EPIDEMIOLOGY_METRIC_TYPES)[number];
+
+export const CONFIDENCE_LEVELS = ['high', 'medium', 'low'] as const;
+
+/** Default units per metric type, matching what the seed and deep research store. */
+export const DEFAULT_METRIC_UNITS: Record<EpidemiologyMetricType, string> = {
+  PREVALENCE: 'patients',
+  INCIDENCE: 'cases/year',
+  MEDIAN_SURVIVAL_YEARS: 'years',
+  FIVE_YEAR_SURVIVAL: '%'
+};
+
+export class UpsertEpidemiologyMetricDto extends ProvenanceDto {
+  @IsString()
+  region: string;
+
+  @IsIn(EPIDEMIOLOGY_METRIC_TYPES)
+  type: EpidemiologyMetricType;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  value: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  unit?: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1900)
+  @Max(2100)
+  year: number;
+
+  @IsIn(CONFIDENCE_LEVELS)
+  confidence: string;
+}
+
+export class EpidemiologyHistoryQueryDto {
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  @IsOptional()
+  @IsIn(EPIDEMIOLOGY_METRIC_TYPES)
+  type?: EpidemiologyMetricType;
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { EpidemiologyService } from './epidemiology.service';
+import { EpidemiologyController } from './epidemiology.controller';
+
+@Module({
+  providers: [EpidemiologyService],
+  controllers: [EpidemiologyController],
+  exports: [EpidemiologyService]
+})
+export class EpidemiologyModule {}
\ No newline at end of file
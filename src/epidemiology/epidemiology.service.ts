@@ -0,0 +1,218 @@
+/**
+ * Epidemiology Service - Curated Epidemiology Metrics
+ *
+ * Maintains the EpidemiologyMetric nodes (prevalence, incidence, median and
+ * five-year survival) attached to each indication and region.
+ *
+ * Every curated value must cite a source, a data year and a confidence level;
+ * the retrieval date and curator are stored alongside as provenance.
+ * Values are never overwritten: an upsert creates a new metric node connected
+ * through MEASURED_BY, while the value it replaces is moved to HAD_MEASUREMENT
+ * and linked from the new node via SUPERSEDES. All MIIPA queries follow
+ * MEASURED_BY only, so they always see the current value.
+ *
+ * @module EpidemiologyService
+ */
+
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Driver, Transaction } from 'neo4j-driver';
+import { randomUUID } from 'crypto';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user.interface';
+import { today } from '../provenance/provenance';
+import { updatedStamp } from '../meta/freshness';
+import { sameValue } from '../neo4j/graph-upsert';
+import { DEFAULT_METRIC_UNITS, EpidemiologyMetricType, UpsertEpidemiologyMetricDto } from './epidemiology.dto';
+
+/** Fields compared to decide whether an upsert actually changes the current value. */
+const COMPARED_FIELDS = ['value', 'unit', 'year', 'source', 'sourceUrl', 'sourceDocumentId', 'confidence'] as const;
+
+@Injectable()
+export class EpidemiologyService {
+  constructor(
+    @Inject('NEO4J_DRIVER') private readonly driver: Driver,
+    private readonly auditService: AuditService
+  ) {}
+
+  /**
+   * Lists the current epidemiology metrics of an indication.
+   *
+   * @param indicationId - Indication id
+   * @returns Current metrics with their region
+   * @throws NotFoundException if the indication does not exist
+   */
+  async getCurrentMetrics(indicationId: string) {
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(async tx => {
+        await this.requireIndication(tx, indicationId);
+        return tx.run(
+          `
+          MATCH (i:Indication {id: $indicationId})-[:MEASURED_BY]->(e:EpidemiologyMetric)-[:FOR_REGION]->(r:Region)
+          RETURN e, r.name AS region
+          ORDER BY r.name, e.type
+          `,
+          { indicationId }
+        );
+      });
+      return res.records.map(rec => ({ ...rec.get('e').properties, region: rec.get('region') }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Lists current and superseded values of an indication's metrics, newest first.
+   *
+   * @param indicationId - Indication id
+   * @param region - Optional region filter
+   * @param type - Optional metric type filter
+   * @throws NotFoundException if the indication does not exist
+   */
+  async getHistory(indicationId: string, region?: string, type?: EpidemiologyMetricType) {
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(async tx => {
+        await this.requireIndication(tx, indicationId);
+        return tx.run(
+          `
+          MATCH (i:Indication {id: $indicationId})-[rel:MEASURED_BY|HAD_MEASUREMENT]->(e:EpidemiologyMetric)-[:FOR_REGION]->(r:Region)
+          WHERE ($region IS NULL OR r.name = $region)
+            AND ($type IS NULL OR e.type = $type)
+          RETURN e, r.name AS region, type(rel) = 'MEASURED_BY' AS current
+          ORDER BY r.name, e.type, current DESC, coalesce(e.recordedAt, '') DESC
+          `,
+          { indicationId, region: region ?? null, type: type ?? null }
+        );
+      });
+      return res.records.map(rec => ({
+        ...rec.get('e').properties,
+        region: rec.get('region'),
+        current: rec.get('current')
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Sets the current value of one metric for an indication and region.
+   *
+   * If the submitted value is identical to the current one nothing is
+   * written. Otherwise a new metric becomes current and the previous one is
+   * kept as history.
+   *
+   * @param indicationId - Indication id
+   * @param dto - Validated metric, including mandatory source, year and confidence
+   * @param actor - User performing the write, recorded on the node and in the audit log
+   * @returns The current metric and whether it changed
+   * @throws NotFoundException if the indication does not exist
+   * @throws BadRequestException if the region does not exist
+   */
+  async upsertMetric(indicationId: string, dto: UpsertEpidemiologyMetricDto, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      const result = await session.writeTransaction(async tx => {
+        await this.requireIndication(tx, indicationId);
+        const region = await tx.run('MATCH (r:Region {name: $name}) RETURN r', { name: dto.region });
+        if (region.records.length === 0) throw new BadRequestException(`Region ${dto.region} does not exist`);
+        return this.writeMetric(tx, indicationId, dto, actor);
+      });
+
+      if (result.changed) {
+        await this.auditService.record({
+          action: 'graph.epidemiology.upsert',
+          actor,
+          targetIds: [result.metric.id, indicationId, ...result.previous.map(p => p.id).filter(Boolean)],
+          before: result.previous.length > 0 ? { metrics: result.previous } : null,
+          after: { ...result.metric, region: dto.region }
+        });
+      }
+      return { ...result.metric, region: dto.region, changed: result.changed };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Writes one metric inside the caller's transaction, superseding the
+   * current value unless it is identical. The indication and region must
+   * already have been checked to exist. `extraProps` are stored on a new
+   * metric as well (e.g. the deep-research source).
+   */
+  async writeMetric(
+    tx: Transaction,
+    indicationId: string,
+    dto: UpsertEpidemiologyMetricDto,
+    actor?: AuthUser,
+    extraProps: Record<string, any> = {}
+  ) {
+    const props = {
+      type: dto.type,
+      value: dto.value,
+      unit: dto.unit || DEFAULT_METRIC_UNITS[dto.type],
+      year: dto.year,
+      source: dto.source,
+      sourceUrl: dto.sourceUrl ?? null,
+      sourceDocumentId: dto.sourceDocumentId ?? null,
+      confidence: dto.confidence
+    };
+
+    const currentRes = await tx.run(
+      `
+      MATCH (i:Indication {id: $indicationId})-[:MEASURED_BY]->(e:EpidemiologyMetric {type: $type})-[:FOR_REGION]->(:Region {name: $region})
+      RETURN e
+      `,
+      { indicationId, type: dto.type, region: dto.region }
+    );
+    const current = currentRes.records.map(rec => rec.get('e').properties);
+
+    if (current.length === 1 && COMPARED_FIELDS.every(f => sameValue(current[0][f], props[f]))) {
+      return { metric: current[0], previous: current, changed: false };
+    }
+
+    const id = `epi-${randomUUID()}`;
+    const res = await tx.run(
+      `
+      MATCH (i:Indication {id: $indicationId})
+      MATCH (r:Region {name: $region})
+      CREATE (e:EpidemiologyMetric {id: $id})
+      SET e += $props,
+          e += $extraProps,
+          e.retrievedAt = $retrievedAt,
+          e.curatedBy = $recordedBy,
+          e.recordedAt = toString(datetime()),
+          e.recordedBy = $recordedBy,
+          ${updatedStamp('e')}
+      CREATE (i)-[:MEASURED_BY]->(e)
+      CREATE (e)-[:FOR_REGION]->(r)
+      WITH i, e
+      OPTIONAL MATCH (i)-[old:MEASURED_BY]->(prev:EpidemiologyMetric {type: $type})-[:FOR_REGION]->(:Region {name: $region})
+      WHERE prev <> e
+      FOREACH (_ IN CASE WHEN prev IS NULL THEN [] ELSE [1] END |
+        DELETE old
+        CREATE (i)-[:HAD_MEASUREMENT]->(prev)
+        CREATE (e)-[:SUPERSEDES]->(prev)
+        SET prev.supersededAt = e.recordedAt
+      )
+      RETURN DISTINCT e
+      `,
+      {
+        indicationId,
+        region: dto.region,
+        type: dto.type,
+        id,
+        props,
+        extraProps,
+        retrievedAt: dto.retrievedAt ?? today(),
+        recordedBy: actor?.email ?? null
+      }
+    );
+    return { metric: res.records[0].get('e').properties, previous: current, changed: true };
+  }
+
+  private async requireIndication(tx: Transaction, id: string) {
+    const res = await tx.run('MATCH (i:Indication {id: $id}) RETURN i', { id });
+    if (res.records.length === 0) throw new NotFoundException('Indication not found');
+  }
+}
\ No newline at end of file
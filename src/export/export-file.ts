@@ -0,0 +1,106 @@
+import { BadRequestException, StreamableFile } from '@nestjs/common';
+import { toCsv } from '../spreadsheet/csv';
+import { SheetCell, writeXlsx } from '../spreadsheet/xlsx';
+import { PdfDocument, renderPdf } from './pdf';
+
+/**
+ * Shared plumbing for the `?format=` exports of read endpoints: views are
+ * flattened into named tables, then written as CSV (one table), XLSX (one
+ * sheet per table) or a PDF report.
+ */
+
+export const EXPORT_FORMATS = ['json', 'csv', 'xlsx', 'pdf'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+}
+
+export interface ExportTable {
+  name: string;
+  columns: ExportColumn[];
+  rows: Record<string, any>[];
+}
+
+const CONTENT_TYPES: Record<Exclude<ExportFormat, 'json'>, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+};
+
+/**
+ * Validates a `format` query value, defaulting to JSON.
+ *
+ * @throws BadRequestException if the format is unknown or not offered by the endpoint
+ */
+export function parseExportFormat(format: string | undefined, allowed: readonly ExportFormat[] = EXPORT_FORMATS): ExportFormat {
+  const value = (format || 'json').toLowerCase() as ExportFormat;
+  if (!allowed.includes(value)) {
+    throw new BadRequestException(`format must be one of ${allowed.join(', ')}`);
+  }
+  return value;
+}
+
+// Spreadsheet value of a view field: lists are joined, nested objects dropped
+function cell(value: unknown): SheetCell {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') {
+    return typeof (value as any).toNumber === 'function' ? (value as any).toNumber() : null;
+  }
+  return value as SheetCell;
+}
+
+// Cell written to a CSV or XLSX download: text that a spreadsheet would run as a formula is quoted with '
+function sheetCell(value: unknown): SheetCell {
+  const v = cell(value);
+  return typeof v === 'string' && /^[=+\-@]/.test(v) ? `'${v}` : v;
+}
+
+function tableRows(table: ExportTable): SheetCell[][] {
+  return [table.columns.map(c => c.header), ...table.rows.map(row => table.columns.map(c => sheetCell(row[c.key])))];
+}
+
+function file(buffer: Buffer, format: Exclude<ExportFormat, 'json'>, basename: string) {
+  return new StreamableFile(buffer, {
+    type: CONTENT_TYPES[format],
+    disposition: `attachment; filename="${basename.replace(/[^A-Za-z0-9._-]+/g, '-')}.${format}"`,
+    length: buffer.length
+  });
+}
+
+/**
+ * Writes one of `tables` as CSV, chosen by name (case-insensitive) or the first.
+ *
+ * @throws BadRequestException if no table has that name
+ */
+export function csvFile(tables: ExportTable[], basename: string, tableName?: string) {
+  const table = tableName ? tables.find(t => t.name.toLowerCase() === tableName.toLowerCase()) : tables[0];
+  if (!table) {
+    throw new BadRequestException(`table must be one of ${tables.map(t => t.name.toLowerCase()).join(', ')}`);
+  }
+  const csv = toCsv(
+    table.columns.map(c => c.key),
+    table.rows.map(row => Object.fromEntries(table.columns.map(c => [c.key, sheetCell(row[c.key])])))
+  );
+  return file(Buffer.from(csv, 'utf8'), 'csv', tableName ? `${basename}-${table.name.toLowerCase()}` : basename);
+}
+
+export function xlsxFile(tables: ExportTable[], basename: string) {
+  return file(writeXlsx(tables.map(t => ({ name: t.name, rows: tableRows(t) }))), 'xlsx', basename);
+}
+
+export function pdfFile(doc: PdfDocument, basename: string) {
+  return file(renderPdf(doc), 'pdf', basename);
+}
+
+/** Formats a table cell for print. */
+export function printable(value: unknown): string {
+  const v = cell(value);
+  if (v === null) return '';
+  if (typeof v === 'number') return Number.isInteger(v) ? v.toLocaleString('en-US') : String(Math.round(v * 100) / 100);
+  if (typeof v === 'boolean') return v ? 'Yes' : 'No';
+  return v;
+}
\ No newline at end of file
@@ -0,0 +1,206 @@
+/**
+ * Minimal PDF writer for printable reports: A4 portrait pages with a title,
+ * header lines, headed sections of text and tables, and a page footer.
+ * Uses the standard Helvetica fonts, so only Latin-1 text and common
+ * typographic punctuation are rendered; other characters print as `?`.
+ */
+
+export interface PdfColumn {
+  header: string;
+  // Relative share of the table width
+  width?: number;
+  align?: 'left' | 'right';
+}
+
+export interface PdfTable {
+  columns: PdfColumn[];
+  rows: string[][];
+}
+
+export interface PdfSection {
+  heading: string;
+  lines?: string[];
+  table?: PdfTable;
+}
+
+export interface PdfDocument {
+  title: string;
+  headerLines: string[];
+  sections: PdfSection[];
+  footer?: string;
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 36;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const TABLE_FONT_SIZE = 8;
+const ROW_HEIGHT = 11;
+
+// Approximate Helvetica advance widths, in em
+function textWidth(text: string, size: number): number {
+  let em = 0;
+  for (const ch of text) {
+    if (/[0-9]/.test(ch)) em += 0.556;
+    else if (/[A-Z]/.test(ch)) em += 0.667;
+    else if (/[\s.,:;'|!il]/.test(ch)) em += 0.278;
+    else if (/[mwMW]/.test(ch)) em += 0.833;
+    else em += 0.5;
+  }
+  return em * size;
+}
+
+function fit(text: string, width: number, size: number): string {
+  if (textWidth(text, size) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && textWidth(`${cut}...`, size) > width) cut = cut.slice(0, -1);
+  return `${cut}...`;
+}
+
+// WinAnsiEncoding codes for typographic characters outside Latin-1
+const WIN_ANSI: Record<string, string> = {
+  '\u20ac': '\x80',
+  '\u2026': '\x85',
+  '\u2018': '\x91',
+  '\u2019': '\x92',
+  '\u201c': '\x93',
+  '\u201d': '\x94',
+  '\u2022': '\x95',
+  '\u2013': '\x96',
+  '\u2014': '\x97'
+};
+
+function escape(text: string): string {
+  return text
+    .replace(/[\u20ac\u2026\u2018\u2019\u201c\u201d\u2022\u2013\u2014]/g, ch => WIN_ANSI[ch])
+    .replace(/[^\x20-\x7e\x80-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+class PageWriter {
+  readonly pages: string[][] = [];
+  private ops: string[] = [];
+  y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage() {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensure(height: number): boolean {
+    if (this.y - height >= MARGIN + 14) return false;
+    this.newPage();
+    return true;
+  }
+
+  text(text: string, x: number, y: number, size: number, bold = false, gray = false) {
+    const color = gray ? '0.4 g' : '0 g';
+    this.ops.push(`BT ${color} /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escape(text)}) Tj ET`);
+  }
+
+  rule(y: number, weight = 0.5) {
+    this.ops.push(`${weight} w 0.6 G ${MARGIN} ${y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${y.toFixed(2)} l S`);
+  }
+}
+
+function drawTableHeader(page: PageWriter, table: PdfTable, widths: number[]) {
+  let x = MARGIN;
+  table.columns.forEach((col, i) => {
+    const label = fit(col.header, widths[i] - 4, TABLE_FONT_SIZE);
+    const offset = col.align === 'right' ? widths[i] - 4 - textWidth(label, TABLE_FONT_SIZE) : 0;
+    page.text(label, x + offset, page.y - 8, TABLE_FONT_SIZE, true);
+    x += widths[i];
+  });
+  page.y -= ROW_HEIGHT;
+  page.rule(page.y + 1);
+}
+
+function drawTable(page: PageWriter, table: PdfTable) {
+  const total = table.columns.reduce((sum, c) => sum + (c.width ?? 1), 0);
+  const widths = table.columns.map(c => ((c.width ?? 1) / total) * CONTENT_WIDTH);
+
+  drawTableHeader(page, table, widths);
+  for (const row of table.rows) {
+    if (page.ensure(ROW_HEIGHT)) drawTableHeader(page, table, widths);
+    let x = MARGIN;
+    table.columns.forEach((col, i) => {
+      const value = fit(row[i] ?? '', widths[i] - 4, TABLE_FONT_SIZE);
+      const offset = col.align === 'right' ? widths[i] - 4 - textWidth(value, TABLE_FONT_SIZE) : 0;
+      page.text(value, x + offset, page.y - 8, TABLE_FONT_SIZE);
+      x += widths[i];
+    });
+    page.y -= ROW_HEIGHT;
+  }
+}
+
+function serialize(pages: string[][]): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  const catalog = add('');
+  const pagesId = add('');
+  const regular = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const bold = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const kids = pages.map(ops => {
+    const stream = ops.join('\n');
+    const content = add(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${content} 0 R >>`
+    );
+  });
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${kids.map(k => `${k} 0 R`).join(' ')}] /Count ${kids.length} >>`;
+
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(out, 'latin1'));
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(out, 'latin1');
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, 'latin1');
+}
+
+export function renderPdf(doc: PdfDocument): Buffer {
+  const page = new PageWriter();
+
+  page.text(doc.title, MARGIN, page.y - 16, 16, true);
+  page.y -= 24;
+  for (const line of doc.headerLines) {
+    page.text(line, MARGIN, page.y - 9, 9, false, true);
+    page.y -= 12;
+  }
+  page.y -= 2;
+  page.rule(page.y, 1);
+  page.y -= 8;
+
+  for (const section of doc.sections) {
+    page.ensure(40);
+    page.text(section.heading, MARGIN, page.y - 11, 11, true);
+    page.y -= 16;
+    for (const line of section.lines ?? []) {
+      page.ensure(12);
+      page.text(fit(line, CONTENT_WIDTH, 9), MARGIN, page.y - 9, 9);
+      page.y -= 12;
+    }
+    if (section.table) drawTable(page, section.table);
+    page.y -= 10;
+  }
+
+  page.pages.forEach((ops, i) => {
+    const footer = `${doc.footer ? `${doc.footer} - ` : ''}page ${i + 1} of ${page.pages.length}`;
+    ops.push(`BT 0.4 g /F1 7 Tf ${MARGIN} ${MARGIN - 10} Td (${escape(footer)}) Tj ET`);
+  });
+  return serialize(page.pages);
+}
\ No newline at end of file
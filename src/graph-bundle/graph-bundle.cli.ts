@@ -0,0 +1,96 @@
+import 'reflect-metadata';
+import neo4j from 'neo4j-driver';
+import * as dotenv from 'dotenv';
+import { BundleError, validateGraphBundle } from './graph-bundle.dto';
+import { readGraphBundle, writeGraphBundle } from './graph-bundle.files';
+import { GraphBundleService } from './graph-bundle.service';
+dotenv.config();
+
+const USAGE = `Usage: npm run graph -- <command>  (or graph:prod after a build)
+  export <path> [--format json|csv]    write the whole graph to a JSON file or CSV directory
+  validate <path>                      check a bundle without touching the graph
+  import <path> [--dry-run] [--wipe]   upsert a bundle; --wipe deletes the existing graph first`;
+
+const uri = process.env.NEO4J_URI || 'bolt://localhost:7687';
+const user = process.env.NEO4J_USER || 'neo4j';
+const password = process.env.NEO4J_PASSWORD || 'password';
+
+function printErrors(errors: BundleError[]) {
+  for (const e of errors) {
+    const where = [e.section, e.index !== undefined ? `#${e.index}` : null, e.key ? `(${e.key})` : null]
+      .filter(Boolean)
+      .join(' ');
+    console.error(`  ${where}: ${e.message}`);
+  }
+}
+
+async function load(location: string) {
+  const { bundle, errors } = validateGraphBundle(await readGraphBundle(location));
+  if (errors.length) {
+    console.error(`${location} is not a valid bundle (${errors.length} error(s)):`);
+    printErrors(errors);
+    process.exitCode = 1;
+    return null;
+  }
+  return bundle;
+}
+
+async function main() {
+  const [command, location, ...flags] = process.argv.slice(2);
+  const flag = (name: string) => flags.includes(`--${name}`);
+  if (!command || !location) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (command === 'validate') {
+    const bundle = await load(location);
+    if (bundle) console.log(`${location} is valid`);
+    return;
+  }
+
+  if (command !== 'export' && command !== 'import') {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const driver = neo4j.driver(uri, neo4j.auth.basic(user, password));
+  try {
+    const service = new GraphBundleService(driver);
+
+    if (command === 'export') {
+      const formatIndex = flags.indexOf('--format');
+      const format = formatIndex >= 0 && flags[formatIndex + 1] === 'csv' ? 'csv' : 'json';
+      const bundle = await service.exportBundle();
+      await writeGraphBundle(bundle, location, format);
+      console.log(`Exported graph to ${location} (${format})`);
+      return;
+    }
+
+    const bundle = await load(location);
+    if (!bundle) return;
+
+    const result = await service.importBundle(bundle, { dryRun: flag('dry-run'), wipe: flag('wipe') });
+    for (const [section, counts] of Object.entries(result.changes)) {
+      console.log(`${section.padEnd(20)} created ${counts.created}, updated ${counts.updated}, unchanged ${counts.unchanged}`);
+    }
+    if (result.errors.length) {
+      console.error(`Import rolled back, ${result.errors.length} unresolved reference(s):`);
+      printErrors(result.errors);
+      process.exitCode = 1;
+    } else if (result.dryRun) {
+      console.log(`Dry run${flag('wipe') ? ' with wipe' : ''}: nothing was written`);
+    } else {
+      console.log(`Imported ${location}${result.wiped ? ' after wiping the graph' : ''}`);
+    }
+  } finally {
+    await driver.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Graph bundle error:', error);
+  process.exitCode = 1;
+});
\ No newline at end of file
@@ -0,0 +1,388 @@
+import { plainToInstance, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MinLength,
+  ValidateNested,
+  ValidationError,
+  validateSync
+} from 'class-validator';
+import { INDICATION_ID_PATTERN } from '../indications/indications.dto';
+import { MUTATION_ID_PATTERN } from '../mutations/mutations.dto';
+import { EPIDEMIOLOGY_METRIC_TYPES } from '../epidemiology/epidemiology.dto';
+import { COMPANY_ID_PATTERN, PIPELINE_ASSET_ID_PATTERN, PIPELINE_PHASES } from '../competition/competition.dto';
+import { CLINICAL_TRIAL_ID_PATTERN } from '../clinical-trials/clinical-trials.dto';
+
+export const GRAPH_BUNDLE_FORMAT = 'miipa-graph-bundle';
+export const GRAPH_BUNDLE_VERSION = 1;
+
+/** Bundle sections in import order: every section only references earlier ones. */
+export const GRAPH_BUNDLE_SECTIONS = [
+  'regions',
+  'indications',
+  'genes',
+  'mutations',
+  'therapies',
+  'diagnostics',
+  'epidemiology',
+  'mutationPrevalence',
+  'actionability',
+  'companies',
+  'pipelineAssets',
+  'clinicalTrials'
+] as const;
+
+export type GraphBundleSection = (typeof GRAPH_BUNDLE_SECTIONS)[number];
+
+/**
+ * Fields that describe relationships rather than node properties. Everything
+ * else on a record, including fields not declared below, is stored on the node
+ * (a mutation's `gene` is both, as the research import also stores it).
+ */
+export const RELATIONSHIP_FIELDS: Record<GraphBundleSection, string[]> = {
+  regions: [],
+  indications: [],
+  genes: [],
+  mutations: ['indicationIds'],
+  therapies: ['indicationIds'],
+  diagnostics: ['indicationIds'],
+  epidemiology: ['indicationId', 'region', 'current'],
+  mutationPrevalence: ['mutationId', 'indicationId', 'region'],
+  actionability: ['mutationId', 'indicationId'],
+  companies: [],
+  pipelineAssets: ['companyId', 'mutationIds', 'indicationIds'],
+  clinicalTrials: ['indicationIds', 'mutationIds', 'therapyIds']
+};
+
+export class BundleRegion {
+  @IsString()
+  @MinLength(1)
+  name: string;
+}
+
+export class BundleIndication {
+  @Matches(INDICATION_ID_PATTERN, { message: 'id must look like ind-<slug>' })
+  id: string;
+
+  @IsString()
+  @MinLength(2)
+  name: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  aliases?: string[];
+}
+
+export class BundleGene {
+  @Matches(/^[A-Za-z0-9-]+$/, { message: 'hugoSymbol must be an HGNC symbol' })
+  hugoSymbol: string;
+}
+
+export class BundleMutation {
+  @Matches(MUTATION_ID_PATTERN, { message: 'id must look like mut-<slug>' })
+  id: string;
+
+  @IsString()
+  name: string;
+
+  // HGNC symbol of the gene the mutation is in
+  @IsOptional()
+  @IsString()
+  gene?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  indicationIds?: string[];
+}
+
+export class BundleTherapy {
+  @IsString()
+  @MinLength(1)
+  id: string;
+
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  indicationIds?: string[];
+}
+
+export class BundleDiagnostic {
+  @IsString()
+  @MinLength(1)
+  id: string;
+
+  @IsString()
+  name: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  indicationIds?: string[];
+}
+
+export class BundleEpidemiologyMetric {
+  @IsString()
+  @MinLength(1)
+  id: string;
+
+  @IsString()
+  indicationId: string;
+
+  @IsString()
+  region: string;
+
+  @IsIn(EPIDEMIOLOGY_METRIC_TYPES)
+  type: string;
+
+  @IsNumber()
+  value: number;
+
+  // false for values kept as history (HAD_MEASUREMENT); defaults to current
+  @IsOptional()
+  @IsBoolean()
+  current?: boolean;
+}
+
+export class BundleMutationPrevalence {
+  @IsString()
+  @MinLength(1)
+  id: string;
+
+  @IsString()
+  mutationId: string;
+
+  @IsString()
+  indicationId: string;
+
+  @IsString()
+  region: string;
+
+  @IsNumber()
+  percentageOfPatients: number;
+}
+
+export class BundleActionability {
+  @IsString()
+  @MinLength(1)
+  id: string;
+
+  @IsString()
+  mutationId: string;
+
+  // Present for indication-specific (therapeutic) actionability
+  @IsOptional()
+  @IsString()
+  indicationId?: string;
+
+  @IsString()
+  level: string;
+
+  @IsOptional()
+  @IsBoolean()
+  fdaApproved?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  drugs?: string[];
+}
+
+export class BundleCompany {
+  @Matches(COMPANY_ID_PATTERN, { message: 'id must look like co-<slug>' })
+  id: string;
+
+  @IsString()
+  @MinLength(2)
+  name: string;
+}
+
+export class BundlePipelineAsset {
+  @Matches(PIPELINE_ASSET_ID_PATTERN, { message: 'id must look like asset-<slug>' })
+  id: string;
+
+  @IsString()
+  name: string;
+
+  @IsString()
+  companyId: string;
+
+  @IsIn(PIPELINE_PHASES)
+  phase: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  mutationIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  indicationIds?: string[];
+}
+
+export class BundleClinicalTrial {
+  @Matches(CLINICAL_TRIAL_ID_PATTERN, { message: 'id must be an NCT number' })
+  id: string;
+
+  @IsString()
+  title: string;
+
+  @IsString()
+  phase: string;
+
+  @IsString()
+  status: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  indicationIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  mutationIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  therapyIds?: string[];
+}
+
+export class GraphBundle {
+  @IsIn([GRAPH_BUNDLE_FORMAT])
+  format: string;
+
+  @IsIn([GRAPH_BUNDLE_VERSION])
+  version: number;
+
+  @IsOptional()
+  @IsString()
+  exportedAt?: string;
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleRegion)
+  regions: BundleRegion[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleIndication)
+  indications: BundleIndication[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleGene)
+  genes: BundleGene[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleMutation)
+  mutations: BundleMutation[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleTherapy)
+  therapies: BundleTherapy[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleDiagnostic)
+  diagnostics: BundleDiagnostic[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleEpidemiologyMetric)
+  epidemiology: BundleEpidemiologyMetric[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleMutationPrevalence)
+  mutationPrevalence: BundleMutationPrevalence[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleActionability)
+  actionability: BundleActionability[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleCompany)
+  companies: BundleCompany[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundlePipelineAsset)
+  pipelineAssets: BundlePipelineAsset[] = [];
+
+  @ValidateNested({ each: true })
+  @Type(() => BundleClinicalTrial)
+  clinicalTrials: BundleClinicalTrial[] = [];
+}
+
+export interface BundleError {
+  section: GraphBundleSection | 'bundle';
+  index?: number;
+  key?: string;
+  message: string;
+}
+
+// Neo4j properties must be primitives or homogeneous lists of primitives
+function isStorable(value: unknown): boolean {
+  const primitive = (v: unknown) => ['string', 'number', 'boolean'].includes(typeof v);
+  return primitive(value) || (Array.isArray(value) && value.every(primitive));
+}
+
+function flatten(errors: ValidationError[], path = ''): string[] {
+  return errors.flatMap(e => [
+    ...Object.values(e.constraints || {}).map(msg => (path ? `${path}: ${msg}` : msg)),
+    ...flatten(e.children || [], path ? `${path}.${e.property}` : e.property)
+  ]);
+}
+
+/** Record key used for duplicate detection and error messages. */
+export function bundleKey(section: GraphBundleSection, record: Record<string, any>): string {
+  if (section === 'regions') return record.name;
+  if (section === 'genes') return record.hugoSymbol;
+  return record.id;
+}
+
+/**
+ * Validates a parsed bundle: format and version, required fields and enums
+ * per record, storable extra properties and duplicate keys. References are
+ * resolved at import time, against the bundle and the existing graph.
+ */
+export function validateGraphBundle(raw: unknown): { bundle: GraphBundle; errors: BundleError[] } {
+  const bundle = plainToInstance(GraphBundle, raw ?? {}) as GraphBundle;
+  const errors: BundleError[] = [];
+
+  for (const error of validateSync(bundle, { forbidUnknownValues: false })) {
+    const section = error.property as GraphBundleSection;
+    if (!GRAPH_BUNDLE_SECTIONS.includes(section)) {
+      errors.push(...flatten([error]).map(message => ({ section: 'bundle' as const, message })));
+      continue;
+    }
+    for (const child of error.children || []) {
+      const index = Number(child.property);
+      const record = (bundle[section] as any[])[index];
+      for (const message of flatten(child.children || [])) {
+        errors.push({ section, index, key: record && bundleKey(section, record), message });
+      }
+    }
+  }
+
+  for (const section of GRAPH_BUNDLE_SECTIONS) {
+    const seen = new Set<string>();
+    (bundle[section] as any[]).forEach((record, index) => {
+      const key = bundleKey(section, record);
+      if (key && seen.has(key)) errors.push({ section, index, key, message: `duplicate key "${key}"` });
+      seen.add(key);
+      for (const [field, value] of Object.entries(record)) {
+        if (value !== null && value !== undefined && !isStorable(value)) {
+          errors.push({ section, index, key, message: `${field} must be a string, number, boolean or a list of them` });
+        }
+      }
+    });
+  }
+
+  return { bundle, errors };
+}
\ No newline at end of file
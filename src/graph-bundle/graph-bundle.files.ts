@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parseCsv, toCsv } from '../spreadsheet/csv';
+import { GRAPH_BUNDLE_SECTIONS, GraphBundle, GraphBundleSection } from './graph-bundle.dto';
+
+/**
+ * A bundle is stored either as one JSON file or as a CSV directory with a
+ * `manifest.json` (format, version and column types) and one `<section>.csv`
+ * per section. List values are joined with `|` in CSV cells.
+ */
+
+export type GraphBundleFileFormat = 'json' | 'csv';
+
+type ColumnType = 'string' | 'number' | 'boolean' | 'string[]' | 'number[]';
+
+interface CsvManifest {
+  format: string;
+  version: number;
+  exportedAt?: string;
+  columns: Partial<Record<GraphBundleSection, Record<string, ColumnType>>>;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+const LIST_SEPARATOR = '|';
+
+function columnType(value: unknown): ColumnType {
+  if (Array.isArray(value)) return value.every(v => typeof v === 'number') && value.length ? 'number[]' : 'string[]';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+}
+
+// Columns missing from the manifest (e.g. added by hand) are typed by their content
+function inferValue(cell: string): string | number | boolean {
+  if (cell === 'true' || cell === 'false') return cell === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(cell)) return Number(cell);
+  return cell;
+}
+
+function parseCell(cell: string, type: ColumnType | undefined): unknown {
+  switch (type) {
+    case undefined:
+      return inferValue(cell);
+    case 'number':
+      return Number(cell);
+    case 'boolean':
+      return cell === 'true';
+    case 'string[]':
+      return cell.split(LIST_SEPARATOR);
+    case 'number[]':
+      return cell.split(LIST_SEPARATOR).map(Number);
+    default:
+      return cell;
+  }
+}
+
+export async function readGraphBundle(location: string): Promise<unknown> {
+  const stat = await fs.stat(location);
+  if (!stat.isDirectory()) {
+    return JSON.parse(await fs.readFile(location, 'utf8'));
+  }
+
+  const manifest: CsvManifest = JSON.parse(await fs.readFile(path.join(location, MANIFEST_FILE), 'utf8'));
+  const bundle: Record<string, unknown> = {
+    format: manifest.format,
+    version: manifest.version,
+    exportedAt: manifest.exportedAt
+  };
+  for (const section of GRAPH_BUNDLE_SECTIONS) {
+    const file = path.join(location, `${section}.csv`);
+    const text = await fs.readFile(file, 'utf8').catch(() => null);
+    if (text === null) continue;
+
+    const types = manifest.columns?.[section] ?? {};
+    bundle[section] = parseCsv(text).map(row =>
+      Object.fromEntries(
+        Object.entries(row)
+          .filter(([, cell]) => cell !== '')
+          .map(([column, cell]) => [column, parseCell(cell, types[column])])
+      )
+    );
+  }
+  return bundle;
+}
+
+export async function writeGraphBundle(bundle: GraphBundle, location: string, format: GraphBundleFileFormat) {
+  if (format === 'json') {
+    await fs.mkdir(path.dirname(path.resolve(location)), { recursive: true });
+    await fs.writeFile(location, JSON.stringify(bundle, null, 2) + '\n');
+    return;
+  }
+
+  await fs.mkdir(location, { recursive: true });
+  const manifest: CsvManifest = {
+    format: bundle.format,
+    version: bundle.version,
+    exportedAt: bundle.exportedAt,
+    columns: {}
+  };
+  for (const section of GRAPH_BUNDLE_SECTIONS) {
+    const records = bundle[section] as Record<string, any>[];
+    const types: Record<string, ColumnType> = {};
+    for (const record of records) {
+      for (const [column, value] of Object.entries(record)) {
+        if (value !== undefined && value !== null && !types[column]) types[column] = columnType(value);
+      }
+    }
+    manifest.columns[section] = types;
+
+    const rows = records.map(record =>
+      Object.fromEntries(
+        Object.entries(record).map(([column, value]) => [column, Array.isArray(value) ? value.join(LIST_SEPARATOR) : value])
+      )
+    );
+    await fs.writeFile(path.join(location, `${section}.csv`), toCsv(Object.keys(types), rows));
+  }
+  await fs.writeFile(path.join(location, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n');
+}
\ No newline at end of file
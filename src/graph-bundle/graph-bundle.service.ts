@@ -0,0 +1,621 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Driver, Transaction } from 'neo4j-driver';
+import { classifyNode, emptyCounts, ImportCounts, toPlain, totalCounts } from '../neo4j/graph-upsert';
+import { priceStamp, updatedStamp } from '../meta/freshness';
+import {
+  BundleError,
+  bundleKey,
+  GRAPH_BUNDLE_FORMAT,
+  GRAPH_BUNDLE_SECTIONS,
+  GRAPH_BUNDLE_VERSION,
+  GraphBundle,
+  GraphBundleSection,
+  RELATIONSHIP_FIELDS
+} from './graph-bundle.dto';
+
+export interface GraphBundleImportOptions {
+  // Roll back after computing the changes
+  dryRun?: boolean;
+  // Delete every node except migration bookkeeping before importing
+  wipe?: boolean;
+}
+
+export interface GraphBundleImportResult {
+  dryRun: boolean;
+  wiped: boolean;
+  applied: boolean;
+  changes: Record<GraphBundleSection, ImportCounts>;
+  totals: ImportCounts;
+  errors: BundleError[];
+}
+
+// Records exported with a freshness stamp keep it; others are stamped as written now
+const PRESERVED_STAMP = '$props.updatedAt';
+
+// Node properties of a record: everything except relationship fields and unset values
+function nodeProps(section: GraphBundleSection, record: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(record).filter(
+      ([field, value]) => value !== undefined && value !== null && !RELATIONSHIP_FIELDS[section].includes(field)
+    )
+  );
+}
+
+// Plain, key-sorted copy of a node's properties with its key field first
+function exportProps(props: Record<string, any>, keyField: string): Record<string, any> {
+  const out: Record<string, any> = { [keyField]: toPlain(props[keyField]) };
+  for (const field of Object.keys(props).sort()) {
+    if (field !== keyField) out[field] = toPlain(props[field]);
+  }
+  return out;
+}
+
+/**
+ * Exports and imports the whole knowledge graph as a versioned bundle.
+ *
+ * Imports upsert by key (id, or name for regions and hugoSymbol for genes)
+ * inside a single transaction and only ever add relationships. Epidemiology
+ * follows the same versioning as the API: a new current metric supersedes the
+ * current value for its indication, type and region.
+ */
+@Injectable()
+export class GraphBundleService {
+  private readonly logger = new Logger(GraphBundleService.name);
+
+  constructor(@Inject('NEO4J_DRIVER') private readonly driver: Driver) {}
+
+  /** Exports the whole graph, or only the given sections (the rest are left empty). */
+  async exportBundle(sections: readonly GraphBundleSection[] = GRAPH_BUNDLE_SECTIONS): Promise<GraphBundle> {
+    const session = this.driver.session();
+    try {
+      return await session.readTransaction(async tx => {
+        const rows = async (section: GraphBundleSection, query: string, map: (rec: any) => Record<string, any>) =>
+          sections.includes(section) ? (await tx.run(query)).records.map(map) : [];
+
+        const bundle = {
+          format: GRAPH_BUNDLE_FORMAT,
+          version: GRAPH_BUNDLE_VERSION,
+          exportedAt: new Date().toISOString()
+        } as GraphBundle;
+
+        bundle.regions = (await rows(
+          'regions',
+          'MATCH (r:Region) RETURN r ORDER BY r.name',
+          rec => exportProps(rec.get('r').properties, 'name')
+        )) as GraphBundle['regions'];
+
+        bundle.indications = (await rows(
+          'indications',
+          'MATCH (i:Indication) RETURN i ORDER BY i.id',
+          rec => exportProps(rec.get('i').properties, 'id')
+        )) as GraphBundle['indications'];
+
+        bundle.genes = (await rows(
+          'genes',
+          'MATCH (g:Gene) RETURN g ORDER BY g.hugoSymbol',
+          rec => exportProps(rec.get('g').properties, 'hugoSymbol')
+        )) as GraphBundle['genes'];
+
+        bundle.mutations = (await rows(
+          'mutations',
+          `
+          MATCH (m:Mutation)
+          OPTIONAL MATCH (m)-[:IN_GENE]->(g:Gene)
+          OPTIONAL MATCH (m)-[:ASSOCIATED_WITH]->(i:Indication)
+          WITH m, head(collect(DISTINCT g.hugoSymbol)) AS gene, collect(DISTINCT i.id) AS indicationIds
+          RETURN m, gene, indicationIds
+          ORDER BY m.id
+          `,
+          rec => ({
+            ...exportProps(rec.get('m').properties, 'id'),
+            gene: rec.get('gene') ?? rec.get('m').properties.gene ?? undefined,
+            indicationIds: [...rec.get('indicationIds')].sort()
+          })
+        )) as GraphBundle['mutations'];
+
+        for (const [section, label, rel] of [
+          ['therapies', 'Therapy', 'HAS_THERAPY'],
+          ['diagnostics', 'DiagnosticModality', 'HAS_DIAGNOSTIC']
+        ] as const) {
+          bundle[section] = (await rows(
+            section,
+            `
+            MATCH (n:${label})
+            OPTIONAL MATCH (i:Indication)-[:${rel}]->(n)
+            WITH n, collect(DISTINCT i.id) AS indicationIds
+            RETURN n, indicationIds
+            ORDER BY n.id
+            `,
+            rec => ({ ...exportProps(rec.get('n').properties, 'id'), indicationIds: [...rec.get('indicationIds')].sort() })
+          )) as any[];
+        }
+
+        bundle.epidemiology = (await rows(
+          'epidemiology',
+          `
+          MATCH (i:Indication)-[rel:MEASURED_BY|HAD_MEASUREMENT]->(e:EpidemiologyMetric)-[:FOR_REGION]->(r:Region)
+          RETURN e, i.id AS indicationId, r.name AS region, type(rel) = 'MEASURED_BY' AS current
+          ORDER BY indicationId, region, e.type, current, coalesce(e.recordedAt, ''), e.id
+          `,
+          rec => ({
+            ...exportProps(rec.get('e').properties, 'id'),
+            indicationId: rec.get('indicationId'),
+            region: rec.get('region'),
+            current: rec.get('current')
+          })
+        )) as GraphBundle['epidemiology'];
+
+        bundle.mutationPrevalence = (await rows(
+          'mutationPrevalence',
+          `
+          MATCH (m:Mutation)-[:HAS_PREVALENCE]->(p:MutationPrevalence)-[:IN_INDICATION]->(i:Indication)
+          MATCH (p)-[:FOR_REGION]->(r:Region)
+          RETURN p, m.id AS mutationId, i.id AS indicationId, r.name AS region
+          ORDER BY p.id
+          `,
+          rec => ({
+            ...exportProps(rec.get('p').properties, 'id'),
+            mutationId: rec.get('mutationId'),
+            indicationId: rec.get('indicationId'),
+            region: rec.get('region')
+          })
+        )) as GraphBundle['mutationPrevalence'];
+
+        bundle.actionability = (await rows(
+          'actionability',
+          `
+          MATCH (m:Mutation)-[:HAS_ACTIONABILITY]->(a:Actionability)
+          RETURN a, m.id AS mutationId, null AS indicationId
+          UNION
+          MATCH (m:Mutation)-[:HAS_THERAPEUTIC_ACTIONABILITY]->(a:TherapeuticActionability)-[:FOR_INDICATION]->(i:Indication)
+          RETURN a, m.id AS mutationId, i.id AS indicationId
+          `,
+          rec => ({
+            ...exportProps(rec.get('a').properties, 'id'),
+            mutationId: rec.get('mutationId'),
+            indicationId: rec.get('indicationId') ?? undefined
+          })
+        )).sort((a, b) => String(a.id).localeCompare(String(b.id))) as GraphBundle['actionability'];
+
+        bundle.companies = (await rows(
+          'companies',
+          'MATCH (c:Company) RETURN c ORDER BY c.id',
+          rec => exportProps(rec.get('c').properties, 'id')
+        )) as GraphBundle['companies'];
+
+        bundle.pipelineAssets = (await rows(
+          'pipelineAssets',
+          `
+          MATCH (a:PipelineAsset)
+          OPTIONAL MATCH (c:Company)-[:SPONSORS]->(a)
+          OPTIONAL MATCH (a)-[:TARGETS]->(m:Mutation)
+          OPTIONAL MATCH (a)-[:FOR_INDICATION]->(i:Indication)
+          WITH a, head(collect(DISTINCT c.id)) AS companyId,
+               collect(DISTINCT m.id) AS mutationIds, collect(DISTINCT i.id) AS indicationIds
+          RETURN a, companyId, mutationIds, indicationIds
+          ORDER BY a.id
+          `,
+          rec => ({
+            ...exportProps(rec.get('a').properties, 'id'),
+            companyId: rec.get('companyId'),
+            mutationIds: [...rec.get('mutationIds')].sort(),
+            indicationIds: [...rec.get('indicationIds')].sort()
+          })
+        )) as GraphBundle['pipelineAssets'];
+
+        bundle.clinicalTrials = (await rows(
+          'clinicalTrials',
+          `
+          MATCH (t:ClinicalTrial)
+          RETURN t,
+                 [(t)-[:FOR_INDICATION]->(i:Indication) | i.id] AS indicationIds,
+                 [(t)-[:FOR_MUTATION]->(m:Mutation) | m.id] AS mutationIds,
+                 [(t)-[:TESTS]->(th:Therapy) | th.id] AS therapyIds
+          ORDER BY t.id
+          `,
+          rec => ({
+            ...exportProps(rec.get('t').properties, 'id'),
+            indicationIds: [...rec.get('indicationIds')].sort(),
+            mutationIds: [...rec.get('mutationIds')].sort(),
+            therapyIds: [...rec.get('therapyIds')].sort()
+          })
+        )) as GraphBundle['clinicalTrials'];
+
+        return bundle;
+      });
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Imports a validated bundle. Records whose references resolve neither in
+   * the bundle nor in the graph are reported as errors; any error rolls the
+   * whole import back, as does a dry run.
+   */
+  async importBundle(bundle: GraphBundle, options: GraphBundleImportOptions = {}): Promise<GraphBundleImportResult> {
+    const session = this.driver.session();
+    const tx = session.beginTransaction();
+    try {
+      if (options.wipe) {
+        await tx.run('MATCH (n) WHERE NOT n:SchemaMigration DETACH DELETE n');
+      }
+
+      const errors: BundleError[] = [];
+      const changes = await this.upsertBundle(tx, bundle, errors);
+      const applied = errors.length === 0 && !options.dryRun;
+
+      if (applied) {
+        await tx.commit();
+      } else {
+        await tx.rollback();
+      }
+
+      const result = {
+        dryRun: !!options.dryRun,
+        wiped: !!options.wipe && applied,
+        applied,
+        changes,
+        totals: totalCounts(changes),
+        errors
+      };
+      if (applied) {
+        this.logger.log(`Imported graph bundle: ${JSON.stringify(result.totals)}${result.wiped ? ' (after wipe)' : ''}`);
+      }
+      return result;
+    } catch (error) {
+      if (tx.isOpen()) await tx.rollback();
+      throw error;
+    } finally {
+      await session.close();
+    }
+  }
+
+  private async upsertBundle(
+    tx: Transaction,
+    bundle: GraphBundle,
+    errors: BundleError[]
+  ): Promise<Record<GraphBundleSection, ImportCounts>> {
+    const changes = Object.fromEntries(
+      GRAPH_BUNDLE_SECTIONS.map(section => [section, emptyCounts()])
+    ) as Record<GraphBundleSection, ImportCounts>;
+
+    const exists = async (label: string, field: string, value: string) =>
+      (await tx.run(`MATCH (n:${label} {${field}: $value}) RETURN count(n) AS c`, { value })).records[0]
+        .get('c')
+        .toNumber() > 0;
+
+    // Checks that every referenced node exists, recording an error for the record otherwise
+    const resolve = async (
+      section: GraphBundleSection,
+      index: number,
+      record: Record<string, any>,
+      refs: [label: string, field: string, value: string | undefined][]
+    ) => {
+      let ok = true;
+      for (const [label, field, value] of refs) {
+        if (value !== undefined && !(await exists(label, field, value))) {
+          errors.push({ section, index, key: bundleKey(section, record), message: `${label} ${value} does not exist` });
+          ok = false;
+        }
+      }
+      return ok;
+    };
+
+    for (const region of bundle.regions) {
+      const props = nodeProps('regions', region);
+      const outcome = await classifyNode(tx, 'Region', { field: 'name', value: region.name }, props);
+      changes.regions[outcome]++;
+      if (outcome !== 'unchanged') {
+        await tx.run('MERGE (r:Region {name: $name}) SET r += $props', { name: region.name, props });
+      }
+    }
+
+    for (const indication of bundle.indications) {
+      const props = nodeProps('indications', indication);
+      const outcome = await classifyNode(tx, 'Indication', { field: 'id', value: indication.id }, props);
+      changes.indications[outcome]++;
+      if (outcome !== 'unchanged') {
+        await tx.run(`MERGE (i:Indication {id: $id}) SET i += $props, ${updatedStamp('i', PRESERVED_STAMP)}`, { id: indication.id, props });
+      }
+    }
+
+    for (const gene of bundle.genes) {
+      const props = nodeProps('genes', gene);
+      const outcome = await classifyNode(tx, 'Gene', { field: 'hugoSymbol', value: gene.hugoSymbol }, props);
+      changes.genes[outcome]++;
+      if (outcome !== 'unchanged') {
+        await tx.run(`
+          MERGE (g:Gene {hugoSymbol: $gene})
+          ON CREATE SET g.id = 'gene-' + toLower($gene), g.name = $gene
+          SET g += $props, ${updatedStamp('g', PRESERVED_STAMP)}
+        `, { gene: gene.hugoSymbol, props });
+      }
+    }
+
+    for (const [index, mutation] of bundle.mutations.entries()) {
+      const indicationIds = mutation.indicationIds ?? [];
+      const refs = indicationIds.map(id => ['Indication', 'id', id] as [string, string, string]);
+      if (!(await resolve('mutations', index, mutation, refs))) continue;
+
+      const props = nodeProps('mutations', mutation);
+      const outcome = await classifyNode(tx, 'Mutation', { field: 'id', value: mutation.id }, props, {
+        pattern: `
+          MATCH (n)
+          WHERE ($gene IS NULL OR EXISTS { (n)-[:IN_GENE]->(:Gene {hugoSymbol: $gene}) })
+            AND all(id IN $indicationIds WHERE EXISTS { (n)-[:ASSOCIATED_WITH]->(:Indication {id: id}) })
+        `,
+        params: { gene: mutation.gene ?? null, indicationIds }
+      });
+      changes.mutations[outcome]++;
+      if (outcome === 'unchanged') continue;
+
+      await tx.run(`
+        MERGE (m:Mutation {id: $id})
+        SET m += $props, ${updatedStamp('m', PRESERVED_STAMP)}
+        WITH m
+        CALL {
+          WITH m
+          WITH m WHERE $gene IS NOT NULL
+          MERGE (g:Gene {hugoSymbol: $gene})
+          ON CREATE SET g.id = 'gene-' + toLower($gene), g.name = $gene
+          MERGE (m)-[:IN_GENE]->(g)
+        }
+        WITH m
+        UNWIND $indicationIds AS indicationId
+        MATCH (i:Indication {id: indicationId})
+        MERGE (m)-[:ASSOCIATED_WITH]->(i)
+      `, { id: mutation.id, props, gene: mutation.gene ?? null, indicationIds });
+    }
+
+    for (const [section, label, rel] of [
+      ['therapies', 'Therapy', 'HAS_THERAPY'],
+      ['diagnostics', 'DiagnosticModality', 'HAS_DIAGNOSTIC']
+    ] as const) {
+      for (const [index, record] of bundle[section].entries()) {
+        const indicationIds = record.indicationIds ?? [];
+        const refs = indicationIds.map(id => ['Indication', 'id', id] as [string, string, string]);
+        if (!(await resolve(section, index, record, refs))) continue;
+
+        const props = nodeProps(section, record);
+        const outcome = await classifyNode(tx, label, { field: 'id', value: record.id }, props, {
+          pattern: `MATCH (n) WHERE all(id IN $indicationIds WHERE EXISTS { (:Indication {id: id})-[:${rel}]->(n) })`,
+          params: { indicationIds }
+        });
+        changes[section][outcome]++;
+        if (outcome === 'unchanged') continue;
+
+        await tx.run(`
+          MERGE (n:${label} {id: $id})
+          ${label === 'Therapy' ? `SET ${priceStamp('n', '$props.annualCostUSA')}` : ''}
+          SET n += $props, ${updatedStamp('n', PRESERVED_STAMP)}
+          WITH n
+          UNWIND $indicationIds AS indicationId
+          MATCH (i:Indication {id: indicationId})
+          MERGE (i)-[:${rel}]->(n)
+        `, { id: record.id, props, indicationIds });
+      }
+    }
+
+    for (const [index, epi] of bundle.epidemiology.entries()) {
+      const refs: [string, string, string][] = [['Indication', 'id', epi.indicationId], ['Region', 'name', epi.region]];
+      if (!(await resolve('epidemiology', index, epi, refs))) continue;
+
+      const props = nodeProps('epidemiology', epi);
+      const outcome = await classifyNode(tx, 'EpidemiologyMetric', { field: 'id', value: epi.id }, props);
+      changes.epidemiology[outcome]++;
+
+      if (outcome === 'updated') {
+        // Existing metrics are corrected in place and keep their current or historical link
+        await tx.run(
+          `MATCH (e:EpidemiologyMetric {id: $id}) SET e += $props, ${updatedStamp('e', PRESERVED_STAMP)}`,
+          { id: epi.id, props }
+        );
+      } else if (outcome === 'created' && epi.current === false) {
+        await tx.run(`
+          MATCH (i:Indication {id: $indicationId})
+          MATCH (r:Region {name: $region})
+          CREATE (e:EpidemiologyMetric {id: $id})
+          SET e += $props, ${updatedStamp('e', PRESERVED_STAMP)}
+          CREATE (i)-[:HAD_MEASUREMENT]->(e)
+          CREATE (e)-[:FOR_REGION]->(r)
+        `, { indicationId: epi.indicationId, region: epi.region, id: epi.id, props });
+      } else if (outcome === 'created') {
+        // A new current metric supersedes any current value for the same type and region
+        await tx.run(`
+          MATCH (i:Indication {id: $indicationId})
+          MATCH (r:Region {name: $region})
+          CREATE (e:EpidemiologyMetric {id: $id})
+          SET e += $props,
+              e.recordedAt = coalesce(e.recordedAt, toString(datetime())),
+              ${updatedStamp('e', PRESERVED_STAMP)}
+          CREATE (i)-[:MEASURED_BY]->(e)
+          CREATE (e)-[:FOR_REGION]->(r)
+          WITH i, e
+          OPTIONAL MATCH (i)-[old:MEASURED_BY]->(prev:EpidemiologyMetric {type: $type})-[:FOR_REGION]->(:Region {name: $region})
+          WHERE prev <> e
+          FOREACH (_ IN CASE WHEN prev IS NULL THEN [] ELSE [1] END |
+            DELETE old
+            CREATE (i)-[:HAD_MEASUREMENT]->(prev)
+            CREATE (e)-[:SUPERSEDES]->(prev)
+            SET prev.supersededAt = e.recordedAt
+          )
+        `, { indicationId: epi.indicationId, region: epi.region, type: epi.type, id: epi.id, props });
+      }
+    }
+
+    for (const [index, mp] of bundle.mutationPrevalence.entries()) {
+      const refs: [string, string, string][] = [
+        ['Mutation', 'id', mp.mutationId],
+        ['Indication', 'id', mp.indicationId],
+        ['Region', 'name', mp.region]
+      ];
+      if (!(await resolve('mutationPrevalence', index, mp, refs))) continue;
+
+      const props = nodeProps('mutationPrevalence', mp);
+      const params = { mutationId: mp.mutationId, indicationId: mp.indicationId, region: mp.region };
+      const outcome = await classifyNode(tx, 'MutationPrevalence', { field: 'id', value: mp.id }, props, {
+        pattern: `
+          MATCH (:Mutation {id: $mutationId})-[:HAS_PREVALENCE]->(n)-[:IN_INDICATION]->(:Indication {id: $indicationId}),
+                (n)-[:FOR_REGION]->(:Region {name: $region})
+        `,
+        params
+      });
+      changes.mutationPrevalence[outcome]++;
+      if (outcome === 'unchanged') continue;
+
+      await tx.run(`
+        MATCH (m:Mutation {id: $mutationId})
+        MATCH (i:Indication {id: $indicationId})
+        MATCH (r:Region {name: $region})
+        MERGE (p:MutationPrevalence {id: $id})
+        SET p += $props, ${updatedStamp('p', PRESERVED_STAMP)}
+        MERGE (m)-[:HAS_PREVALENCE]->(p)
+        MERGE (p)-[:IN_INDICATION]->(i)
+        MERGE (p)-[:FOR_REGION]->(r)
+      `, { id: mp.id, props, ...params });
+    }
+
+    for (const [index, act] of bundle.actionability.entries()) {
+      const refs: [string, string, string | undefined][] = [
+        ['Mutation', 'id', act.mutationId],
+        ['Indication', 'id', act.indicationId]
+      ];
+      if (!(await resolve('actionability', index, act, refs))) continue;
+
+      const props = nodeProps('actionability', act);
+      const params = { mutationId: act.mutationId, indicationId: act.indicationId ?? null };
+      const therapeutic = !!act.indicationId;
+      const label = therapeutic ? 'TherapeuticActionability' : 'Actionability';
+      const outcome = await classifyNode(tx, label, { field: 'id', value: act.id }, props, {
+        pattern: therapeutic
+          ? '(:Mutation {id: $mutationId})-[:HAS_THERAPEUTIC_ACTIONABILITY]->(n)-[:FOR_INDICATION]->(:Indication {id: $indicationId})'
+          : '(:Mutation {id: $mutationId})-[:HAS_ACTIONABILITY]->(n)',
+        params
+      });
+      changes.actionability[outcome]++;
+      if (outcome === 'unchanged') continue;
+
+      await tx.run(
+        therapeutic
+          ? `
+            MATCH (m:Mutation {id: $mutationId})
+            MATCH (i:Indication {id: $indicationId})
+            MERGE (a:TherapeuticActionability {id: $id})
+            SET a += $props, ${updatedStamp('a', PRESERVED_STAMP)}
+            MERGE (m)-[:HAS_THERAPEUTIC_ACTIONABILITY]->(a)
+            MERGE (a)-[:FOR_INDICATION]->(i)
+          `
+          : `
+            MATCH (m:Mutation {id: $mutationId})
+            MERGE (a:Actionability {id: $id})
+            SET a += $props, ${updatedStamp('a', PRESERVED_STAMP)}
+            MERGE (m)-[:HAS_ACTIONABILITY]->(a)
+          `,
+        { id: act.id, props, ...params }
+      );
+    }
+
+    for (const company of bundle.companies) {
+      const props = nodeProps('companies', company);
+      const outcome = await classifyNode(tx, 'Company', { field: 'id', value: company.id }, props);
+      changes.companies[outcome]++;
+      if (outcome !== 'unchanged') {
+        await tx.run(`MERGE (c:Company {id: $id}) SET c += $props, ${updatedStamp('c', PRESERVED_STAMP)}`, { id: company.id, props });
+      }
+    }
+
+    for (const [index, asset] of bundle.pipelineAssets.entries()) {
+      const mutationIds = asset.mutationIds ?? [];
+      const indicationIds = asset.indicationIds ?? [];
+      const refs: [string, string, string][] = [
+        ['Company', 'id', asset.companyId],
+        ...mutationIds.map(id => ['Mutation', 'id', id] as [string, string, string]),
+        ...indicationIds.map(id => ['Indication', 'id', id] as [string, string, string])
+      ];
+      if (!(await resolve('pipelineAssets', index, asset, refs))) continue;
+
+      const props = nodeProps('pipelineAssets', asset);
+      const params = { companyId: asset.companyId, mutationIds, indicationIds };
+      const outcome = await classifyNode(tx, 'PipelineAsset', { field: 'id', value: asset.id }, props, {
+        pattern: `
+          MATCH (n)
+          WHERE EXISTS { (:Company {id: $companyId})-[:SPONSORS]->(n) }
+            AND all(id IN $mutationIds WHERE EXISTS { (n)-[:TARGETS]->(:Mutation {id: id}) })
+            AND all(id IN $indicationIds WHERE EXISTS { (n)-[:FOR_INDICATION]->(:Indication {id: id}) })
+        `,
+        params
+      });
+      changes.pipelineAssets[outcome]++;
+      if (outcome === 'unchanged') continue;
+
+      await tx.run(`
+        MATCH (c:Company {id: $companyId})
+        MERGE (a:PipelineAsset {id: $id})
+        SET a += $props, ${updatedStamp('a', PRESERVED_STAMP)}
+        MERGE (c)-[:SPONSORS]->(a)
+        WITH a
+        CALL {
+          WITH a
+          UNWIND $mutationIds AS mutationId
+          MATCH (m:Mutation {id: mutationId})
+          MERGE (a)-[:TARGETS]->(m)
+        }
+        WITH a
+        UNWIND $indicationIds AS indicationId
+        MATCH (i:Indication {id: indicationId})
+        MERGE (a)-[:FOR_INDICATION]->(i)
+      `, { id: asset.id, props, ...params });
+    }
+
+    for (const [index, trial] of bundle.clinicalTrials.entries()) {
+      const indicationIds = trial.indicationIds ?? [];
+      const mutationIds = trial.mutationIds ?? [];
+      const therapyIds = trial.therapyIds ?? [];
+      const refs: [string, string, string][] = [
+        ...indicationIds.map(id => ['Indication', 'id', id] as [string, string, string]),
+        ...mutationIds.map(id => ['Mutation', 'id', id] as [string, string, string]),
+        ...therapyIds.map(id => ['Therapy', 'id', id] as [string, string, string])
+      ];
+      if (!(await resolve('clinicalTrials', index, trial, refs))) continue;
+
+      const props = nodeProps('clinicalTrials', trial);
+      const params = { indicationIds, mutationIds, therapyIds };
+      const outcome = await classifyNode(tx, 'ClinicalTrial', { field: 'id', value: trial.id }, props, {
+        pattern: `
+          MATCH (n)
+          WHERE all(id IN $indicationIds WHERE EXISTS { (n)-[:FOR_INDICATION]->(:Indication {id: id}) })
+            AND all(id IN $mutationIds WHERE EXISTS { (n)-[:FOR_MUTATION]->(:Mutation {id: id}) })
+            AND all(id IN $therapyIds WHERE EXISTS { (n)-[:TESTS]->(:Therapy {id: id}) })
+        `,
+        params
+      });
+      changes.clinicalTrials[outcome]++;
+      if (outcome === 'unchanged') continue;
+
+      await tx.run(`
+        MERGE (t:ClinicalTrial {id: $id})
+        SET t += $props, ${updatedStamp('t', PRESERVED_STAMP)}
+        WITH t
+        CALL {
+          WITH t
+          UNWIND $indicationIds AS indicationId
+          MATCH (i:Indication {id: indicationId})
+          MERGE (t)-[:FOR_INDICATION]->(i)
+        }
+        CALL {
+          WITH t
+          UNWIND $mutationIds AS mutationId
+          MATCH (m:Mutation {id: mutationId})
+          MERGE (t)-[:FOR_MUTATION]->(m)
+        }
+        WITH t
+        UNWIND $therapyIds AS therapyId
+        MATCH (th:Therapy {id: therapyId})
+        MERGE (t)-[:TESTS]->(th)
+      `, { id: trial.id, props, ...params });
+    }
+
+    return changes;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { IndicationResearchService, ResearchData, ResearchDataEpidemiology } from './indication-research.service';
+import { EpidemiologyService } from '../epidemiology/epidemiology.service';
+
+interface MetricNode {
+  props: Record<string, any>;
+  indicationId: string;
+  region: string;
+  current: boolean;
+}
+
+// Just enough of Neo4j, kept in memory: the statements an import issues for an indication and its epidemiology
+function memoryGraph() {
+  const indications = new Map<string, Record<string, any>>();
+  const regions = new Set(['United States', 'EU5']);
+  const metrics: MetricNode[] = [];
+
+  const record = (fields: Record<string, any>) => ({ get: (key: string) => fields[key] });
+  const count = (n: number) => ({ toNumber: () => n });
+  const currentMetrics = (indicationId: string, type: string, region: string) =>
+    metrics.filter(m => m.current && m.indicationId === indicationId && m.props.type === type && m.region === region);
+
+  const answer = (query: string, params: Record<string, any>) => {
+    if (query.includes('COUNT {')) {
+      const indication = indications.get(params.indicationId);
+      if (!indication) return [];
+      return [record({
+        i: { properties: indication },
+        mutations: count(0),
+        therapies: count(0),
+        epidemiologyMetrics: count(metrics.filter(m => m.current && m.indicationId === params.indicationId).length),
+        mutationPrevalence: count(0)
+      })];
+    }
+    if (query.startsWith('MATCH (n:Indication {id: $keyValue})')) {
+      const indication = indications.get(params.keyValue);
+      return indication ? [record({ n: { properties: indication }, linked: true })] : [];
+    }
+    if (query.startsWith('MERGE (i:Indication {id: $id})')) {
+      indications.set(params.id, { ...indications.get(params.id), ...params.props, id: params.id });
+      return [];
+    }
+    if (query.startsWith('MATCH (r:Region {name: $name}) RETURN r')) {
+      return regions.has(params.name) ? [record({ r: { properties: { name: params.name } } })] : [];
+    }
+    if (query.includes('OPTIONAL MATCH (own:EpidemiologyMetric {id: $id})')) {
+      const [current] = currentMetrics(params.indicationId, params.type, params.region);
+      return [record({
+        current: current ? { properties: current.props } : null,
+        ownExists: metrics.some(m => m.props.id === params.id)
+      })];
+    }
+    if (/^MATCH \(e:EpidemiologyMetric \{id: \$id\}\)\s+SET/.test(query)) {
+      const metric = metrics.find(m => m.props.id === params.id)!;
+      Object.assign(metric.props, params.props, params.stamp);
+      return [];
+    }
+    if (query.startsWith('MATCH (i:Indication {id: $indicationId})-[:MEASURED_BY]->(e:EpidemiologyMetric')) {
+      return currentMetrics(params.indicationId, params.type, params.region).map(m => record({ e: { properties: m.props } }));
+    }
+    if (query.includes('CREATE (e:EpidemiologyMetric {id: $id})')) {
+      // New metrics supersede the current one for their type and region
+      currentMetrics(params.indicationId, params.props.type, params.region).forEach(m => (m.current = false));
+      const props = { ...params.props, ...params.stamp, ...params.extraProps, id: params.id };
+      metrics.push({ props, indicationId: params.indicationId, region: params.region, current: true });
+      return [record({ e: { properties: props } })];
+    }
+    throw new Error(`Unexpected query: ${query}`);
+  };
+
+  const tx = {
+    run: async (query: string, params: Record<string, any> = {}) => ({ records: answer(query.trim(), params) })
+  };
+  const driver = {
+    session: () => ({
+      writeTransaction: (work: (t: typeof tx) => Promise<any>) => work(tx),
+      close: async () => undefined
+    })
+  };
+  return { driver, indications, metrics };
+}
+
+function epidemiology(overrides: Partial<ResearchDataEpidemiology> = {}): ResearchDataEpidemiology {
+  return {
+    id: 'epi-nsclc-inc-united-states',
+    indicationId: 'nsclc',
+    region: 'United States',
+    type: 'INCIDENCE',
+    value: 200000,
+    unit: 'cases/year',
+    year: 2023,
+    source: 'SEER',
+    sourceUrl: 'https://seer.cancer.gov/statfacts/html/lungb.html',
+    sourceDocumentId: null,
+    retrievedAt: '2026-10-01',
+    researchSource: 'seer',
+    placeholder: false,
+    ...overrides
+  };
+}
+
+function researchData(epi: ResearchDataEpidemiology[] = [epidemiology()]): ResearchData {
+  return {
+    indication: {
+      id: 'nsclc',
+      name: 'Non-Small Cell Lung Cancer',
+      aliases: ['NSCLC'],
+      oncotreeCode: 'NSCLC',
+      source: 'Deep_Research',
+      researchSources: ['seer']
+    },
+    mutations: [],
+    therapies: [],
+    epidemiology: epi,
+    mutationPrevalence: [],
+    sources: { mutations: [], therapies: [], epidemiology: [] }
+  };
+}
+
+describe('IndicationResearchService.importResearch', () => {
+  let graph: ReturnType<typeof memoryGraph>;
+  let service: IndicationResearchService;
+  const actor = { id: 'user-1', email: 'curator@example.com', role: 'curator' } as any;
+
+  beforeEach(() => {
+    graph = memoryGraph();
+    const audit = { record: jest.fn() };
+    const epidemiologyService = new EpidemiologyService(graph.driver as any, audit as any);
+    service = new IndicationResearchService(graph.driver as any, [], audit as any, epidemiologyService);
+  });
+
+  it('creates the indication and its metrics, then changes nothing when re-imported', async () => {
+    const first = await service.importResearch(researchData(), actor);
+    expect(first.totals).toEqual({ created: 2, updated: 0, unchanged: 0 });
+
+    const second = await service.importResearch(researchData(), actor);
+    expect(second.totals).toEqual({ created: 0, updated: 0, unchanged: 2 });
+    expect(graph.metrics).toHaveLength(1);
+  });
+
+  it('supersedes a changed value and treats a re-run of it as unchanged', async () => {
+    await service.importResearch(researchData(), actor);
+
+    const changed = await service.importResearch(researchData([epidemiology({ value: 210000 })]), actor);
+    expect(changed.changes.epidemiology).toEqual({ created: 0, updated: 1, unchanged: 0 });
+    const current = graph.metrics.filter(m => m.current);
+    expect(current).toHaveLength(1);
+    expect(current[0].props.value).toBe(210000);
+    expect(graph.metrics).toHaveLength(2);
+
+    // The current metric no longer carries the research id, yet the same data must not supersede it again
+    const rerun = await service.importResearch(researchData([epidemiology({ value: 210000 })]), actor);
+    expect(rerun.changes.epidemiology).toEqual({ created: 0, updated: 0, unchanged: 1 });
+    expect(graph.metrics).toHaveLength(2);
+  });
+
+  it('corrects provenance in place without recording a new value', async () => {
+    await service.importResearch(researchData(), actor);
+
+    const sourceUrl = 'https://seer.cancer.gov/statfacts/html/lung.html';
+    const result = await service.importResearch(researchData([epidemiology({ sourceUrl })]), actor);
+
+    expect(result.changes.epidemiology).toEqual({ created: 0, updated: 1, unchanged: 0 });
+    expect(graph.metrics).toHaveLength(1);
+    expect(graph.metrics[0].props.sourceUrl).toBe(sourceUrl);
+  });
+
+  it('stores a confidence on created metrics, low for placeholder values', async () => {
+    await service.importResearch(
+      researchData([epidemiology(), epidemiology({ id: 'epi-nsclc-inc-eu5', region: 'EU5', placeholder: true })]),
+      actor
+    );
+
+    expect(graph.metrics.map(m => m.props.confidence)).toEqual(['medium', 'low']);
+  });
+
+  it('rejects metrics for a region that does not exist', async () => {
+    await expect(
+      service.importResearch(researchData([epidemiology({ region: 'Atlantis' })]), actor)
+    ).rejects.toThrow('Region Atlantis does not exist');
+  });
+});
\ No newline at end of file
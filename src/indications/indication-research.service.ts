@@ -1,5 +1,128 @@
-import { Inject, Injectable } from '@nestjs/common';
-import { Driver, int } from 'neo4j-driver';
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import { Driver, Transaction } from 'neo4j-driver';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user.interface';
+import { today } from '../provenance/provenance';
+import { updatedStamp } from '../meta/freshness';
+import { classifyNode, emptyCounts, ImportCounts, ImportOutcome, sameValue, totalCounts } from '../neo4j/graph-upsert';
+import { EpidemiologyService } from '../epidemiology/epidemiology.service';
+import {
+  RESEARCH_SOURCES,
+  ResearchEpidemiology,
+  ResearchIndication,
+  ResearchSource,
+  ResearchTherapy
+} from './research-sources/research-source.interface';
+
+export type ResearchStage = 'mutations' | 'therapies' | 'epidemiology' | 'draft';
+
+export const RESEARCH_STAGES: ResearchStage[] = ['mutations', 'therapies', 'epidemiology', 'draft'];
+
+/** Per-source outcome of one research stage. */
+export interface StageSourceReport {
+  source: string;
+  found?: number;
+  error?: string;
+}
+
+/** Hooks a caller (e.g. the research job runner) can pass to follow deep research stage by stage. */
+export interface ResearchProgress {
+  onStageStart(stage: ResearchStage): Promise<void>;
+  onStageComplete(stage: ResearchStage, detail: Record<string, any>): Promise<void>;
+  // Throws to abort research before the next stage begins
+  checkCancelled(): Promise<void>;
+}
+
+export interface ResearchDataMutation {
+  id: string;
+  gene: string;
+  name: string;
+  alteration: string;
+  oncogenic: string;
+  source: string;
+  researchSource: string;
+  percentage: number | null;
+  placeholder: boolean;
+}
+
+/** Provenance captured at research time; the approving reviewer becomes the curator on import. */
+export interface ResearchDataCitation {
+  source: string;
+  sourceUrl: string | null;
+  sourceDocumentId: string | null;
+  retrievedAt: string;
+}
+
+export interface ResearchDataTherapy extends ResearchTherapy, ResearchDataCitation {
+  id: string;
+  researchSource: string;
+}
+
+export interface ResearchDataEpidemiology extends ResearchEpidemiology, ResearchDataCitation {
+  id: string;
+  indicationId: string;
+  researchSource: string;
+  placeholder: boolean;
+}
+
+export interface ResearchDataMutationPrevalence extends ResearchDataCitation {
+  id: string;
+  mutationId: string;
+  indicationId: string;
+  percentageOfPatients: number;
+  region: string;
+  researchSource: string;
+  year: number;
+  placeholder: boolean;
+}
+
+/** Graph-ready output of deep research, as staged in a review draft and imported on approval. */
+export interface ResearchData {
+  indication: {
+    id: string;
+    name: string;
+    aliases: string[];
+    oncotreeCode: string;
+    source: string;
+    researchSources: string[];
+  };
+  mutations: ResearchDataMutation[];
+  therapies: ResearchDataTherapy[];
+  epidemiology: ResearchDataEpidemiology[];
+  mutationPrevalence: ResearchDataMutationPrevalence[];
+  sources: Record<Exclude<ResearchStage, 'draft'>, StageSourceReport[]>;
+}
+
+/** Per node type outcome of a research import. */
+export type ImportChanges = Record<
+  'indication' | 'genes' | 'mutations' | 'therapies' | 'epidemiology' | 'mutationPrevalence',
+  ImportCounts
+>;
+
+// Citation properties compared on import; retrieval date and curator are stamped only when a fact is written
+function citationProps(item: Partial<ResearchDataCitation>) {
+  return {
+    source: item.source ?? null,
+    sourceUrl: item.sourceUrl ?? null,
+    sourceDocumentId: item.sourceDocumentId ?? null
+  };
+}
+
+// Fields that make a research metric a new value rather than a correction of the stored one
+const METRIC_VALUE_FIELDS = ['value', 'unit', 'year'] as const;
+
+// Sources give no confidence of their own; generic placeholder values are low confidence
+function researchConfidence(epi: ResearchDataEpidemiology): string {
+  return epi.placeholder ? 'low' : 'medium';
+}
+
+// Short metric-type segments used in deterministic epidemiology ids (epi-<indication>-<type>-<region>)
+const EPI_ID_SEGMENTS: Record<ResearchEpidemiology['type'], string> = {
+  PREVALENCE: 'prev',
+  INCIDENCE: 'inc',
+  FIVE_YEAR_SURVIVAL: 'surv',
+  MEDIAN_SURVIVAL_YEARS: 'median-surv'
+};
 
 // Comprehensive list of oncology indications for discovery
 const KNOWN_ONCOLOGY_INDICATIONS = [
@@ -80,7 +203,14 @@ const KNOWN_ONCOLOGY_INDICATIONS = [
 
 @Injectable()
 export class IndicationResearchService {
-  constructor(@Inject('NEO4J_DRIVER') private readonly driver: Driver) {}
+  private readonly logger = new Logger(IndicationResearchService.name);
+
+  constructor(
+    @Inject('NEO4J_DRIVER') private readonly driver: Driver,
+    @Inject(RESEARCH_SOURCES) private readonly researchSources: ResearchSource[],
+    private readonly auditService: AuditService,
+    private readonly epidemiologyService: EpidemiologyService
+  ) {}
 
   // Search for indications not in the database
   async searchNewIndications(query: string, limit: number = 10): Promise<any[]> {
@@ -126,54 +256,103 @@ export class IndicationResearchService {
     }
   }
 
-  // Conduct deep research on a new indication
-  async conductDeepResearch(indicationName: string): Promise<any> {
+  // Find an indication in the known list by name or alias
+  findKnownIndication(indicationName: string): ResearchIndication | null {
+    const needle = indicationName.toLowerCase();
+    return KNOWN_ONCOLOGY_INDICATIONS.find(
+      ind => ind.name.toLowerCase() === needle || ind.aliases.some(a => a.toLowerCase() === needle)
+    ) || null;
+  }
+
+  // Conduct deep research on a new indication, optionally reporting stage progress to the caller.
+  // Nothing is written to the graph; the result is staged as a draft for review.
+  async conductDeepResearch(indicationName: string, progress?: ResearchProgress): Promise<ResearchData> {
+    const indication = this.findKnownIndication(indicationName);
+    if (!indication) {
+      throw new BadRequestException(`Indication "${indicationName}" not found in known oncology indications`);
+    }
+    return this.generateIndicationResearchData(indication, progress);
+  }
+
+  // Write approved research data into the graph, recording what changed
+  async importResearch(data: ResearchData, actor?: AuthUser, details: Record<string, any> = {}) {
     const session = this.driver.session();
-    
     try {
-      // Find the indication in our known list
-      const indication = KNOWN_ONCOLOGY_INDICATIONS.find(
-        ind => ind.name.toLowerCase() === indicationName.toLowerCase() ||
-               ind.aliases.some(a => a.toLowerCase() === indicationName.toLowerCase())
-      );
-
-      if (!indication) {
-        throw new Error(`Indication "${indicationName}" not found in known oncology indications`);
-      }
+      // The whole import commits or rolls back as one unit
+      const { before, after, changes } = await session.writeTransaction(async tx => {
+        const before = await this.summarizeIndication(tx, data.indication.id);
+        const changes = await this.importResearchedIndication(tx, data, actor);
+        const after = await this.summarizeIndication(tx, data.indication.id);
+        return { before, after, changes };
+      });
 
-      // Generate research data based on indication type
-      const researchData = await this.generateIndicationResearchData(indication);
-      
-      // Import the researched data into Neo4j
-      await this.importResearchedIndication(session, researchData);
+      await this.auditService.record({
+        action: 'graph.indication.research_import',
+        actor,
+        targetIds: [
+          data.indication.id,
+          ...data.mutations.map(m => m.id),
+          ...data.therapies.map(t => t.id),
+          ...data.epidemiology.map(e => e.id),
+          ...data.mutationPrevalence.map(mp => mp.id)
+        ],
+        before,
+        after,
+        details: {
+          indicationName: data.indication.name,
+          source: data.indication.source,
+          sources: data.sources,
+          changes,
+          ...details
+        }
+      });
 
       return {
         success: true,
-        indication: indication.name,
+        indication: data.indication.name,
         summary: {
-          mutations: researchData.mutations.length,
-          therapies: researchData.therapies.length,
-          epidemiology: researchData.epidemiology.length,
-          mutationPrevalence: researchData.mutationPrevalence.length
-        }
+          mutations: data.mutations.length,
+          therapies: data.therapies.length,
+          epidemiology: data.epidemiology.length,
+          mutationPrevalence: data.mutationPrevalence.length
+        },
+        changes,
+        totals: totalCounts(changes)
       };
     } finally {
       await session.close();
     }
   }
 
-  private async generateIndicationResearchData(indication: { name: string; aliases: string[]; oncotree: string }) {
+  private async generateIndicationResearchData(
+    indication: ResearchIndication,
+    progress?: ResearchProgress
+  ): Promise<ResearchData> {
     const indicationId = `ind-${indication.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
     
-    // Try to fetch from OncoKB (will fallback to curated data)
-    let mutations = await this.fetchMutationsForIndication(indication);
-    let therapies = await this.fetchTherapiesForIndication(indication);
+    // Aggregate findings from every configured source, in priority order
+    const { mutations, therapies, epidemiologyFindings, sources } = await this.gatherFindings(indication, progress);
+    const retrievedAt = today();
     
-    // Generate epidemiology data
-    const epidemiology = this.generateEpidemiologyData(indicationId, indication.name);
+    const epidemiology = epidemiologyFindings.map(e => ({
+      id: `epi-${indicationId}-${EPI_ID_SEGMENTS[e.type]}-${e.region.toLowerCase()}`,
+      indicationId,
+      region: e.region,
+      type: e.type,
+      value: e.value,
+      unit: e.unit,
+      year: e.year,
+      ...this.citationFor(e.researchSource, retrievedAt),
+      researchSource: e.researchSource,
+      placeholder: !!e.placeholder
+    }));
     
-    // Generate mutation prevalence
-    const mutationPrevalence = this.generateMutationPrevalence(indicationId, mutations);
+    // Generate mutation prevalence for mutations whose frequency is known
+    const mutationPrevalence = this.generateMutationPrevalence(
+      indicationId,
+      mutations.filter(m => m.percentage !== null),
+      retrievedAt
+    );
 
     return {
       indication: {
@@ -181,269 +360,358 @@ export class IndicationResearchService {
         name: indication.name,
         aliases: indication.aliases,
         oncotreeCode: indication.oncotree,
-        source: 'Deep_Research'
+        source: 'Deep_Research',
+        researchSources: [
+          ...new Set([...mutations, ...therapies, ...epidemiologyFindings].map(f => f.researchSource as string))
+        ]
       },
       mutations,
-      therapies,
+      therapies: therapies.map(t => ({
+        id: this.therapyId(t.name),
+        ...t,
+        ...this.citationFor(t.researchSource, retrievedAt)
+      })),
       epidemiology,
-      mutationPrevalence
+      mutationPrevalence,
+      sources
     };
   }
 
-  private async fetchMutationsForIndication(indication: { name: string; aliases: string[]; oncotree: string }): Promise<any[]> {
-    // Curated mutation data by indication type
-    const mutationsByIndication: Record<string, Array<{ gene: string; alteration: string; percentage: number }>> = {
-      'Small Cell Lung Cancer': [
-        { gene: 'TP53', alteration: 'Mutation', percentage: 90 },
-        { gene: 'RB1', alteration: 'Mutation', percentage: 90 },
-        { gene: 'NOTCH1', alteration: 'Mutation', percentage: 25 },
-        { gene: 'MYC', alteration: 'Amplification', percentage: 20 },
-        { gene: 'PTEN', alteration: 'Mutation', percentage: 10 },
-      ],
-      'Triple Negative Breast Cancer': [
-        { gene: 'TP53', alteration: 'Mutation', percentage: 80 },
-        { gene: 'BRCA1', alteration: 'Oncogenic Mutation', percentage: 15 },
-        { gene: 'BRCA2', alteration: 'Oncogenic Mutation', percentage: 10 },
-        { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 10 },
-        { gene: 'PTEN', alteration: 'Mutation', percentage: 10 },
-      ],
-      'Hepatocellular Carcinoma': [
-        { gene: 'TP53', alteration: 'Mutation', percentage: 30 },
-        { gene: 'CTNNB1', alteration: 'Mutation', percentage: 30 },
-        { gene: 'TERT', alteration: 'Promoter Mutation', percentage: 60 },
-        { gene: 'ARID1A', alteration: 'Mutation', percentage: 10 },
-        { gene: 'AXIN1', alteration: 'Mutation', percentage: 10 },
-      ],
-      'Multiple Myeloma': [
-        { gene: 'KRAS', alteration: 'Oncogenic Mutation', percentage: 25 },
-        { gene: 'NRAS', alteration: 'Oncogenic Mutation', percentage: 20 },
-        { gene: 'BRAF', alteration: 'V600E', percentage: 4 },
-        { gene: 'TP53', alteration: 'Mutation', percentage: 10 },
-        { gene: 'DIS3', alteration: 'Mutation', percentage: 10 },
-      ],
-      'Chronic Lymphocytic Leukemia': [
-        { gene: 'TP53', alteration: 'Mutation', percentage: 10 },
-        { gene: 'ATM', alteration: 'Mutation', percentage: 15 },
-        { gene: 'SF3B1', alteration: 'Mutation', percentage: 15 },
-        { gene: 'NOTCH1', alteration: 'Mutation', percentage: 12 },
-        { gene: 'BIRC3', alteration: 'Mutation', percentage: 5 },
-      ],
-      'Diffuse Large B-Cell Lymphoma': [
-        { gene: 'MYD88', alteration: 'L265P', percentage: 30 },
-        { gene: 'CD79B', alteration: 'Mutation', percentage: 20 },
-        { gene: 'EZH2', alteration: 'Mutation', percentage: 20 },
-        { gene: 'BCL2', alteration: 'Translocation', percentage: 30 },
-        { gene: 'TP53', alteration: 'Mutation', percentage: 20 },
-      ],
-      'Head and Neck Cancer': [
-        { gene: 'TP53', alteration: 'Mutation', percentage: 70 },
-        { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 20 },
-        { gene: 'CDKN2A', alteration: 'Deletion', percentage: 25 },
-        { gene: 'EGFR', alteration: 'Amplification', percentage: 15 },
-        { gene: 'NOTCH1', alteration: 'Mutation', percentage: 15 },
-      ],
-      'Endometrial Cancer': [
-        { gene: 'PTEN', alteration: 'Mutation', percentage: 50 },
-        { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 40 },
-        { gene: 'TP53', alteration: 'Mutation', percentage: 30 },
-        { gene: 'KRAS', alteration: 'Oncogenic Mutation', percentage: 20 },
-        { gene: 'ARID1A', alteration: 'Mutation', percentage: 30 },
-        { gene: 'POLE', alteration: 'Mutation', percentage: 10 },
-      ],
-      'Cervical Cancer': [
-        { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 25 },
-        { gene: 'PTEN', alteration: 'Mutation', percentage: 10 },
-        { gene: 'TP53', alteration: 'Mutation', percentage: 5 },
-        { gene: 'KRAS', alteration: 'Oncogenic Mutation', percentage: 8 },
-        { gene: 'STK11', alteration: 'Mutation', percentage: 5 },
-      ],
-      'Esophageal Cancer': [
-        { gene: 'TP53', alteration: 'Mutation', percentage: 80 },
-        { gene: 'CDKN2A', alteration: 'Deletion', percentage: 30 },
-        { gene: 'ERBB2', alteration: 'Amplification', percentage: 20 },
-        { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 10 },
-        { gene: 'KRAS', alteration: 'Oncogenic Mutation', percentage: 5 },
-      ],
-    };
+  /**
+   * Queries the configured research sources stage by stage (mutations,
+   * therapies, epidemiology). Within a stage the first source to report a
+   * given mutation, therapy or (type, region) metric wins, so sources are
+   * listed highest priority first. A failing source is reported and skipped.
+   */
+  private async gatherFindings(indication: ResearchIndication, progress?: ResearchProgress) {
+    const mutationStage = await this.runStage('mutations', progress, s => s.fetchMutations?.(indication));
+    const mutations = new Map<string, ResearchDataMutation>();
+    for (const m of mutationStage.items) {
+      const id = `mut-${m.gene.toLowerCase()}-${m.alteration.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+      if (mutations.has(id)) continue;
+      mutations.set(id, {
+        id,
+        gene: m.gene,
+        name: `${m.gene} ${m.alteration}`,
+        alteration: m.alteration,
+        oncogenic: m.oncogenic || 'Oncogenic',
+        source: 'Deep_Research',
+        researchSource: m.researchSource,
+        percentage: m.percentage,
+        placeholder: !!m.placeholder
+      });
+    }
 
-    // Default mutations for unknown indications
-    const defaultMutations = [
-      { gene: 'TP53', alteration: 'Mutation', percentage: 40 },
-      { gene: 'KRAS', alteration: 'Oncogenic Mutation', percentage: 15 },
-      { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 10 },
-    ];
+    const therapyStage = await this.runStage('therapies', progress, s => s.fetchTherapies?.(indication));
+    const therapies = new Map<string, ResearchTherapy & { researchSource: string }>();
+    for (const t of therapyStage.items) {
+      if (!therapies.has(t.name.toLowerCase())) therapies.set(t.name.toLowerCase(), t);
+    }
 
-    const mutationData = mutationsByIndication[indication.name] || defaultMutations;
-    
-    return mutationData.map(m => ({
-      id: `mut-${m.gene.toLowerCase()}-${m.alteration.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
-      gene: m.gene,
-      name: `${m.gene} ${m.alteration}`,
-      alteration: m.alteration,
-      oncogenic: 'Oncogenic',
-      source: 'Deep_Research',
-      percentage: m.percentage
-    }));
-  }
+    const epidemiologyStage = await this.runStage('epidemiology', progress, s => s.fetchEpidemiology?.(indication));
+    const epidemiology = new Map<string, ResearchEpidemiology & { researchSource: string }>();
+    for (const e of epidemiologyStage.items) {
+      const key = `${e.type}:${e.region}`;
+      if (!epidemiology.has(key)) epidemiology.set(key, e);
+    }
 
-  private async fetchTherapiesForIndication(indication: { name: string; aliases: string[]; oncotree: string }): Promise<any[]> {
-    // Curated therapy data by indication
-    const therapiesByIndication: Record<string, Array<{ name: string; mechanism: string; targets: string[] }>> = {
-      'Small Cell Lung Cancer': [
-        { name: 'Lurbinectedin', mechanism: 'RNA Polymerase II Inhibitor', targets: [] },
-        { name: 'Topotecan', mechanism: 'Topoisomerase I Inhibitor', targets: ['TOP1'] },
-        { name: 'Atezolizumab', mechanism: 'PD-L1 Inhibitor', targets: ['CD274'] },
-        { name: 'Durvalumab', mechanism: 'PD-L1 Inhibitor', targets: ['CD274'] },
-      ],
-      'Triple Negative Breast Cancer': [
-        { name: 'Pembrolizumab', mechanism: 'PD-1 Inhibitor', targets: ['PDCD1'] },
-        { name: 'Sacituzumab Govitecan', mechanism: 'ADC (Trop-2)', targets: ['TACSTD2'] },
-        { name: 'Olaparib', mechanism: 'PARP Inhibitor', targets: ['PARP1', 'PARP2'] },
-        { name: 'Talazoparib', mechanism: 'PARP Inhibitor', targets: ['PARP1', 'PARP2'] },
-      ],
-      'Hepatocellular Carcinoma': [
-        { name: 'Sorafenib', mechanism: 'Multi-kinase Inhibitor', targets: ['RAF1', 'VEGFR2', 'KIT'] },
-        { name: 'Lenvatinib', mechanism: 'Multi-kinase Inhibitor', targets: ['VEGFR1', 'VEGFR2', 'FGFR1'] },
-        { name: 'Atezolizumab + Bevacizumab', mechanism: 'PD-L1 + VEGF Inhibitor', targets: ['CD274', 'VEGFA'] },
-        { name: 'Cabozantinib', mechanism: 'Multi-kinase Inhibitor', targets: ['MET', 'VEGFR2', 'AXL'] },
-      ],
-      'Multiple Myeloma': [
-        { name: 'Bortezomib', mechanism: 'Proteasome Inhibitor', targets: ['PSMB5'] },
-        { name: 'Lenalidomide', mechanism: 'Immunomodulator', targets: ['CRBN'] },
-        { name: 'Daratumumab', mechanism: 'CD38 Antibody', targets: ['CD38'] },
-        { name: 'Carfilzomib', mechanism: 'Proteasome Inhibitor', targets: ['PSMB5'] },
-        { name: 'Pomalidomide', mechanism: 'Immunomodulator', targets: ['CRBN'] },
-      ],
-      'Chronic Lymphocytic Leukemia': [
-        { name: 'Ibrutinib', mechanism: 'BTK Inhibitor', targets: ['BTK'] },
-        { name: 'Acalabrutinib', mechanism: 'BTK Inhibitor', targets: ['BTK'] },
-        { name: 'Venetoclax', mechanism: 'BCL-2 Inhibitor', targets: ['BCL2'] },
-        { name: 'Obinutuzumab', mechanism: 'CD20 Antibody', targets: ['MS4A1'] },
-      ],
+    return {
+      mutations: [...mutations.values()],
+      therapies: [...therapies.values()],
+      epidemiologyFindings: [...epidemiology.values()],
+      sources: {
+        mutations: mutationStage.sources,
+        therapies: therapyStage.sources,
+        epidemiology: epidemiologyStage.sources
+      }
     };
-
-    return therapiesByIndication[indication.name] || [];
   }
 
-  private generateEpidemiologyData(indicationId: string, indicationName: string): any[] {
-    // Estimated epidemiology based on indication type
-    const epiByIndication: Record<string, { prevalenceUSA: number; incidenceUSA: number; survival5yr: number }> = {
-      'Small Cell Lung Cancer': { prevalenceUSA: 35000, incidenceUSA: 30000, survival5yr: 7 },
-      'Triple Negative Breast Cancer': { prevalenceUSA: 200000, incidenceUSA: 45000, survival5yr: 77 },
-      'Hepatocellular Carcinoma': { prevalenceUSA: 90000, incidenceUSA: 42000, survival5yr: 20 },
-      'Multiple Myeloma': { prevalenceUSA: 150000, incidenceUSA: 35000, survival5yr: 55 },
-      'Chronic Lymphocytic Leukemia': { prevalenceUSA: 200000, incidenceUSA: 21000, survival5yr: 87 },
-      'Diffuse Large B-Cell Lymphoma': { prevalenceUSA: 100000, incidenceUSA: 25000, survival5yr: 64 },
-      'Head and Neck Cancer': { prevalenceUSA: 300000, incidenceUSA: 66000, survival5yr: 67 },
-      'Endometrial Cancer': { prevalenceUSA: 800000, incidenceUSA: 66000, survival5yr: 81 },
-      'Cervical Cancer': { prevalenceUSA: 280000, incidenceUSA: 14000, survival5yr: 66 },
-      'Esophageal Cancer': { prevalenceUSA: 50000, incidenceUSA: 21000, survival5yr: 20 },
-    };
+  // Run one research stage across all sources that implement it, reporting progress per stage
+  private async runStage<T>(
+    stage: ResearchStage,
+    progress: ResearchProgress | undefined,
+    fetch: (source: ResearchSource) => Promise<T[]> | undefined
+  ) {
+    await progress?.checkCancelled();
+    await progress?.onStageStart(stage);
 
-    const defaults = { prevalenceUSA: 50000, incidenceUSA: 10000, survival5yr: 50 };
-    const epi = epiByIndication[indicationName] || defaults;
-
-    return [
-      { id: `epi-${indicationId}-prev-usa`, indicationId, region: 'USA', type: 'PREVALENCE', value: epi.prevalenceUSA, unit: 'patients', year: 2024, source: 'Deep_Research' },
-      { id: `epi-${indicationId}-prev-eu`, indicationId, region: 'EU', type: 'PREVALENCE', value: Math.round(epi.prevalenceUSA * 1.2), unit: 'patients', year: 2024, source: 'Deep_Research' },
-      { id: `epi-${indicationId}-prev-apac`, indicationId, region: 'APAC', type: 'PREVALENCE', value: Math.round(epi.prevalenceUSA * 2), unit: 'patients', year: 2024, source: 'Deep_Research' },
-      { id: `epi-${indicationId}-inc-usa`, indicationId, region: 'USA', type: 'INCIDENCE', value: epi.incidenceUSA, unit: 'cases/year', year: 2024, source: 'Deep_Research' },
-      { id: `epi-${indicationId}-inc-eu`, indicationId, region: 'EU', type: 'INCIDENCE', value: Math.round(epi.incidenceUSA * 1.1), unit: 'cases/year', year: 2024, source: 'Deep_Research' },
-      { id: `epi-${indicationId}-inc-apac`, indicationId, region: 'APAC', type: 'INCIDENCE', value: Math.round(epi.incidenceUSA * 1.8), unit: 'cases/year', year: 2024, source: 'Deep_Research' },
-      { id: `epi-${indicationId}-surv-usa`, indicationId, region: 'USA', type: 'FIVE_YEAR_SURVIVAL', value: epi.survival5yr, unit: '%', year: 2024, source: 'Deep_Research' },
-    ];
+    const items: Array<T & { researchSource: string }> = [];
+    const sources: StageSourceReport[] = [];
+    for (const source of this.researchSources) {
+      try {
+        const pending = fetch(source);
+        if (!pending) continue;
+        const found = await pending;
+        items.push(...found.map(item => ({ ...item, researchSource: source.name })));
+        sources.push({ source: source.name, found: found.length });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Research source "${source.name}" failed during ${stage}: ${message}`);
+        sources.push({ source: source.name, error: message });
+      }
+    }
+
+    await progress?.onStageComplete(stage, { sources });
+    return { items, sources };
   }
 
-  private generateMutationPrevalence(indicationId: string, mutations: any[]): any[] {
+  private generateMutationPrevalence(
+    indicationId: string,
+    mutations: ResearchDataMutation[],
+    retrievedAt: string
+  ): ResearchDataMutationPrevalence[] {
     return mutations.map(m => ({
       id: `mp-${m.id}-${indicationId}`,
       mutationId: m.id,
       indicationId,
-      percentageOfPatients: m.percentage,
+      percentageOfPatients: m.percentage as number,
       region: 'GLOBAL',
-      source: 'Deep_Research',
-      year: 2024
+      ...this.citationFor(m.researchSource, retrievedAt),
+      researchSource: m.researchSource,
+      year: 2024,
+      placeholder: m.placeholder
     }));
   }
 
-  private async importResearchedIndication(session: any, data: any): Promise<void> {
-    // Create indication
-    await session.run(`
-      MERGE (i:Indication {id: $id})
-      SET i.name = $name,
-          i.aliases = $aliases,
-          i.oncotreeCode = $oncotreeCode,
-          i.source = $source
-    `, data.indication);
-
-    // Create mutations and link to genes
+  // Provenance fields for facts contributed by the named research source
+  private citationFor(researchSource: string, retrievedAt: string): ResearchDataCitation {
+    const citation = this.researchSources.find(s => s.name === researchSource)?.citation;
+    return {
+      source: citation?.source ?? researchSource,
+      sourceUrl: citation?.url ?? null,
+      sourceDocumentId: citation?.documentId ?? null,
+      retrievedAt
+    };
+  }
+
+  private therapyId(name: string) {
+    return `therapy-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+  }
+
+  // Snapshot of an indication's properties and attached node counts, used for audit before/after
+  private async summarizeIndication(tx: Transaction, indicationId: string): Promise<Record<string, any> | null> {
+    const res = await tx.run(`
+      MATCH (i:Indication {id: $indicationId})
+      RETURN i,
+             COUNT { (i)<-[:ASSOCIATED_WITH]-(:Mutation) } AS mutations,
+             COUNT { (i)-[:HAS_THERAPY]->(:Therapy) } AS therapies,
+             COUNT { (i)-[:MEASURED_BY]->(:EpidemiologyMetric) } AS epidemiologyMetrics,
+             COUNT { (i)<-[:IN_INDICATION]-(:MutationPrevalence) } AS mutationPrevalence
+    `, { indicationId });
+    if (res.records.length === 0) return null;
+    const rec = res.records[0];
+    return {
+      indication: rec.get('i').properties,
+      mutations: rec.get('mutations').toNumber(),
+      therapies: rec.get('therapies').toNumber(),
+      epidemiologyMetrics: rec.get('epidemiologyMetrics').toNumber(),
+      mutationPrevalence: rec.get('mutationPrevalence').toNumber()
+    };
+  }
+
+  /**
+   * Upserts research data by its deterministic ids inside the caller's
+   * transaction, so re-importing the same indication never duplicates nodes.
+   * Each node is snapshotted first to classify it as created, updated or
+   * unchanged; a node that gains its link to the indication counts as updated.
+   * Written facts are stamped with their retrieval date and the approving curator.
+   */
+  private async importResearchedIndication(
+    tx: Transaction,
+    data: ResearchData,
+    actor?: AuthUser
+  ): Promise<ImportChanges> {
+    const curatedBy = actor?.email ?? null;
+    const changes: ImportChanges = {
+      indication: emptyCounts(),
+      genes: emptyCounts(),
+      mutations: emptyCounts(),
+      therapies: emptyCounts(),
+      epidemiology: emptyCounts(),
+      mutationPrevalence: emptyCounts()
+    };
+    const indicationId = data.indication.id;
+
+    const indicationProps = {
+      name: data.indication.name,
+      aliases: data.indication.aliases,
+      oncotreeCode: data.indication.oncotreeCode,
+      source: data.indication.source,
+      researchSources: data.indication.researchSources
+    };
+    const indicationOutcome = await classifyNode(tx, 'Indication', { field: 'id', value: indicationId }, indicationProps);
+    changes.indication[indicationOutcome]++;
+    if (indicationOutcome !== 'unchanged') {
+      await tx.run(`
+        MERGE (i:Indication {id: $id})
+        SET i += $props, ${updatedStamp('i')}
+      `, { id: indicationId, props: indicationProps });
+    }
+
+    const genes = new Set<string>();
     for (const mut of data.mutations) {
-      await session.run(`
+      const props = {
+        name: mut.name,
+        gene: mut.gene,
+        alteration: mut.alteration,
+        oncogenic: mut.oncogenic,
+        source: mut.source,
+        researchSource: mut.researchSource
+      };
+      const outcome = await classifyNode(tx, 'Mutation', { field: 'id', value: mut.id }, props, {
+        pattern: '(n)-[:ASSOCIATED_WITH]->(:Indication {id: $indicationId})',
+        params: { indicationId }
+      });
+      changes.mutations[outcome]++;
+
+      if (!genes.has(mut.gene)) {
+        genes.add(mut.gene);
+        const geneRes = await tx.run('MATCH (g:Gene {hugoSymbol: $gene}) RETURN g', { gene: mut.gene });
+        changes.genes[geneRes.records.length > 0 ? 'unchanged' : 'created']++;
+      }
+
+      await tx.run(`
         MERGE (m:Mutation {id: $id})
-        SET m.name = $name,
-            m.gene = $gene,
-            m.alteration = $alteration,
-            m.oncogenic = $oncogenic,
-            m.source = $source
+        SET m += $props${outcome === 'unchanged' ? '' : `, ${updatedStamp('m')}`}
         MERGE (g:Gene {hugoSymbol: $gene})
-        ON CREATE SET g.id = 'gene-' + toLower($gene), g.name = $gene, g.source = 'Deep_Research'
+        ON CREATE SET g.id = 'gene-' + toLower($gene), g.name = $gene, g.source = 'Deep_Research', g.researchSource = $researchSource,
+                      ${updatedStamp('g')}
         MERGE (m)-[:IN_GENE]->(g)
         WITH m
         MATCH (i:Indication {id: $indicationId})
         MERGE (m)-[:ASSOCIATED_WITH]->(i)
-      `, { ...mut, indicationId: data.indication.id });
+      `, { id: mut.id, props, gene: mut.gene, researchSource: mut.researchSource, indicationId });
     }
 
-    // Create therapies
     for (const therapy of data.therapies) {
-      const therapyId = `therapy-${therapy.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
-      await session.run(`
+      const props = {
+        name: therapy.name,
+        mechanism: therapy.mechanism,
+        targets: therapy.targets,
+        approvalStatus: 'APPROVED',
+        researchSource: therapy.researchSource,
+        ...citationProps(therapy)
+      };
+      const outcome = await classifyNode(tx, 'Therapy', { field: 'id', value: therapy.id }, props, {
+        pattern: '(:Indication {id: $indicationId})-[:HAS_THERAPY]->(n)',
+        params: { indicationId }
+      });
+      changes.therapies[outcome]++;
+      if (outcome === 'unchanged') continue;
+
+      await tx.run(`
         MERGE (t:Therapy {id: $id})
-        SET t.name = $name,
-            t.mechanism = $mechanism,
-            t.targets = $targets,
-            t.approvalStatus = 'APPROVED',
-            t.source = 'Deep_Research'
+        SET t += $props, t += $stamp, ${updatedStamp('t')}
         WITH t
         MATCH (i:Indication {id: $indicationId})
         MERGE (i)-[:HAS_THERAPY]->(t)
-      `, { id: therapyId, ...therapy, indicationId: data.indication.id });
+      `, { id: therapy.id, props, stamp: { retrievedAt: therapy.retrievedAt ?? null, curatedBy }, indicationId });
     }
 
-    // Create epidemiology metrics
     for (const epi of data.epidemiology) {
-      await session.run(`
-        MATCH (i:Indication {id: $indicationId})
-        MATCH (r:Region {name: $region})
-        CREATE (e:EpidemiologyMetric {
-          id: $id,
-          type: $type,
-          value: $value,
-          unit: $unit,
-          year: $year,
-          source: $source
-        })
-        CREATE (i)-[:MEASURED_BY]->(e)
-        CREATE (e)-[:FOR_REGION]->(r)
-      `, epi);
+      const props = {
+        type: epi.type,
+        value: epi.value,
+        unit: epi.unit,
+        year: epi.year,
+        confidence: researchConfidence(epi),
+        researchSource: epi.researchSource,
+        ...citationProps(epi)
+      };
+      const stamp = { retrievedAt: epi.retrievedAt ?? null, curatedBy };
+
+      const region = await tx.run('MATCH (r:Region {name: $name}) RETURN r', { name: epi.region });
+      if (region.records.length === 0) {
+        throw new BadRequestException(`Region ${epi.region} does not exist (epidemiology metric ${epi.id})`);
+      }
+
+      // Compared with the current metric for the type and region, which a changed value moved off the research id
+      const existing = (await tx.run(`
+        OPTIONAL MATCH (:Indication {id: $indicationId})-[:MEASURED_BY]->(current:EpidemiologyMetric {type: $type})-[:FOR_REGION]->(:Region {name: $region})
+        OPTIONAL MATCH (own:EpidemiologyMetric {id: $id})
+        RETURN current, own IS NOT NULL AS ownExists
+      `, { indicationId, type: epi.type, region: epi.region, id: epi.id })).records[0];
+      const current = existing.get('current')?.properties ?? null;
+
+      let outcome: ImportOutcome;
+      if (current?.id === epi.id && METRIC_VALUE_FIELDS.every(field => sameValue(current[field], props[field]))) {
+        // Provenance-only corrections are made in place on the research metric
+        outcome = Object.entries(props).every(([field, value]) => sameValue(current[field], value)) ? 'unchanged' : 'updated';
+        if (outcome === 'updated') {
+          await tx.run(`
+            MATCH (e:EpidemiologyMetric {id: $id})
+            SET e += $props, e += $stamp, ${updatedStamp('e')}
+          `, { id: epi.id, props, stamp });
+        }
+      } else if (!current && !existing.get('ownExists')) {
+        outcome = 'created';
+        await tx.run(`
+          MATCH (i:Indication {id: $indicationId})
+          MATCH (r:Region {name: $region})
+          CREATE (e:EpidemiologyMetric {id: $id})
+          SET e += $props,
+              e += $stamp,
+              e.recordedAt = toString(datetime()),
+              ${updatedStamp('e')}
+          CREATE (i)-[:MEASURED_BY]->(e)
+          CREATE (e)-[:FOR_REGION]->(r)
+        `, { indicationId, region: epi.region, id: epi.id, props, stamp });
+      } else {
+        // A different value becomes the current metric and the previous one is kept as history
+        const { changed } = await this.epidemiologyService.writeMetric(
+          tx,
+          indicationId,
+          {
+            region: epi.region,
+            type: epi.type,
+            value: epi.value,
+            unit: epi.unit,
+            year: epi.year,
+            source: epi.source,
+            sourceUrl: epi.sourceUrl ?? undefined,
+            sourceDocumentId: epi.sourceDocumentId ?? undefined,
+            retrievedAt: epi.retrievedAt,
+            confidence: props.confidence
+          },
+          actor,
+          { researchSource: epi.researchSource }
+        );
+        outcome = !changed ? 'unchanged' : current ? 'updated' : 'created';
+      }
+      changes.epidemiology[outcome]++;
     }
 
-    // Create mutation prevalence
     for (const mp of data.mutationPrevalence) {
-      await session.run(`
+      const props = {
+        percentageOfPatients: mp.percentageOfPatients,
+        year: mp.year,
+        researchSource: mp.researchSource,
+        ...citationProps(mp)
+      };
+      const outcome = await classifyNode(tx, 'MutationPrevalence', { field: 'id', value: mp.id }, props);
+      changes.mutationPrevalence[outcome]++;
+      if (outcome === 'unchanged') continue;
+
+      await tx.run(`
         MATCH (m:Mutation {id: $mutationId})
         MATCH (i:Indication {id: $indicationId})
         MERGE (r:Region {name: $region})
-        CREATE (mpNode:MutationPrevalence {
-          id: $id,
-          percentageOfPatients: $percentageOfPatients,
-          year: $year,
-          source: $source
-        })
-        CREATE (m)-[:HAS_PREVALENCE]->(mpNode)
-        CREATE (mpNode)-[:IN_INDICATION]->(i)
-        CREATE (mpNode)-[:FOR_REGION]->(r)
-      `, mp);
+        MERGE (mpNode:MutationPrevalence {id: $id})
+        SET mpNode += $props, mpNode += $stamp, ${updatedStamp('mpNode')}
+        MERGE (m)-[:HAS_PREVALENCE]->(mpNode)
+        MERGE (mpNode)-[:IN_INDICATION]->(i)
+        MERGE (mpNode)-[:FOR_REGION]->(r)
+      `, {
+        id: mp.id,
+        mutationId: mp.mutationId,
+        indicationId,
+        region: mp.region,
+        props,
+        stamp: { retrievedAt: mp.retrievedAt ?? null, curatedBy }
+      });
     }
+
+    return changes;
   }
-}
+}
\ No newline at end of file
@@ -1,12 +1,23 @@
-import { Controller, Get, Post, Query, Body } from '@nestjs/common';
+import { Controller, Get, Post, HttpCode, Patch, Delete, Param, Query, Body } from '@nestjs/common';
 import { IndicationsService, IndicationSortBy, SortOrder } from './indications.service';
 import { IndicationResearchService } from './indication-research.service';
+import { ResearchJobsService } from './research-jobs.service';
+import { CreateIndicationDto, UpdateIndicationDto } from './indications.dto';
+import { CreateResearchJobDto } from './research-jobs.dto';
+import { Roles } from '../auth/roles.decorator';
+import { Scopes } from '../auth/scopes.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+import { csvFile, parseExportFormat, xlsxFile } from '../export/export-file';
+import { topIndicationsTable } from '../miipa/miipa-export';
 
 @Controller('indications')
+@Scopes('read:miipa')
 export class IndicationsController {
   constructor(
     private indicationsService: IndicationsService,
-    private indicationResearchService: IndicationResearchService
+    private indicationResearchService: IndicationResearchService,
+    private researchJobsService: ResearchJobsService
   ) {}
 
   @Get('top-prevalence')
@@ -14,15 +25,20 @@ export class IndicationsController {
     @Query('limit') limit = '10',
     @Query('regions') regionsParam = 'USA,EU,APAC',
     @Query('sortBy') sortBy: IndicationSortBy = 'prevalence',
-    @Query('sortOrder') sortOrder: SortOrder = 'desc'
+    @Query('sortOrder') sortOrder: SortOrder = 'desc',
+    @Query('format') format?: string
   ) {
+    const exportFormat = parseExportFormat(format, ['json', 'csv', 'xlsx']);
     const regions = regionsParam.split(',').filter(r => r.trim());
-    return this.indicationsService.getTopIndications(
+    const indications = await this.indicationsService.getTopIndications(
       Number(limit),
       regions,
       sortBy,
       sortOrder
     );
+    if (exportFormat === 'csv') return csvFile([topIndicationsTable(indications)], 'top-indications');
+    if (exportFormat === 'xlsx') return xlsxFile([topIndicationsTable(indications)], 'top-indications');
+    return indications;
   }
 
   @Get('search-new')
@@ -33,8 +49,44 @@ export class IndicationsController {
     return this.indicationResearchService.searchNewIndications(query, Number(limit));
   }
 
+  @Roles('admin')
+  @Scopes('write:research')
+  @HttpCode(202)
   @Post('add')
-  async addIndication(@Body() body: { indicationName: string }) {
-    return this.indicationResearchService.conductDeepResearch(body.indicationName);
+  async addIndication(@Body() body: CreateResearchJobDto, @CurrentUser() user: AuthUser) {
+    // Research runs in the background and ends in a review draft; poll /research/jobs/:jobId for progress
+    const job = await this.researchJobsService.enqueue(body.indicationName, user);
+    return { jobId: job.id, status: job.status };
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Post()
+  async createIndication(@Body() body: CreateIndicationDto, @CurrentUser() user: AuthUser) {
+    return this.indicationsService.createIndication(body, user);
+  }
+
+  // Parameterised routes are declared last so they do not shadow the static paths above
+  @Get(':id')
+  async getIndication(@Param('id') id: string) {
+    return this.indicationsService.getIndication(id);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Patch(':id')
+  async updateIndication(
+    @Param('id') id: string,
+    @Body() body: UpdateIndicationDto,
+    @CurrentUser() user: AuthUser
+  ) {
+    return this.indicationsService.updateIndication(id, body, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Delete(':id')
+  async deleteIndication(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.indicationsService.deleteIndication(id, user);
   }
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, IsArray, IsInt, IsOptional, IsString, Matches, MaxLength, Min, MinLength } from 'class-validator';
+
+/** Indication ids follow the `ind-<slug>` convention used by the seed and deep research. */
+export const INDICATION_ID_PATTERN = /^ind-[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const ONCOTREE_CODE_PATTERN = /^[A-Z0-9_]+$/;
+
+export class CreateIndicationDto {
+  @IsOptional()
+  @Matches(INDICATION_ID_PATTERN, { message: 'id must look like ind-<slug>' })
+  id?: string;
+
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  aliases?: string[];
+
+  @IsOptional()
+  @Matches(ONCOTREE_CODE_PATTERN, { message: 'oncotreeCode must be an upper-case OncoTree code' })
+  oncotreeCode?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  prevalenceRankUSA?: number;
+}
+
+export class UpdateIndicationDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  name?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  aliases?: string[];
+
+  @IsOptional()
+  @Matches(ONCOTREE_CODE_PATTERN, { message: 'oncotreeCode must be an upper-case OncoTree code' })
+  oncotreeCode?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  prevalenceRankUSA?: number;
+}
\ No newline at end of file
@@ -1,11 +1,21 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { IndicationsService } from './indications.service';
 import { IndicationResearchService } from './indication-research.service';
 import { IndicationsController } from './indications.controller';
+import { ResearchJobsService } from './research-jobs.service';
+import { ResearchJobsController } from './research-jobs.controller';
+import { ResearchJob } from './research-job.entity';
+import { ResearchDraftsService } from './research-drafts.service';
+import { ResearchDraftsController } from './research-drafts.controller';
+import { ResearchDraft } from './research-draft.entity';
+import { researchSourcesProvider } from './research-sources/research-sources.provider';
+import { EpidemiologyModule } from '../epidemiology/epidemiology.module';
 
 @Module({
-  providers: [IndicationsService, IndicationResearchService],
-  controllers: [IndicationsController],
+  imports: [TypeOrmModule.forFeature([ResearchJob, ResearchDraft]), EpidemiologyModule],
+  providers: [IndicationsService, IndicationResearchService, ResearchJobsService, ResearchDraftsService, researchSourcesProvider],
+  controllers: [IndicationsController, ResearchJobsController, ResearchDraftsController],
   exports: [IndicationsService, IndicationResearchService]
 })
 export class IndicationsModule {}
\ No newline at end of file
@@ -9,6 +9,8 @@
  * - Filter by USA, EU, APAC regions
  * - Sort by prevalence, incidence, or alphabetically
  * - Ascending/descending order support
+ * - Create, edit and delete indications (delete cascades to the indication's
+ *   own EpidemiologyMetric and MutationPrevalence nodes only)
  * 
  * Data validated against OncoKB (December 2024):
  * - 45 oncology indications
@@ -17,8 +19,12 @@
  * @module IndicationsService
  */
 
-import { Inject, Injectable } from '@nestjs/common';
+import { ConflictException, Inject, Injectable, NotFoundException } from '@nestjs/common';
 import { Driver, int } from 'neo4j-driver';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user.interface';
+import { updatedStamp } from '../meta/freshness';
+import { CreateIndicationDto, UpdateIndicationDto } from './indications.dto';
 
 /** Sort field options for indication listing */
 export type IndicationSortBy = 'prevalence' | 'incidence' | 'alphabetical';
@@ -32,8 +38,12 @@ export class IndicationsService {
    * Creates an instance of IndicationsService.
    * 
    * @param driver - Neo4j driver instance
+   * @param auditService - Audit log for graph writes
    */
-  constructor(@Inject('NEO4J_DRIVER') private readonly driver: Driver) {}
+  constructor(
+    @Inject('NEO4J_DRIVER') private readonly driver: Driver,
+    private readonly auditService: AuditService
+  ) {}
 
   /**
    * Retrieves indications with epidemiology data, sorted and filtered.
@@ -102,4 +112,198 @@ export class IndicationsService {
       await session.close();
     }
   }
+
+  /**
+   * Retrieves a single indication's properties.
+   *
+   * @param id - Indication id (e.g., 'ind-breast')
+   * @returns Indication properties
+   * @throws NotFoundException if the indication does not exist
+   */
+  async getIndication(id: string) {
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(tx =>
+        tx.run('MATCH (i:Indication {id: $id}) RETURN i', { id })
+      );
+      if (res.records.length === 0) throw new NotFoundException('Indication not found');
+      return res.records[0].get('i').properties;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Creates a new indication node.
+   *
+   * When no id is supplied one is derived from the name, matching the ids
+   * generated by deep research (`ind-<slug>`).
+   *
+   * @param dto - Validated indication fields
+   * @param actor - User performing the write, recorded in the audit log
+   * @returns The created indication's properties
+   * @throws ConflictException if the id or name is already in use
+   */
+  async createIndication(dto: CreateIndicationDto, actor?: AuthUser) {
+    const id = dto.id || `ind-${dto.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+    const session = this.driver.session();
+    try {
+      const created = await session.writeTransaction(async tx => {
+        const existing = await tx.run(
+          `
+          MATCH (i:Indication)
+          WHERE i.id = $id OR toLower(i.name) = toLower($name)
+          RETURN i.id AS id
+          LIMIT 1
+          `,
+          { id, name: dto.name }
+        );
+        if (existing.records.length > 0) {
+          throw new ConflictException(`Indication "${existing.records[0].get('id')}" already exists`);
+        }
+
+        const res = await tx.run(
+          `
+          CREATE (i:Indication {id: $id})
+          SET i += $props, ${updatedStamp('i')}
+          RETURN i
+          `,
+          { id, props: this.indicationProps(dto) }
+        );
+        return res.records[0].get('i').properties;
+      });
+
+      await this.auditService.record({
+        action: 'graph.indication.create',
+        actor,
+        targetIds: [id],
+        after: created
+      });
+      return created;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Updates the supplied fields of an indication; omitted fields are left unchanged.
+   *
+   * @param id - Indication id
+   * @param dto - Validated fields to change
+   * @param actor - User performing the write, recorded in the audit log
+   * @returns The updated indication's properties
+   * @throws NotFoundException if the indication does not exist
+   * @throws ConflictException if the new name is used by another indication
+   */
+  async updateIndication(id: string, dto: UpdateIndicationDto, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      const { before, after } = await session.writeTransaction(async tx => {
+        const current = await tx.run('MATCH (i:Indication {id: $id}) RETURN i', { id });
+        if (current.records.length === 0) throw new NotFoundException('Indication not found');
+
+        if (dto.name) {
+          const clash = await tx.run(
+            'MATCH (i:Indication) WHERE i.id <> $id AND toLower(i.name) = toLower($name) RETURN i.id AS id LIMIT 1',
+            { id, name: dto.name }
+          );
+          if (clash.records.length > 0) {
+            throw new ConflictException(`Indication "${clash.records[0].get('id')}" already uses this name`);
+          }
+        }
+
+        const res = await tx.run(
+          `
+          MATCH (i:Indication {id: $id})
+          SET i += $props, ${updatedStamp('i')}
+          RETURN i
+          `,
+          { id, props: this.indicationProps(dto) }
+        );
+        return {
+          before: current.records[0].get('i').properties,
+          after: res.records[0].get('i').properties
+        };
+      });
+
+      await this.auditService.record({
+        action: 'graph.indication.update',
+        actor,
+        targetIds: [id],
+        before,
+        after
+      });
+      return after;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Deletes an indication together with its own EpidemiologyMetric nodes
+   * (current and superseded) and MutationPrevalence nodes. Shared Mutation, Gene and Therapy nodes are
+   * kept; only their relationships to the indication are removed.
+   *
+   * @param id - Indication id
+   * @param actor - User performing the write, recorded in the audit log
+   * @returns Counts of deleted nodes
+   * @throws NotFoundException if the indication does not exist
+   */
+  async deleteIndication(id: string, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      const result = await session.writeTransaction(async tx => {
+        const current = await tx.run('MATCH (i:Indication {id: $id}) RETURN i', { id });
+        if (current.records.length === 0) throw new NotFoundException('Indication not found');
+
+        const res = await tx.run(
+          `
+          MATCH (i:Indication {id: $id})
+          OPTIONAL MATCH (i)-[:MEASURED_BY|HAD_MEASUREMENT]->(e:EpidemiologyMetric)
+          OPTIONAL MATCH (mp:MutationPrevalence)-[:IN_INDICATION]->(i)
+          WITH i, collect(DISTINCT e) AS epis, collect(DISTINCT mp) AS mps
+          WITH i, epis, mps,
+               [n IN epis | n.id] + [n IN mps | n.id] AS ownedIds,
+               size(epis) AS epidemiologyMetrics, size(mps) AS mutationPrevalence
+          FOREACH (n IN epis | DETACH DELETE n)
+          FOREACH (n IN mps | DETACH DELETE n)
+          DETACH DELETE i
+          RETURN ownedIds, epidemiologyMetrics, mutationPrevalence
+          `,
+          { id }
+        );
+        const rec = res.records[0];
+        return {
+          before: current.records[0].get('i').properties,
+          ownedIds: (rec.get('ownedIds') as (string | null)[]).filter((x): x is string => !!x),
+          deleted: {
+            indication: 1,
+            epidemiologyMetrics: rec.get('epidemiologyMetrics').toNumber(),
+            mutationPrevalence: rec.get('mutationPrevalence').toNumber()
+          }
+        };
+      });
+
+      await this.auditService.record({
+        action: 'graph.indication.delete',
+        actor,
+        targetIds: [id, ...result.ownedIds],
+        before: result.before,
+        details: { deleted: result.deleted }
+      });
+      return { id, deleted: result.deleted };
+    } finally {
+      await session.close();
+    }
+  }
+
+  // Only the fields the client actually sent, so PATCH leaves the rest untouched
+  private indicationProps(dto: CreateIndicationDto | UpdateIndicationDto) {
+    const props: Record<string, unknown> = {};
+    if (dto.name !== undefined) props.name = dto.name;
+    if (dto.aliases !== undefined) props.aliases = dto.aliases;
+    if (dto.oncotreeCode !== undefined) props.oncotreeCode = dto.oncotreeCode;
+    if (dto.prevalenceRankUSA !== undefined) props.prevalenceRankUSA = dto.prevalenceRankUSA;
+    return props;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { ResearchData } from './indication-research.service';
+
+export type ResearchDraftStatus = 'pending' | 'approved' | 'rejected';
+
+/** One field-level change a reviewer made to a draft before deciding on it. */
+export interface ResearchDraftEdit {
+  section: string;
+  itemId: string | null;
+  field: string | null;
+  from: any;
+  to: any;
+  removed?: boolean;
+  by: string | null;
+  at: string;
+}
+
+@Entity()
+export class ResearchDraft {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  indicationId: string;
+
+  @Column()
+  indicationName: string;
+
+  @Index()
+  @Column({ default: 'pending' })
+  status: ResearchDraftStatus;
+
+  @Column({ type: 'jsonb' })
+  data: ResearchData;
+
+  @Column({ type: 'jsonb', default: '[]' })
+  edits: ResearchDraftEdit[];
+
+  @Column({ type: 'uuid', nullable: true })
+  jobId: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  createdById: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  createdByEmail: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  reviewedById: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  reviewedByEmail: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  reviewedAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  reviewNote: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { Body, Controller, Get, HttpCode, Param, ParseUUIDPipe, Patch, Post, Query } from '@nestjs/common';
+import { IsIn, IsOptional } from 'class-validator';
+import { ResearchDraftsService } from './research-drafts.service';
+import { ResearchDraftStatus } from './research-draft.entity';
+import { EditResearchDraftDto, ReviewResearchDraftDto } from './research-drafts.dto';
+import { Roles } from '../auth/roles.decorator';
+import { Scopes } from '../auth/scopes.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+
+const DRAFT_STATUSES: ResearchDraftStatus[] = ['pending', 'approved', 'rejected'];
+
+class ListResearchDraftsDto {
+  @IsOptional()
+  @IsIn(DRAFT_STATUSES)
+  status?: ResearchDraftStatus;
+}
+
+@Controller('research/drafts')
+@Roles('admin')
+@Scopes('write:research')
+export class ResearchDraftsController {
+  constructor(private researchDraftsService: ResearchDraftsService) {}
+
+  @Get()
+  list(@Query() query: ListResearchDraftsDto) {
+    return this.researchDraftsService.list(query.status);
+  }
+
+  @Get(':id')
+  get(@Param('id', ParseUUIDPipe) id: string) {
+    return this.researchDraftsService.get(id);
+  }
+
+  @Get(':id/diff')
+  diff(@Param('id', ParseUUIDPipe) id: string) {
+    return this.researchDraftsService.diff(id);
+  }
+
+  @Patch(':id')
+  edit(@Param('id', ParseUUIDPipe) id: string, @Body() body: EditResearchDraftDto, @CurrentUser() user: AuthUser) {
+    return this.researchDraftsService.edit(id, body.edits, user);
+  }
+
+  // Approval imports the draft into the live graph
+  @Scopes('write:graph')
+  @HttpCode(200)
+  @Post(':id/approve')
+  approve(@Param('id', ParseUUIDPipe) id: string, @Body() body: ReviewResearchDraftDto, @CurrentUser() user: AuthUser) {
+    return this.researchDraftsService.approve(id, body, user);
+  }
+
+  @HttpCode(200)
+  @Post(':id/reject')
+  reject(@Param('id', ParseUUIDPipe) id: string, @Body() body: ReviewResearchDraftDto, @CurrentUser() user: AuthUser) {
+    return this.researchDraftsService.reject(id, body, user);
+  }
+}
\ No newline at end of file
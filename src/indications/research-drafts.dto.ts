@@ -0,0 +1,71 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDefined,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+  ValidateNested
+} from 'class-validator';
+
+export const DRAFT_SECTIONS = ['indication', 'mutations', 'therapies', 'epidemiology', 'mutationPrevalence'] as const;
+
+export type DraftSection = (typeof DRAFT_SECTIONS)[number];
+
+/** Fields a reviewer may change per draft section; ids and provenance stay as researched. */
+export const EDITABLE_DRAFT_FIELDS: Record<DraftSection, string[]> = {
+  indication: ['name', 'aliases', 'oncotreeCode'],
+  mutations: ['name', 'oncogenic'],
+  therapies: ['mechanism', 'targets'],
+  epidemiology: ['value', 'unit', 'year'],
+  mutationPrevalence: ['percentageOfPatients', 'year']
+};
+
+export class DraftEditDto {
+  @IsIn(DRAFT_SECTIONS)
+  section: DraftSection;
+
+  // Id of the item within a list section; not used for the indication itself
+  @ValidateIf(o => o.section !== 'indication')
+  @IsString()
+  itemId?: string;
+
+  @ValidateIf(o => !o.remove)
+  @IsString()
+  field?: string;
+
+  @ValidateIf(o => !o.remove)
+  @IsDefined()
+  value?: any;
+
+  // Drops the item from the draft instead of editing a field
+  @IsOptional()
+  @IsBoolean()
+  remove?: boolean;
+}
+
+export class EditResearchDraftDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => DraftEditDto)
+  edits: DraftEditDto[];
+}
+
+export class ReviewResearchDraftDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+
+  // Approving a draft that still holds generic placeholder values must be explicit
+  @IsOptional()
+  @IsBoolean()
+  acceptPlaceholders?: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,319 @@
+import { BadRequestException, ConflictException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Driver, isInt } from 'neo4j-driver';
+import { Repository } from 'typeorm';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user.interface';
+import { IndicationResearchService, ResearchData } from './indication-research.service';
+import { ResearchDraft, ResearchDraftEdit, ResearchDraftStatus } from './research-draft.entity';
+import { DraftEditDto, DraftSection, EDITABLE_DRAFT_FIELDS, ReviewResearchDraftDto } from './research-drafts.dto';
+
+type ListSection = Exclude<DraftSection, 'indication'>;
+
+// Fields compared against the live graph when diffing each draft section
+const COMPARED_FIELDS: Record<DraftSection, string[]> = {
+  indication: ['name', 'aliases', 'oncotreeCode'],
+  mutations: ['name', 'gene', 'alteration', 'oncogenic'],
+  therapies: ['name', 'mechanism', 'targets', 'source', 'sourceUrl'],
+  epidemiology: ['value', 'unit', 'year', 'source', 'sourceUrl'],
+  mutationPrevalence: ['percentageOfPatients', 'year', 'source', 'sourceUrl']
+};
+
+export interface DraftFieldChange {
+  field: string;
+  current: any;
+  proposed: any;
+}
+
+export interface DraftItemDiff {
+  id: string;
+  status: 'added' | 'changed' | 'unchanged';
+  changes: DraftFieldChange[];
+  placeholder?: boolean;
+}
+
+function plain(props: Record<string, any> | null | undefined): Record<string, any> | null {
+  if (!props) return null;
+  return Object.fromEntries(Object.entries(props).map(([k, v]) => [k, isInt(v) ? v.toNumber() : v]));
+}
+
+/**
+ * Review queue for deep-research output. Research lands here as a pending
+ * draft; an admin can diff it against the live graph, edit fields or drop
+ * items, and then approve (importing it into Neo4j) or reject it.
+ */
+@Injectable()
+export class ResearchDraftsService {
+  constructor(
+    @InjectRepository(ResearchDraft) private repo: Repository<ResearchDraft>,
+    @Inject('NEO4J_DRIVER') private readonly driver: Driver,
+    private researchService: IndicationResearchService,
+    private auditService: AuditService
+  ) {}
+
+  create(data: ResearchData, jobId: string | null, requestedBy?: Pick<AuthUser, 'id' | 'email'>) {
+    return this.repo.save(
+      this.repo.create({
+        indicationId: data.indication.id,
+        indicationName: data.indication.name,
+        status: 'pending',
+        data,
+        edits: [],
+        jobId,
+        createdById: requestedBy?.id ?? null,
+        createdByEmail: requestedBy?.email ?? null
+      })
+    );
+  }
+
+  async list(status?: ResearchDraftStatus, limit = 50) {
+    const drafts = await this.repo.find({
+      where: status ? { status } : {},
+      order: { createdAt: 'DESC' },
+      take: limit
+    });
+    return drafts.map(({ data, edits, ...draft }) => ({
+      ...draft,
+      summary: this.summarize(data),
+      edits: edits.length
+    }));
+  }
+
+  async get(id: string) {
+    const draft = await this.repo.findOne({ where: { id } });
+    if (!draft) throw new NotFoundException('Research draft not found');
+    return draft;
+  }
+
+  // Compare every draft item with what the live graph currently holds
+  async diff(id: string) {
+    const draft = await this.get(id);
+    const data = draft.data;
+    const session = this.driver.session();
+    try {
+      const indicationRes = await session.run(`MATCH (i:Indication {id: $id}) RETURN i`, { id: data.indication.id });
+      const currentIndication = plain(indicationRes.records[0]?.get('i').properties);
+
+      const mutationRes = await session.run(
+        `MATCH (m:Mutation) WHERE m.id IN $ids RETURN m`,
+        { ids: data.mutations.map(m => m.id) }
+      );
+      const currentMutations = new Map(
+        mutationRes.records.map(r => [r.get('m').properties.id as string, plain(r.get('m').properties)])
+      );
+
+      const therapyRes = await session.run(
+        `MATCH (t:Therapy) WHERE t.id IN $ids RETURN t`,
+        { ids: data.therapies.map(t => t.id) }
+      );
+      const currentTherapies = new Map(
+        therapyRes.records.map(r => [r.get('t').properties.id as string, plain(r.get('t').properties)])
+      );
+
+      // Metrics are matched by type and region, since existing ones may predate deterministic ids
+      const epiRes = await session.run(`
+        MATCH (:Indication {id: $id})-[:MEASURED_BY]->(e:EpidemiologyMetric)-[:FOR_REGION]->(r:Region)
+        RETURN e, r.name AS region
+      `, { id: data.indication.id });
+      const currentEpidemiology = new Map(
+        epiRes.records.map(r => [`${r.get('e').properties.type}:${r.get('region')}`, plain(r.get('e').properties)])
+      );
+
+      const mpRes = await session.run(`
+        MATCH (m:Mutation)-[:HAS_PREVALENCE]->(mp:MutationPrevalence)-[:IN_INDICATION]->(:Indication {id: $id})
+        MATCH (mp)-[:FOR_REGION]->(r:Region)
+        RETURN m.id AS mutationId, mp, r.name AS region
+      `, { id: data.indication.id });
+      const currentPrevalence = new Map(
+        mpRes.records.map(r => [`${r.get('mutationId')}:${r.get('region')}`, plain(r.get('mp').properties)])
+      );
+
+      const sections = {
+        indication: this.diffItem('indication', data.indication.id, data.indication, currentIndication),
+        mutations: data.mutations.map(m =>
+          this.diffItem('mutations', m.id, m, currentMutations.get(m.id) ?? null, m.placeholder)
+        ),
+        therapies: data.therapies.map(t =>
+          this.diffItem('therapies', t.id, t, currentTherapies.get(t.id) ?? null)
+        ),
+        epidemiology: data.epidemiology.map(e =>
+          this.diffItem('epidemiology', e.id, e, currentEpidemiology.get(`${e.type}:${e.region}`) ?? null, e.placeholder)
+        ),
+        mutationPrevalence: data.mutationPrevalence.map(mp =>
+          this.diffItem(
+            'mutationPrevalence',
+            mp.id,
+            mp,
+            currentPrevalence.get(`${mp.mutationId}:${mp.region}`) ?? null,
+            mp.placeholder
+          )
+        )
+      };
+
+      const items = [sections.indication, ...sections.mutations, ...sections.therapies, ...sections.epidemiology, ...sections.mutationPrevalence];
+      return {
+        draftId: draft.id,
+        status: draft.status,
+        indicationId: data.indication.id,
+        totals: {
+          added: items.filter(i => i.status === 'added').length,
+          changed: items.filter(i => i.status === 'changed').length,
+          unchanged: items.filter(i => i.status === 'unchanged').length,
+          placeholders: items.filter(i => i.placeholder).length
+        },
+        sections
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  // Apply reviewer edits to a pending draft; each edit is kept in the draft's edit log
+  async edit(id: string, edits: DraftEditDto[], actor: AuthUser) {
+    const draft = await this.requirePending(id);
+    const data = draft.data;
+    const log: ResearchDraftEdit[] = [];
+    const at = new Date().toISOString();
+
+    for (const edit of edits) {
+      if (edit.section === 'indication') {
+        if (edit.remove) throw new BadRequestException('The indication itself cannot be removed; reject the draft instead');
+        const from = this.setField('indication', data.indication, edit.field as string, edit.value);
+        log.push({ section: 'indication', itemId: null, field: edit.field as string, from, to: edit.value, by: actor.email, at });
+        continue;
+      }
+
+      const items: Array<Record<string, any>> = data[edit.section as ListSection];
+      const index = items.findIndex(item => item.id === edit.itemId);
+      if (index === -1) throw new BadRequestException(`No ${edit.section} item "${edit.itemId}" in this draft`);
+
+      if (edit.remove) {
+        const [removed] = items.splice(index, 1);
+        // Prevalence rows cannot outlive the mutation they describe
+        if (edit.section === 'mutations') {
+          data.mutationPrevalence = data.mutationPrevalence.filter(mp => mp.mutationId !== removed.id);
+        }
+        log.push({ section: edit.section, itemId: removed.id, field: null, from: removed, to: null, removed: true, by: actor.email, at });
+        continue;
+      }
+
+      const item = items[index];
+      const from = this.setField(edit.section, item, edit.field as string, edit.value);
+      // A reviewed value is no longer a generic placeholder
+      if (item.placeholder) item.placeholder = false;
+      log.push({ section: edit.section, itemId: item.id, field: edit.field as string, from, to: edit.value, by: actor.email, at });
+    }
+
+    const res = await this.repo.update({ id, status: 'pending' }, { data, edits: [...draft.edits, ...log] });
+    if (!res.affected) throw new ConflictException('Research draft was reviewed while it was being edited');
+    return this.get(id);
+  }
+
+  async approve(id: string, dto: ReviewResearchDraftDto, actor: AuthUser) {
+    const draft = await this.requirePending(id);
+    const placeholders = this.summarize(draft.data).placeholders;
+    if (placeholders > 0 && !dto.acceptPlaceholders) {
+      throw new BadRequestException(
+        `Draft still contains ${placeholders} placeholder value(s); edit or remove them, or pass acceptPlaceholders`
+      );
+    }
+
+    // Claim the draft first so two reviewers cannot import it twice
+    await this.decide(id, 'approved', dto.note, actor);
+    try {
+      const result = await this.researchService.importResearch(draft.data, actor, {
+        draftId: draft.id,
+        jobId: draft.jobId,
+        reviewNote: dto.note ?? null,
+        acceptedPlaceholders: placeholders
+      });
+      return { draft: await this.get(id), ...result };
+    } catch (error) {
+      await this.repo.update(
+        { id },
+        { status: 'pending', reviewedById: null, reviewedByEmail: null, reviewedAt: null, reviewNote: null }
+      );
+      throw error;
+    }
+  }
+
+  async reject(id: string, dto: ReviewResearchDraftDto, actor: AuthUser) {
+    const draft = await this.requirePending(id);
+    await this.decide(id, 'rejected', dto.note, actor);
+    await this.auditService.record({
+      action: 'research.draft.reject',
+      actor,
+      targetIds: [draft.id, draft.indicationId],
+      details: { indicationName: draft.indicationName, jobId: draft.jobId, reviewNote: dto.note ?? null }
+    });
+    return this.get(id);
+  }
+
+  private async decide(id: string, status: ResearchDraftStatus, note: string | undefined, actor: AuthUser) {
+    const res = await this.repo.update(
+      { id, status: 'pending' },
+      { status, reviewedById: actor.id, reviewedByEmail: actor.email, reviewedAt: new Date(), reviewNote: note ?? null }
+    );
+    if (!res.affected) throw new ConflictException('Research draft has already been reviewed');
+  }
+
+  private async requirePending(id: string) {
+    const draft = await this.get(id);
+    if (draft.status !== 'pending') throw new ConflictException(`Research draft is already ${draft.status}`);
+    return draft;
+  }
+
+  // Set one whitelisted field after checking the new value has the same shape as the old one
+  private setField(section: DraftSection, item: Record<string, any>, field: string, value: any) {
+    if (!EDITABLE_DRAFT_FIELDS[section].includes(field)) {
+      throw new BadRequestException(
+        `${section}.${field} is not editable; editable fields are ${EDITABLE_DRAFT_FIELDS[section].join(', ')}`
+      );
+    }
+    const current = item[field];
+    if (Array.isArray(current)) {
+      if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+        throw new BadRequestException(`${section}.${field} must be an array of strings`);
+      }
+    } else if (typeof current === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new BadRequestException(`${section}.${field} must be a non-negative number`);
+      }
+      if (field === 'percentageOfPatients' && value > 100) {
+        throw new BadRequestException(`${section}.${field} must be a percentage between 0 and 100`);
+      }
+    } else if (typeof value !== 'string' || !value.trim()) {
+      throw new BadRequestException(`${section}.${field} must be a non-empty string`);
+    }
+    item[field] = value;
+    return current;
+  }
+
+  private diffItem(
+    section: DraftSection,
+    id: string,
+    proposed: Record<string, any>,
+    current: Record<string, any> | null,
+    placeholder?: boolean
+  ): DraftItemDiff {
+    const changes = COMPARED_FIELDS[section]
+      .filter(field => !current || JSON.stringify(current[field] ?? null) !== JSON.stringify(proposed[field] ?? null))
+      .map(field => ({ field, current: current?.[field] ?? null, proposed: proposed[field] ?? null }));
+    return {
+      id,
+      status: !current ? 'added' : changes.length ? 'changed' : 'unchanged',
+      changes,
+      ...(placeholder ? { placeholder } : {})
+    };
+  }
+
+  private summarize(data: ResearchData) {
+    return {
+      mutations: data.mutations.length,
+      therapies: data.therapies.length,
+      epidemiology: data.epidemiology.length,
+      mutationPrevalence: data.mutationPrevalence.length,
+      placeholders: [...data.mutations, ...data.epidemiology, ...data.mutationPrevalence].filter(i => i.placeholder).length
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { ResearchStage, StageSourceReport } from './indication-research.service';
+
+export type ResearchJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type ResearchStageStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ResearchStageState {
+  status: ResearchStageStatus;
+  startedAt: string | null;
+  finishedAt: string | null;
+  detail?: Record<string, any>;
+}
+
+/** Outcome of a succeeded job: the review draft it produced and what went into it. */
+export interface ResearchJobResult {
+  draftId: string;
+  indication: string;
+  summary: Record<'mutations' | 'therapies' | 'epidemiology' | 'mutationPrevalence', number>;
+  sources: Record<string, StageSourceReport[]>;
+}
+
+@Entity()
+export class ResearchJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  indicationName: string;
+
+  @Index()
+  @Column({ default: 'queued' })
+  status: ResearchJobStatus;
+
+  @Column({ type: 'jsonb' })
+  stages: Record<ResearchStage, ResearchStageState>;
+
+  @Column({ type: 'jsonb', nullable: true })
+  result: ResearchJobResult | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  // Running jobs stop at the next stage boundary once this is set
+  @Column({ default: false })
+  cancelRequested: boolean;
+
+  @Column({ type: 'varchar', nullable: true })
+  requestedById: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  requestedByEmail: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  finishedAt: Date | null;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
\ No newline at end of file
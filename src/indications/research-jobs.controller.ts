@@ -0,0 +1,42 @@
+import { Body, Controller, Get, HttpCode, Param, ParseUUIDPipe, Post, Query } from '@nestjs/common';
+import { ResearchJobsService } from './research-jobs.service';
+import { CreateResearchJobDto, ListResearchJobsDto } from './research-jobs.dto';
+import { Roles } from '../auth/roles.decorator';
+import { Scopes } from '../auth/scopes.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+
+@Controller('research/jobs')
+@Roles('admin')
+@Scopes('write:research')
+export class ResearchJobsController {
+  constructor(private researchJobsService: ResearchJobsService) {}
+
+  @HttpCode(202)
+  @Post()
+  enqueue(@Body() body: CreateResearchJobDto, @CurrentUser() user: AuthUser) {
+    return this.researchJobsService.enqueue(body.indicationName, user);
+  }
+
+  @Get()
+  list(@Query() query: ListResearchJobsDto) {
+    return this.researchJobsService.list(query.status);
+  }
+
+  @Get(':id')
+  get(@Param('id', ParseUUIDPipe) id: string) {
+    return this.researchJobsService.get(id);
+  }
+
+  @HttpCode(200)
+  @Post(':id/cancel')
+  cancel(@Param('id', ParseUUIDPipe) id: string) {
+    return this.researchJobsService.cancel(id);
+  }
+
+  @HttpCode(202)
+  @Post(':id/retry')
+  retry(@Param('id', ParseUUIDPipe) id: string) {
+    return this.researchJobsService.retry(id);
+  }
+}
\ No newline at end of file
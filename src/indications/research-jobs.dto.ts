@@ -0,0 +1,17 @@
+import { IsIn, IsOptional, IsString, MinLength } from 'class-validator';
+import { ResearchJobStatus } from './research-job.entity';
+
+const JOB_STATUSES: ResearchJobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+/** Body of the routes that enqueue research for an indication. */
+export class CreateResearchJobDto {
+  @IsString()
+  @MinLength(2)
+  indicationName: string;
+}
+
+export class ListResearchJobsDto {
+  @IsOptional()
+  @IsIn(JOB_STATUSES)
+  status?: ResearchJobStatus;
+}
\ No newline at end of file
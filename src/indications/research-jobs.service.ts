@@ -0,0 +1,234 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AuthUser } from '../auth/auth-user.interface';
+import { IndicationResearchService, RESEARCH_STAGES, ResearchProgress, ResearchStage } from './indication-research.service';
+import { ResearchJob, ResearchJobResult, ResearchJobStatus, ResearchStageState } from './research-job.entity';
+import { ResearchDraftsService } from './research-drafts.service';
+
+class ResearchJobCancelledError extends Error {
+  constructor() {
+    super('Research job was cancelled');
+  }
+}
+
+function initialStages(): Record<ResearchStage, ResearchStageState> {
+  return Object.fromEntries(
+    RESEARCH_STAGES.map(stage => [stage, { status: 'pending', startedAt: null, finishedAt: null }])
+  ) as Record<ResearchStage, ResearchStageState>;
+}
+
+/**
+ * Runs deep research in the background. Jobs are persisted in Postgres and
+ * processed one at a time by this instance; on startup, jobs left `running`
+ * by a previous process are re-queued; a job only produces a review draft,
+ * so repeating one never touches the live graph.
+ */
+@Injectable()
+export class ResearchJobsService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ResearchJobsService.name);
+  private draining = false;
+  // Set when a job is enqueued while draining, so the runner checks again before it idles
+  private rekick = false;
+  private stopping = false;
+
+  constructor(
+    @InjectRepository(ResearchJob) private repo: Repository<ResearchJob>,
+    private researchService: IndicationResearchService,
+    private draftsService: ResearchDraftsService
+  ) {}
+
+  async onApplicationBootstrap() {
+    const interrupted = await this.repo.update(
+      { status: 'running' },
+      { status: 'queued', cancelRequested: false, stages: initialStages() }
+    );
+    if (interrupted.affected) this.logger.warn(`Re-queued ${interrupted.affected} interrupted research job(s)`);
+    this.kick();
+  }
+
+  onModuleDestroy() {
+    this.stopping = true;
+  }
+
+  async enqueue(indicationName: string, actor?: AuthUser) {
+    if (!this.researchService.findKnownIndication(indicationName)) {
+      throw new BadRequestException(`Indication "${indicationName}" not found in known oncology indications`);
+    }
+    const job = await this.repo.save(
+      this.repo.create({
+        indicationName,
+        status: 'queued',
+        stages: initialStages(),
+        result: null,
+        error: null,
+        requestedById: actor?.id ?? null,
+        requestedByEmail: actor?.email ?? null
+      })
+    );
+    this.kick();
+    return job;
+  }
+
+  async get(id: string) {
+    const job = await this.repo.findOne({ where: { id } });
+    if (!job) throw new NotFoundException('Research job not found');
+    return job;
+  }
+
+  list(status?: ResearchJobStatus, limit = 50) {
+    return this.repo.find({
+      where: status ? { status } : {},
+      order: { createdAt: 'DESC' },
+      take: limit
+    });
+  }
+
+  // Queued jobs are cancelled at once; running ones stop before their next stage
+  async cancel(id: string) {
+    const job = await this.get(id);
+    if (job.status === 'queued') {
+      const res = await this.repo.update(
+        { id, status: 'queued' },
+        { status: 'cancelled', finishedAt: new Date() }
+      );
+      if (res.affected) return this.get(id);
+    }
+    if (job.status === 'queued' || job.status === 'running') {
+      await this.repo.update({ id }, { cancelRequested: true });
+      return this.get(id);
+    }
+    throw new ConflictException(`Cannot cancel a ${job.status} research job`);
+  }
+
+  async retry(id: string) {
+    const job = await this.get(id);
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      throw new ConflictException(`Only failed or cancelled research jobs can be retried, this one is ${job.status}`);
+    }
+    await this.repo.update(
+      { id },
+      {
+        status: 'queued',
+        stages: initialStages(),
+        result: null,
+        error: null,
+        cancelRequested: false,
+        startedAt: null,
+        finishedAt: null
+      }
+    );
+    this.kick();
+    return this.get(id);
+  }
+
+  private kick() {
+    if (this.stopping) return;
+    if (this.draining) {
+      this.rekick = true;
+      return;
+    }
+    this.draining = true;
+    this.rekick = false;
+    setImmediate(() => {
+      this.drain()
+        .catch(error => this.logger.error('Research job runner crashed', error as Error))
+        .finally(() => {
+          this.draining = false;
+          if (this.rekick) this.kick();
+        });
+    });
+  }
+
+  private async drain() {
+    while (!this.stopping) {
+      const next = await this.repo.findOne({ where: { status: 'queued' }, order: { createdAt: 'ASC' } });
+      if (!next) return;
+
+      // Claim the job; if another worker got there first, look for the next one
+      const claimed = await this.repo.update(
+        { id: next.id, status: 'queued' },
+        { status: 'running', startedAt: new Date(), attempts: () => '"attempts" + 1' }
+      );
+      if (claimed.affected) await this.run(next.id);
+    }
+  }
+
+  private async run(id: string) {
+    const job = await this.get(id);
+    const stages = job.stages;
+    let currentStage: ResearchStage | null = null;
+
+    const saveStage = async (stage: ResearchStage, state: Partial<ResearchStageState>) => {
+      stages[stage] = { ...stages[stage], ...state };
+      await this.repo.update({ id }, { stages });
+    };
+
+    const progress: ResearchProgress = {
+      onStageStart: async stage => {
+        currentStage = stage;
+        await saveStage(stage, { status: 'running', startedAt: new Date().toISOString() });
+      },
+      onStageComplete: async (stage, detail) => {
+        currentStage = null;
+        await saveStage(stage, { status: 'completed', finishedAt: new Date().toISOString(), detail });
+      },
+      checkCancelled: async () => {
+        const current = await this.repo.findOne({ where: { id }, select: { id: true, cancelRequested: true } });
+        if (current?.cancelRequested) throw new ResearchJobCancelledError();
+      }
+    };
+
+    try {
+      const data = await this.researchService.conductDeepResearch(job.indicationName, progress);
+
+      // Results are staged for admin review rather than written to the graph
+      await progress.checkCancelled();
+      await progress.onStageStart('draft');
+      const draft = await this.draftsService.create(
+        data,
+        job.id,
+        job.requestedById ? { id: job.requestedById, email: job.requestedByEmail as string } : undefined
+      );
+      const result: ResearchJobResult = {
+        draftId: draft.id,
+        indication: data.indication.name,
+        summary: {
+          mutations: data.mutations.length,
+          therapies: data.therapies.length,
+          epidemiology: data.epidemiology.length,
+          mutationPrevalence: data.mutationPrevalence.length
+        },
+        sources: data.sources
+      };
+      await progress.onStageComplete('draft', { draftId: draft.id });
+      await this.repo.update({ id }, { status: 'succeeded', result, finishedAt: new Date() });
+    } catch (error) {
+      const cancelled = error instanceof ResearchJobCancelledError;
+      const message = error instanceof Error ? error.message : String(error);
+      if (currentStage) {
+        await saveStage(currentStage, {
+          status: cancelled ? 'cancelled' : 'failed',
+          finishedAt: new Date().toISOString()
+        });
+      }
+      await this.repo.update(
+        { id },
+        {
+          status: cancelled ? 'cancelled' : 'failed',
+          error: cancelled ? null : message,
+          finishedAt: new Date()
+        }
+      );
+      if (!cancelled) this.logger.error(`Research job ${id} failed: ${message}`);
+    }
+  }
+}
\ No newline at end of file
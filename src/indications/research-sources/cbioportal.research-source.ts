@@ -0,0 +1,73 @@
+import { ResearchCitation, ResearchIndication, ResearchMutation, ResearchSource } from './research-source.interface';
+import { fetchJson } from './research-source.utils';
+
+interface CBioPortalStudy {
+  studyId: string;
+  cancerTypeId: string;
+  sequencedSampleCount?: number;
+  allSampleCount?: number;
+}
+
+interface CBioPortalGene {
+  entrezGeneId: number;
+  hugoGeneSymbol: string;
+}
+
+interface CBioPortalMutation {
+  entrezGeneId: number;
+  sampleId: string;
+}
+
+/**
+ * cBioPortal mutation frequencies. Picks the largest public study whose
+ * cancer type matches the indication's OncoTree code and reports, for each
+ * gene in the configured panel, the share of sequenced samples mutated.
+ */
+export class CBioPortalResearchSource implements ResearchSource {
+  readonly name = 'cbioportal';
+  readonly citation: ResearchCitation;
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly genePanel: string[]
+  ) {
+    this.citation = { source: 'cBioPortal', url: new URL(apiUrl).origin };
+  }
+
+  async fetchMutations(indication: ResearchIndication): Promise<ResearchMutation[]> {
+    const studies = await fetchJson<CBioPortalStudy[]>(`${this.apiUrl}/studies?projection=DETAILED`);
+    const study = studies
+      .filter(s => s.cancerTypeId?.toLowerCase() === indication.oncotree.toLowerCase())
+      .sort((a, b) => (b.sequencedSampleCount || 0) - (a.sequencedSampleCount || 0))[0];
+    if (!study || !study.sequencedSampleCount) return [];
+
+    const genes = await fetchJson<CBioPortalGene[]>(`${this.apiUrl}/genes/fetch?geneIdType=HUGO_GENE_SYMBOL`, {
+      method: 'POST',
+      body: JSON.stringify(this.genePanel)
+    });
+    const mutations = await fetchJson<CBioPortalMutation[]>(
+      `${this.apiUrl}/molecular-profiles/${study.studyId}_mutations/mutations/fetch?projection=ID`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          sampleListId: `${study.studyId}_sequenced`,
+          entrezGeneIds: genes.map(g => g.entrezGeneId)
+        })
+      }
+    );
+
+    const samplesByGene = new Map<number, Set<string>>();
+    for (const m of mutations) {
+      if (!samplesByGene.has(m.entrezGeneId)) samplesByGene.set(m.entrezGeneId, new Set());
+      samplesByGene.get(m.entrezGeneId)!.add(m.sampleId);
+    }
+
+    return genes
+      .filter(g => samplesByGene.has(g.entrezGeneId))
+      .map(g => ({
+        gene: g.hugoGeneSymbol,
+        alteration: 'Mutation',
+        percentage: Math.round((samplesByGene.get(g.entrezGeneId)!.size / study.sequencedSampleCount!) * 1000) / 10
+      }));
+  }
+}
\ No newline at end of file
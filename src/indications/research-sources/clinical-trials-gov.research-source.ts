@@ -0,0 +1,48 @@
+import { ResearchCitation, ResearchIndication, ResearchSource, ResearchTherapy } from './research-source.interface';
+import { fetchJson } from './research-source.utils';
+
+interface ClinicalTrialsGovResponse {
+  studies: Array<{
+    protocolSection?: {
+      armsInterventionsModule?: {
+        interventions?: Array<{ type: string; name: string; description?: string }>;
+      };
+    };
+  }>;
+}
+
+/**
+ * ClinicalTrials.gov (API v2). Collects the drug and biological
+ * interventions of late-phase interventional studies in the indication.
+ */
+export class ClinicalTrialsGovResearchSource implements ResearchSource {
+  readonly name = 'clinicaltrials.gov';
+  readonly citation: ResearchCitation;
+
+  constructor(private readonly apiUrl: string) {
+    this.citation = { source: 'ClinicalTrials.gov', url: new URL(apiUrl).origin };
+  }
+
+  async fetchTherapies(indication: ResearchIndication): Promise<ResearchTherapy[]> {
+    const params = new URLSearchParams({
+      'query.cond': indication.name,
+      'filter.advanced': 'AREA[Phase](PHASE3 OR PHASE4)',
+      fields: 'ArmsInterventionsModule',
+      pageSize: '100'
+    });
+    const res = await fetchJson<ClinicalTrialsGovResponse>(`${this.apiUrl}/studies?${params}`);
+
+    const therapies = new Map<string, ResearchTherapy>();
+    for (const study of res.studies || []) {
+      for (const intervention of study.protocolSection?.armsInterventionsModule?.interventions || []) {
+        if (intervention.type !== 'DRUG' && intervention.type !== 'BIOLOGICAL') continue;
+        if (/placebo/i.test(intervention.name)) continue;
+        const key = intervention.name.toLowerCase();
+        if (!therapies.has(key)) {
+          therapies.set(key, { name: intervention.name, mechanism: 'Unknown', targets: [] });
+        }
+      }
+    }
+    return [...therapies.values()];
+  }
+}
\ No newline at end of file
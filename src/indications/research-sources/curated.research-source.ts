@@ -0,0 +1,176 @@
+import {
+  ResearchCitation,
+  ResearchEpidemiology,
+  ResearchIndication,
+  ResearchMutation,
+  ResearchSource,
+  ResearchTherapy
+} from './research-source.interface';
+
+// Curated mutation data by indication type
+const MUTATIONS_BY_INDICATION: Record<string, Array<{ gene: string; alteration: string; percentage: number }>> = {
+  'Small Cell Lung Cancer': [
+    { gene: 'TP53', alteration: 'Mutation', percentage: 90 },
+    { gene: 'RB1', alteration: 'Mutation', percentage: 90 },
+    { gene: 'NOTCH1', alteration: 'Mutation', percentage: 25 },
+    { gene: 'MYC', alteration: 'Amplification', percentage: 20 },
+    { gene: 'PTEN', alteration: 'Mutation', percentage: 10 },
+  ],
+  'Triple Negative Breast Cancer': [
+    { gene: 'TP53', alteration: 'Mutation', percentage: 80 },
+    { gene: 'BRCA1', alteration: 'Oncogenic Mutation', percentage: 15 },
+    { gene: 'BRCA2', alteration: 'Oncogenic Mutation', percentage: 10 },
+    { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 10 },
+    { gene: 'PTEN', alteration: 'Mutation', percentage: 10 },
+  ],
+  'Hepatocellular Carcinoma': [
+    { gene: 'TP53', alteration: 'Mutation', percentage: 30 },
+    { gene: 'CTNNB1', alteration: 'Mutation', percentage: 30 },
+    { gene: 'TERT', alteration: 'Promoter Mutation', percentage: 60 },
+    { gene: 'ARID1A', alteration: 'Mutation', percentage: 10 },
+    { gene: 'AXIN1', alteration: 'Mutation', percentage: 10 },
+  ],
+  'Multiple Myeloma': [
+    { gene: 'KRAS', alteration: 'Oncogenic Mutation', percentage: 25 },
+    { gene: 'NRAS', alteration: 'Oncogenic Mutation', percentage: 20 },
+    { gene: 'BRAF', alteration: 'V600E', percentage: 4 },
+    { gene: 'TP53', alteration: 'Mutation', percentage: 10 },
+    { gene: 'DIS3', alteration: 'Mutation', percentage: 10 },
+  ],
+  'Chronic Lymphocytic Leukemia': [
+    { gene: 'TP53', alteration: 'Mutation', percentage: 10 },
+    { gene: 'ATM', alteration: 'Mutation', percentage: 15 },
+    { gene: 'SF3B1', alteration: 'Mutation', percentage: 15 },
+    { gene: 'NOTCH1', alteration: 'Mutation', percentage: 12 },
+    { gene: 'BIRC3', alteration: 'Mutation', percentage: 5 },
+  ],
+  'Diffuse Large B-Cell Lymphoma': [
+    { gene: 'MYD88', alteration: 'L265P', percentage: 30 },
+    { gene: 'CD79B', alteration: 'Mutation', percentage: 20 },
+    { gene: 'EZH2', alteration: 'Mutation', percentage: 20 },
+    { gene: 'BCL2', alteration: 'Translocation', percentage: 30 },
+    { gene: 'TP53', alteration: 'Mutation', percentage: 20 },
+  ],
+  'Head and Neck Cancer': [
+    { gene: 'TP53', alteration: 'Mutation', percentage: 70 },
+    { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 20 },
+    { gene: 'CDKN2A', alteration: 'Deletion', percentage: 25 },
+    { gene: 'EGFR', alteration: 'Amplification', percentage: 15 },
+    { gene: 'NOTCH1', alteration: 'Mutation', percentage: 15 },
+  ],
+  'Endometrial Cancer': [
+    { gene: 'PTEN', alteration: 'Mutation', percentage: 50 },
+    { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 40 },
+    { gene: 'TP53', alteration: 'Mutation', percentage: 30 },
+    { gene: 'KRAS', alteration: 'Oncogenic Mutation', percentage: 20 },
+    { gene: 'ARID1A', alteration: 'Mutation', percentage: 30 },
+    { gene: 'POLE', alteration: 'Mutation', percentage: 10 },
+  ],
+  'Cervical Cancer': [
+    { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 25 },
+    { gene: 'PTEN', alteration: 'Mutation', percentage: 10 },
+    { gene: 'TP53', alteration: 'Mutation', percentage: 5 },
+    { gene: 'KRAS', alteration: 'Oncogenic Mutation', percentage: 8 },
+    { gene: 'STK11', alteration: 'Mutation', percentage: 5 },
+  ],
+  'Esophageal Cancer': [
+    { gene: 'TP53', alteration: 'Mutation', percentage: 80 },
+    { gene: 'CDKN2A', alteration: 'Deletion', percentage: 30 },
+    { gene: 'ERBB2', alteration: 'Amplification', percentage: 20 },
+    { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 10 },
+    { gene: 'KRAS', alteration: 'Oncogenic Mutation', percentage: 5 },
+  ],
+};
+
+// Default mutations for unknown indications
+const DEFAULT_MUTATIONS = [
+  { gene: 'TP53', alteration: 'Mutation', percentage: 40 },
+  { gene: 'KRAS', alteration: 'Oncogenic Mutation', percentage: 15 },
+  { gene: 'PIK3CA', alteration: 'Oncogenic Mutation', percentage: 10 },
+];
+
+// Curated therapy data by indication
+const THERAPIES_BY_INDICATION: Record<string, ResearchTherapy[]> = {
+  'Small Cell Lung Cancer': [
+    { name: 'Lurbinectedin', mechanism: 'RNA Polymerase II Inhibitor', targets: [] },
+    { name: 'Topotecan', mechanism: 'Topoisomerase I Inhibitor', targets: ['TOP1'] },
+    { name: 'Atezolizumab', mechanism: 'PD-L1 Inhibitor', targets: ['CD274'] },
+    { name: 'Durvalumab', mechanism: 'PD-L1 Inhibitor', targets: ['CD274'] },
+  ],
+  'Triple Negative Breast Cancer': [
+    { name: 'Pembrolizumab', mechanism: 'PD-1 Inhibitor', targets: ['PDCD1'] },
+    { name: 'Sacituzumab Govitecan', mechanism: 'ADC (Trop-2)', targets: ['TACSTD2'] },
+    { name: 'Olaparib', mechanism: 'PARP Inhibitor', targets: ['PARP1', 'PARP2'] },
+    { name: 'Talazoparib', mechanism: 'PARP Inhibitor', targets: ['PARP1', 'PARP2'] },
+  ],
+  'Hepatocellular Carcinoma': [
+    { name: 'Sorafenib', mechanism: 'Multi-kinase Inhibitor', targets: ['RAF1', 'VEGFR2', 'KIT'] },
+    { name: 'Lenvatinib', mechanism: 'Multi-kinase Inhibitor', targets: ['VEGFR1', 'VEGFR2', 'FGFR1'] },
+    { name: 'Atezolizumab + Bevacizumab', mechanism: 'PD-L1 + VEGF Inhibitor', targets: ['CD274', 'VEGFA'] },
+    { name: 'Cabozantinib', mechanism: 'Multi-kinase Inhibitor', targets: ['MET', 'VEGFR2', 'AXL'] },
+  ],
+  'Multiple Myeloma': [
+    { name: 'Bortezomib', mechanism: 'Proteasome Inhibitor', targets: ['PSMB5'] },
+    { name: 'Lenalidomide', mechanism: 'Immunomodulator', targets: ['CRBN'] },
+    { name: 'Daratumumab', mechanism: 'CD38 Antibody', targets: ['CD38'] },
+    { name: 'Carfilzomib', mechanism: 'Proteasome Inhibitor', targets: ['PSMB5'] },
+    { name: 'Pomalidomide', mechanism: 'Immunomodulator', targets: ['CRBN'] },
+  ],
+  'Chronic Lymphocytic Leukemia': [
+    { name: 'Ibrutinib', mechanism: 'BTK Inhibitor', targets: ['BTK'] },
+    { name: 'Acalabrutinib', mechanism: 'BTK Inhibitor', targets: ['BTK'] },
+    { name: 'Venetoclax', mechanism: 'BCL-2 Inhibitor', targets: ['BCL2'] },
+    { name: 'Obinutuzumab', mechanism: 'CD20 Antibody', targets: ['MS4A1'] },
+  ],
+};
+
+// Estimated epidemiology based on indication type
+const EPIDEMIOLOGY_BY_INDICATION: Record<string, { prevalenceUSA: number; incidenceUSA: number; survival5yr: number }> = {
+  'Small Cell Lung Cancer': { prevalenceUSA: 35000, incidenceUSA: 30000, survival5yr: 7 },
+  'Triple Negative Breast Cancer': { prevalenceUSA: 200000, incidenceUSA: 45000, survival5yr: 77 },
+  'Hepatocellular Carcinoma': { prevalenceUSA: 90000, incidenceUSA: 42000, survival5yr: 20 },
+  'Multiple Myeloma': { prevalenceUSA: 150000, incidenceUSA: 35000, survival5yr: 55 },
+  'Chronic Lymphocytic Leukemia': { prevalenceUSA: 200000, incidenceUSA: 21000, survival5yr: 87 },
+  'Diffuse Large B-Cell Lymphoma': { prevalenceUSA: 100000, incidenceUSA: 25000, survival5yr: 64 },
+  'Head and Neck Cancer': { prevalenceUSA: 300000, incidenceUSA: 66000, survival5yr: 67 },
+  'Endometrial Cancer': { prevalenceUSA: 800000, incidenceUSA: 66000, survival5yr: 81 },
+  'Cervical Cancer': { prevalenceUSA: 280000, incidenceUSA: 14000, survival5yr: 66 },
+  'Esophageal Cancer': { prevalenceUSA: 50000, incidenceUSA: 21000, survival5yr: 20 },
+};
+
+const DEFAULT_EPIDEMIOLOGY = { prevalenceUSA: 50000, incidenceUSA: 10000, survival5yr: 50 };
+
+/**
+ * Built-in curated tables. USA figures are curated; EU and APAC are
+ * extrapolated with fixed multipliers, and unknown indications fall back to
+ * generic defaults, so this source should be listed after real ones.
+ */
+export class CuratedResearchSource implements ResearchSource {
+  readonly name = 'curated';
+  // Internal estimates with no external reference, so facts from here stay unsourced
+  readonly citation: ResearchCitation = { source: 'MIIPA curated tables' };
+
+  async fetchMutations(indication: ResearchIndication): Promise<ResearchMutation[]> {
+    const curated = MUTATIONS_BY_INDICATION[indication.name];
+    return (curated || DEFAULT_MUTATIONS).map(m => ({ ...m, oncogenic: 'Oncogenic', placeholder: !curated }));
+  }
+
+  async fetchTherapies(indication: ResearchIndication): Promise<ResearchTherapy[]> {
+    return THERAPIES_BY_INDICATION[indication.name] || [];
+  }
+
+  async fetchEpidemiology(indication: ResearchIndication): Promise<ResearchEpidemiology[]> {
+    const curated = EPIDEMIOLOGY_BY_INDICATION[indication.name];
+    const epi = curated || DEFAULT_EPIDEMIOLOGY;
+    const metrics: ResearchEpidemiology[] = [
+      { region: 'USA', type: 'PREVALENCE', value: epi.prevalenceUSA, unit: 'patients', year: 2024 },
+      { region: 'EU', type: 'PREVALENCE', value: Math.round(epi.prevalenceUSA * 1.2), unit: 'patients', year: 2024 },
+      { region: 'APAC', type: 'PREVALENCE', value: Math.round(epi.prevalenceUSA * 2), unit: 'patients', year: 2024 },
+      { region: 'USA', type: 'INCIDENCE', value: epi.incidenceUSA, unit: 'cases/year', year: 2024 },
+      { region: 'EU', type: 'INCIDENCE', value: Math.round(epi.incidenceUSA * 1.1), unit: 'cases/year', year: 2024 },
+      { region: 'APAC', type: 'INCIDENCE', value: Math.round(epi.incidenceUSA * 1.8), unit: 'cases/year', year: 2024 },
+      { region: 'USA', type: 'FIVE_YEAR_SURVIVAL', value: epi.survival5yr, unit: '%', year: 2024 }
+    ];
+    return metrics.map(m => ({ ...m, placeholder: !curated }));
+  }
+}
\ No newline at end of file
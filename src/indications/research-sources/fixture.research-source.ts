@@ -0,0 +1,45 @@
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import {
+  ResearchCitation,
+  ResearchEpidemiology,
+  ResearchFindings,
+  ResearchIndication,
+  ResearchMutation,
+  ResearchSource,
+  ResearchTherapy
+} from './research-source.interface';
+import { matchesIndication } from './research-source.utils';
+
+/**
+ * Offline source backed by a JSON file keyed by indication name, alias or
+ * OncoTree code, each entry holding `ResearchFindings`. Intended for local
+ * development and for exercising deep research without network access.
+ */
+export class FixtureResearchSource implements ResearchSource {
+  readonly name = 'fixture';
+  readonly citation: ResearchCitation;
+  private readonly fixtures: Record<string, ResearchFindings>;
+
+  constructor(filePath: string) {
+    this.citation = { source: 'Research fixture', documentId: basename(filePath) };
+    this.fixtures = JSON.parse(readFileSync(filePath, 'utf8'));
+  }
+
+  async fetchMutations(indication: ResearchIndication): Promise<ResearchMutation[]> {
+    return this.findingsFor(indication).mutations || [];
+  }
+
+  async fetchTherapies(indication: ResearchIndication): Promise<ResearchTherapy[]> {
+    return this.findingsFor(indication).therapies || [];
+  }
+
+  async fetchEpidemiology(indication: ResearchIndication): Promise<ResearchEpidemiology[]> {
+    return this.findingsFor(indication).epidemiology || [];
+  }
+
+  private findingsFor(indication: ResearchIndication): ResearchFindings {
+    const key = Object.keys(this.fixtures).find(k => matchesIndication(k, indication));
+    return key ? this.fixtures[key] : {};
+  }
+}
\ No newline at end of file
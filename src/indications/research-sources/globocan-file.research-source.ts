@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { ResearchCitation, ResearchEpidemiology, ResearchIndication, ResearchSource } from './research-source.interface';
+import { matchesIndication } from './research-source.utils';
+
+// GLOBOCAN population labels mapped onto the graph's Region names
+const POPULATION_REGIONS: Record<string, string> = {
+  'united states of america': 'USA',
+  'usa': 'USA',
+  'european union (eu-27)': 'EU',
+  'eu-27': 'EU',
+  'eu': 'EU',
+  'asia': 'APAC',
+  'apac': 'APAC'
+};
+
+/**
+ * GLOBOCAN-style CSV export with a header row containing at least
+ * `cancer`, `population`, `year` and any of `incidence` and `prevalence_5y`.
+ */
+export class GlobocanFileResearchSource implements ResearchSource {
+  readonly name = 'globocan';
+  readonly citation: ResearchCitation;
+  private readonly rows: Record<string, string>[];
+
+  constructor(filePath: string) {
+    this.citation = { source: 'GLOBOCAN (IARC Global Cancer Observatory)', url: 'https://gco.iarc.fr', documentId: basename(filePath) };
+    const [header, ...lines] = readFileSync(filePath, 'utf8').split(/\r?\n/).filter(l => l.trim());
+    const columns = this.splitCsvLine(header).map(c => c.toLowerCase());
+    this.rows = lines.map(line => {
+      const cells = this.splitCsvLine(line);
+      return Object.fromEntries(columns.map((c, i) => [c, cells[i] ?? '']));
+    });
+  }
+
+  async fetchEpidemiology(indication: ResearchIndication): Promise<ResearchEpidemiology[]> {
+    const epidemiology: ResearchEpidemiology[] = [];
+    for (const row of this.rows.filter(r => matchesIndication(r.cancer, indication))) {
+      const region = POPULATION_REGIONS[row.population?.toLowerCase()];
+      if (!region) continue;
+      const year = Number(row.year) || new Date().getFullYear();
+      if (row.incidence) {
+        epidemiology.push({ region, type: 'INCIDENCE', value: Number(row.incidence), unit: 'cases/year', year });
+      }
+      if (row.prevalence_5y) {
+        epidemiology.push({ region, type: 'PREVALENCE', value: Number(row.prevalence_5y), unit: 'patients', year });
+      }
+    }
+    return epidemiology.filter(e => Number.isFinite(e.value));
+  }
+
+  // Minimal CSV splitting with support for double-quoted cells
+  private splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (ch === '"' && quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = !quoted;
+      } else if (ch === ',' && !quoted) {
+        cells.push(current.trim());
+        current = '';
+      } else {
+        current += ch;
+      }
+    }
+    cells.push(current.trim());
+    return cells;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { ResearchCitation, ResearchIndication, ResearchMutation, ResearchSource, ResearchTherapy } from './research-source.interface';
+import { fetchJson, matchesIndication } from './research-source.utils';
+
+interface OncoKbActionableVariant {
+  hugoSymbol?: string;
+  gene?: string;
+  alteration: string;
+  cancerType: string;
+  level: string;
+  drugs: string;
+}
+
+// The actionable-variants list is large and changes rarely; reuse it across stages and jobs
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * OncoKB actionable variants (requires an API token). Yields the actionable
+ * alterations and their drugs for the indication; OncoKB has no patient
+ * frequencies, so mutations carry no percentage.
+ */
+export class OncoKbResearchSource implements ResearchSource {
+  readonly name = 'oncokb';
+  readonly citation: ResearchCitation = { source: 'OncoKB', url: 'https://www.oncokb.org' };
+  private cache: { fetchedAt: number; variants: Promise<OncoKbActionableVariant[]> } | null = null;
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly token: string
+  ) {}
+
+  async fetchMutations(indication: ResearchIndication): Promise<ResearchMutation[]> {
+    const mutations = new Map<string, ResearchMutation>();
+    for (const v of await this.variantsFor(indication)) {
+      const gene = (v.hugoSymbol || v.gene)!;
+      const level = v.level.replace(/^LEVEL_/, '');
+      mutations.set(`${gene}:${v.alteration}`, {
+        gene,
+        alteration: v.alteration,
+        percentage: null,
+        oncogenic: level.startsWith('R') ? 'Resistance' : 'Oncogenic'
+      });
+    }
+    return [...mutations.values()];
+  }
+
+  async fetchTherapies(indication: ResearchIndication): Promise<ResearchTherapy[]> {
+    const therapies = new Map<string, ResearchTherapy>();
+    for (const v of await this.variantsFor(indication)) {
+      const gene = (v.hugoSymbol || v.gene)!;
+      for (const drug of (v.drugs || '').split(',').map(d => d.trim()).filter(Boolean)) {
+        const existing = therapies.get(drug.toLowerCase());
+        if (existing) {
+          if (!existing.targets.includes(gene)) existing.targets.push(gene);
+        } else {
+          therapies.set(drug.toLowerCase(), { name: drug, mechanism: `${gene} targeted therapy`, targets: [gene] });
+        }
+      }
+    }
+    return [...therapies.values()];
+  }
+
+  private async variantsFor(indication: ResearchIndication) {
+    if (!this.cache || Date.now() - this.cache.fetchedAt > CACHE_TTL_MS) {
+      const variants = fetchJson<OncoKbActionableVariant[]>(`${this.apiUrl}/utils/allActionableVariants`, {
+        headers: { Authorization: `Bearer ${this.token}` }
+      });
+      this.cache = { fetchedAt: Date.now(), variants };
+      // Do not keep a failed request cached
+      variants.catch(() => (this.cache = null));
+    }
+    const variants = await this.cache.variants;
+    return variants.filter(v => (v.hugoSymbol || v.gene) && matchesIndication(v.cancerType, indication));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,63 @@
+export const RESEARCH_SOURCES = 'RESEARCH_SOURCES';
+
+/** An indication being researched, as listed in the known-indications catalogue. */
+export interface ResearchIndication {
+  name: string;
+  aliases: string[];
+  oncotree: string;
+}
+
+export interface ResearchMutation {
+  gene: string;
+  alteration: string;
+  // Share of patients with the indication carrying the alteration, when the source knows it
+  percentage: number | null;
+  oncogenic?: string;
+  // Set when the source had no data for the indication and returned generic defaults
+  placeholder?: boolean;
+}
+
+export interface ResearchTherapy {
+  name: string;
+  mechanism: string;
+  targets: string[];
+}
+
+export interface ResearchEpidemiology {
+  region: string;
+  type: 'PREVALENCE' | 'INCIDENCE' | 'MEDIAN_SURVIVAL_YEARS' | 'FIVE_YEAR_SURVIVAL';
+  value: number;
+  unit: string;
+  year: number;
+  // Set when the source had no data for the indication and returned generic defaults
+  placeholder?: boolean;
+}
+
+/** How facts from a source are cited in their provenance. */
+export interface ResearchCitation {
+  source: string;
+  url?: string;
+  documentId?: string;
+}
+
+/** Findings for one indication across domains, as stored in fixture files. */
+export interface ResearchFindings {
+  mutations?: ResearchMutation[];
+  therapies?: ResearchTherapy[];
+  epidemiology?: ResearchEpidemiology[];
+}
+
+/**
+ * An external knowledge source consulted by deep research. Implementations
+ * are registered under the RESEARCH_SOURCES token in priority order; the
+ * `name` is stamped as `researchSource` on every node built from its data,
+ * and `citation` becomes the provenance of the facts it contributed.
+ * A source only implements the fetchers for the domains it covers.
+ */
+export interface ResearchSource {
+  readonly name: string;
+  readonly citation: ResearchCitation;
+  fetchMutations?(indication: ResearchIndication): Promise<ResearchMutation[]>;
+  fetchTherapies?(indication: ResearchIndication): Promise<ResearchTherapy[]>;
+  fetchEpidemiology?(indication: ResearchIndication): Promise<ResearchEpidemiology[]>;
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { ResearchIndication } from './research-source.interface';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// GET/POST JSON from a source API, failing on non-2xx responses and slow hosts
+export async function fetchJson<T>(url: string, init: RequestInit = {}, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { Accept: 'application/json', ...(init.body ? { 'Content-Type': 'application/json' } : {}), ...init.headers },
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+  if (!res.ok) throw new Error(`${init.method || 'GET'} ${url} failed with HTTP ${res.status}`);
+  return res.json() as Promise<T>;
+}
+
+// True when a source's free-text disease label refers to the indication (by name, alias or OncoTree code)
+export function matchesIndication(label: string | null | undefined, indication: ResearchIndication): boolean {
+  if (!label) return false;
+  const needle = label.trim().toLowerCase();
+  return [indication.name, indication.oncotree, ...indication.aliases].some(
+    candidate => candidate.toLowerCase() === needle
+  );
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { Provider } from '@nestjs/common';
+import { RESEARCH_SOURCES, ResearchSource } from './research-source.interface';
+import { CuratedResearchSource } from './curated.research-source';
+import { FixtureResearchSource } from './fixture.research-source';
+import { OncoKbResearchSource } from './oncokb.research-source';
+import { CBioPortalResearchSource } from './cbioportal.research-source';
+import { ClinicalTrialsGovResearchSource } from './clinical-trials-gov.research-source';
+import { GlobocanFileResearchSource } from './globocan-file.research-source';
+
+const DEFAULT_CBIOPORTAL_GENES = [
+  'TP53', 'KRAS', 'NRAS', 'BRAF', 'PIK3CA', 'PTEN', 'EGFR', 'ERBB2', 'ALK', 'MET',
+  'IDH1', 'IDH2', 'BRCA1', 'BRCA2', 'ATM', 'ARID1A', 'CDKN2A', 'RB1', 'NOTCH1', 'FLT3'
+];
+
+function requireEnv(name: string, source: string) {
+  const value = process.env[name];
+  if (!value) throw new Error(`Research source "${source}" requires ${name} to be set`);
+  return value;
+}
+
+/**
+ * Builds the research sources listed in RESEARCH_SOURCES (comma-separated,
+ * highest priority first). Defaults to the built-in curated tables only.
+ */
+export const researchSourcesProvider: Provider = {
+  provide: RESEARCH_SOURCES,
+  useFactory: (): ResearchSource[] => {
+    const names = (process.env.RESEARCH_SOURCES || 'curated')
+      .split(',')
+      .map(n => n.trim().toLowerCase())
+      .filter(Boolean);
+
+    return names.map(name => {
+      switch (name) {
+        case 'curated':
+          return new CuratedResearchSource();
+        case 'fixture':
+          return new FixtureResearchSource(requireEnv('RESEARCH_FIXTURE_FILE', name));
+        case 'oncokb':
+          return new OncoKbResearchSource(
+            process.env.ONCOKB_API_URL || 'https://www.oncokb.org/api/v1',
+            requireEnv('ONCOKB_API_TOKEN', name)
+          );
+        case 'cbioportal':
+          return new CBioPortalResearchSource(
+            process.env.CBIOPORTAL_API_URL || 'https://www.cbioportal.org/api',
+            process.env.CBIOPORTAL_GENES ? process.env.CBIOPORTAL_GENES.split(',').map(g => g.trim()) : DEFAULT_CBIOPORTAL_GENES
+          );
+        case 'clinicaltrials.gov':
+          return new ClinicalTrialsGovResearchSource(
+            process.env.CLINICALTRIALS_API_URL || 'https://clinicaltrials.gov/api/v2'
+          );
+        case 'globocan':
+          return new GlobocanFileResearchSource(requireEnv('GLOBOCAN_FILE', name));
+        default:
+          throw new Error(`Unknown research source "${name}" in RESEARCH_SOURCES`);
+      }
+    });
+  }
+};
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { Logger } from '@nestjs/common';
+import { Mailer, MailMessage } from './mailer.interface';
+
+/** Local-development mailer that prints messages to the application log. */
+export class ConsoleMailer implements Mailer {
+  private readonly logger = new Logger('Mailer');
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Mailer, MailMessage } from './mailer.interface';
+
+/** Writes each message as a JSON file into an outbox directory, so flows can be exercised without SMTP. */
+export class FileMailer implements Mailer {
+  constructor(
+    private readonly outboxDir: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const sentAt = new Date().toISOString();
+    const fileName = `${sentAt.replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9]+/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ from: this.from, sentAt, ...message }, null, 2)
+    );
+  }
+}
\ No newline at end of file
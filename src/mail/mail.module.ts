@@ -0,0 +1,32 @@
+import { Global, Module } from '@nestjs/common';
+import { Mailer, MAILER } from './mailer.interface';
+import { ConsoleMailer } from './console.mailer';
+import { FileMailer } from './file.mailer';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MAILER,
+      useFactory: (): Mailer => {
+        const transport = process.env.MAIL_TRANSPORT || 'console';
+        if (transport === 'file') {
+          return new FileMailer(
+            process.env.MAIL_OUTBOX_DIR || 'mail-outbox',
+            process.env.MAIL_FROM || 'no-reply@miipa.local'
+          );
+        }
+        if (transport !== 'console') {
+          throw new Error(`Unknown MAIL_TRANSPORT "${transport}": expected console or file`);
+        }
+        // The console mailer logs working password reset links, so it is for local development only
+        if (process.env.NODE_ENV === 'production') {
+          throw new Error('MAIL_TRANSPORT=console cannot be used when NODE_ENV is production');
+        }
+        return new ConsoleMailer();
+      }
+    }
+  ],
+  exports: [MAILER]
+})
+export class MailModule {}
\ No newline at end of file
@@ -0,0 +1,12 @@
+export const MAILER = 'MAILER';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/** Transport-agnostic outbound mail; bind a real SMTP/API implementation under the MAILER token. */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
\ No newline at end of file
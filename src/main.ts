@@ -4,6 +4,9 @@ import { ValidationPipe } from '@nestjs/common';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
+
+  // Railway terminates TLS in front of us; trust its proxy so req.ip is the real client
+  app.getHttpAdapter().getInstance().set('trust proxy', 1);
   
   // Enable CORS for Netlify frontend
   app.enableCors({
@@ -0,0 +1,53 @@
+import { Body, Controller, HttpCode, Post, Query } from '@nestjs/common';
+import { MarketSizingService } from './market-sizing.service';
+import { MarketSizingRequestDto } from './market-sizing.dto';
+import { Scopes } from '../auth/scopes.decorator';
+import { csvFile, ExportTable, parseExportFormat, xlsxFile } from '../export/export-file';
+
+@Controller('market-sizing')
+@Scopes('read:miipa')
+export class MarketSizingController {
+  constructor(private marketSizingService: MarketSizingService) {}
+
+  // A read despite the POST: the assumptions travel in the body
+  @HttpCode(200)
+  @Post()
+  async estimate(@Body() body: MarketSizingRequestDto, @Query('format') format?: string) {
+    const exportFormat = parseExportFormat(format, ['json', 'csv', 'xlsx']);
+    const result = await this.marketSizingService.estimate(body);
+    if (exportFormat === 'json') return result;
+
+    const table: ExportTable = {
+      name: 'Market size',
+      columns: [
+        { key: 'indicationId', header: 'Indication ID' },
+        { key: 'indicationName', header: 'Indication' },
+        { key: 'mutationId', header: 'Mutation ID' },
+        { key: 'mutationName', header: 'Mutation' },
+        { key: 'region', header: 'Region' },
+        { key: 'percentageOfPatients', header: '% of patients' },
+        { key: 'estimatedPatients', header: 'Est. prevalent patients' },
+        { key: 'estimatedNewCases', header: 'Est. new cases / year' },
+        { key: 'treatedPatients', header: 'Treated patients' },
+        { key: 'treatedNewCases', header: 'Treated new cases / year' },
+        { key: 'annualCostUSD', header: 'Annual cost (USD)' },
+        { key: 'costPerPatientUSD', header: 'Cost per patient (USD)' },
+        { key: 'prevalentMarketUSD', header: 'Prevalent market (USD)' },
+        { key: 'incidentMarketUSD', header: 'Incident market (USD / year)' }
+      ],
+      rows: result.rows
+    };
+    const assumptions: ExportTable = {
+      name: 'Assumptions',
+      columns: [
+        { key: 'field', header: 'Assumption' },
+        { key: 'value', header: 'Value' }
+      ],
+      rows: Object.entries(result.assumptions).map(([field, value]) => ({
+        field,
+        value: value !== null && typeof value === 'object' ? JSON.stringify(value) : value
+      }))
+    };
+    return exportFormat === 'csv' ? csvFile([table], 'market-size') : xlsxFile([table, assumptions], 'market-size');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min
+} from 'class-validator';
+
+/** How the annual cost is derived when several priced therapies apply. */
+export const PRICE_BASES = ['mean', 'min', 'max'] as const;
+
+export type PriceBasis = (typeof PRICE_BASES)[number];
+
+export const DEFAULT_MARKET_REGIONS = ['USA', 'EU', 'APAC'];
+
+/**
+ * A market-sizing request. At least one of `indicationId` and `mutationId`
+ * is required; the numeric assumptions are echoed back with the estimates.
+ */
+export class MarketSizingRequestDto {
+  @IsOptional()
+  @IsString()
+  indicationId?: string;
+
+  @IsOptional()
+  @IsString()
+  mutationId?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  regions?: string[];
+
+  // Share of eligible patients who receive the therapy, 0–1
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  treatmentRate: number;
+
+  // Months on therapy per treated patient
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(240)
+  durationMonths: number;
+
+  // Annual therapy cost to use instead of the graph's therapy prices
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  annualCostUSD?: number;
+
+  // Price only these therapies instead of the ones linked to each row
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  therapyIds?: string[];
+
+  @IsOptional()
+  @IsIn(PRICE_BASES)
+  priceBasis?: PriceBasis;
+
+  // Regional price relative to the US list price, e.g. { "EU": 0.6 }; regions left out use 1
+  @IsOptional()
+  @IsObject()
+  priceIndex?: Record<string, number>;
+
+  @IsOptional()
+  @IsBoolean()
+  sourcedOnly?: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { MarketSizingController } from './market-sizing.controller';
+import { MarketSizingService } from './market-sizing.service';
+
+@Module({
+  controllers: [MarketSizingController],
+  providers: [MarketSizingService]
+})
+export class MarketSizingModule {}
\ No newline at end of file
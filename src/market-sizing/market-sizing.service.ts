@@ -0,0 +1,304 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Driver, Transaction } from 'neo4j-driver';
+import { sourcedPredicate } from '../provenance/provenance';
+import { DEFAULT_MARKET_REGIONS, MarketSizingRequestDto, PriceBasis } from './market-sizing.dto';
+
+interface PricedTherapy {
+  id: string;
+  name: string;
+  annualCostUSA: number;
+}
+
+export interface MarketSizingRow {
+  indicationId: string;
+  indicationName: string;
+  // null for the indication as a whole
+  mutationId: string | null;
+  mutationName: string | null;
+  region: string;
+  percentageOfPatients: number | null;
+  estimatedPatients: number;
+  estimatedNewCases: number;
+  treatedPatients: number;
+  treatedNewCases: number;
+  therapies: PricedTherapy[];
+  annualCostUSD: number | null;
+  costPerPatientUSD: number | null;
+  // Treating the prevalent pool once, and each year's new cases
+  prevalentMarketUSD: number | null;
+  incidentMarketUSD: number | null;
+}
+
+function toNumber(value: any): number {
+  return typeof value === 'object' && value !== null ? value.toNumber() : Number(value);
+}
+
+function priceOf(therapies: PricedTherapy[], basis: PriceBasis): number | null {
+  if (therapies.length === 0) return null;
+  const costs = therapies.map(t => t.annualCostUSA);
+  if (basis === 'min') return Math.min(...costs);
+  if (basis === 'max') return Math.max(...costs);
+  return costs.reduce((sum, c) => sum + c, 0) / costs.length;
+}
+
+/**
+ * Addressable-market estimates from the MIIPA patient counts and therapy
+ * prices.
+ *
+ * Per indication, mutation and region: eligible patients are the region's
+ * current prevalence (incidence for new cases) times the mutation's share of
+ * patients, taken from the region's MutationPrevalence or else the mean over
+ * the pair's other regions. Treated patients apply `treatmentRate`; a course
+ * costs the annual cost (adjusted by the region's price index) times
+ * `durationMonths` / 12. Therapies are those actionable for the mutation in
+ * the indication, falling back to the indication's priced therapies.
+ */
+@Injectable()
+export class MarketSizingService {
+  constructor(@Inject('NEO4J_DRIVER') private readonly driver: Driver) {}
+
+  async estimate(request: MarketSizingRequestDto) {
+    const { indicationId, mutationId } = request;
+    if (!indicationId && !mutationId) {
+      throw new BadRequestException('indicationId or mutationId is required');
+    }
+    const priceIndex = this.priceIndex(request);
+    const regions = request.regions?.length ? request.regions : DEFAULT_MARKET_REGIONS;
+    const priceBasis = request.priceBasis ?? 'mean';
+    const sourcedOnly = !!request.sourcedOnly;
+
+    const session = this.driver.session();
+    try {
+      const rows = await session.readTransaction(async tx => {
+        if (indicationId) await this.requireNode(tx, 'Indication', indicationId);
+        if (mutationId) await this.requireNode(tx, 'Mutation', mutationId);
+
+        const shares = await this.mutationShares(tx, indicationId ?? null, mutationId ?? null, sourcedOnly);
+        const indicationIds = indicationId ? [indicationId] : [...new Set(shares.map(s => s.indicationId))];
+        const indications = await this.indicationData(tx, indicationIds, regions, sourcedOnly);
+        const targeted = await this.targetedTherapies(tx, shares, sourcedOnly);
+        const chosen = request.therapyIds?.length ? await this.chosenTherapies(tx, request.therapyIds) : null;
+
+        // The indication as a whole, unless the request is about one mutation
+        const pairs: Array<{ indicationId: string; mutationId: string | null; mutationName: string | null }> =
+          mutationId ? [] : indicationIds.map(id => ({ indicationId: id, mutationId: null, mutationName: null }));
+        const seen = new Set<string>();
+        for (const share of shares) {
+          const key = `${share.indicationId}|${share.mutationId}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          pairs.push({ indicationId: share.indicationId, mutationId: share.mutationId, mutationName: share.mutationName });
+        }
+        if (indicationId && mutationId && pairs.length === 0) {
+          throw new BadRequestException(`No mutation prevalence is recorded for ${mutationId} in ${indicationId}`);
+        }
+
+        return pairs.flatMap(pair => {
+          const indication = indications.get(pair.indicationId)!;
+          const pairShares = shares.filter(s => s.indicationId === pair.indicationId && s.mutationId === pair.mutationId);
+          const therapies =
+            chosen ??
+            (pair.mutationId && targeted.get(`${pair.indicationId}|${pair.mutationId}`)?.length
+              ? targeted.get(`${pair.indicationId}|${pair.mutationId}`)!
+              : indication.therapies);
+          const basePrice = request.annualCostUSD ?? priceOf(therapies, priceBasis);
+
+          return regions.map(region => {
+            const percentage = pair.mutationId ? this.shareFor(pairShares, region) : 100;
+            const metrics = indication.metrics.get(region) ?? { prevalence: 0, incidence: 0 };
+            const estimatedPatients = percentage === null ? 0 : (metrics.prevalence * percentage) / 100;
+            const estimatedNewCases = percentage === null ? 0 : (metrics.incidence * percentage) / 100;
+            const treatedPatients = estimatedPatients * request.treatmentRate;
+            const treatedNewCases = estimatedNewCases * request.treatmentRate;
+            const annualCost = basePrice === null ? null : basePrice * (priceIndex[region] ?? 1);
+            const courseCost = annualCost === null ? null : (annualCost * request.durationMonths) / 12;
+
+            const row: MarketSizingRow = {
+              indicationId: pair.indicationId,
+              indicationName: indication.name,
+              mutationId: pair.mutationId,
+              mutationName: pair.mutationName,
+              region,
+              percentageOfPatients: pair.mutationId ? percentage : null,
+              estimatedPatients: Math.round(estimatedPatients),
+              estimatedNewCases: Math.round(estimatedNewCases),
+              treatedPatients: Math.round(treatedPatients),
+              treatedNewCases: Math.round(treatedNewCases),
+              therapies: request.annualCostUSD === undefined ? therapies : [],
+              annualCostUSD: annualCost === null ? null : Math.round(annualCost),
+              costPerPatientUSD: courseCost === null ? null : Math.round(courseCost),
+              prevalentMarketUSD: courseCost === null ? null : Math.round(treatedPatients * courseCost),
+              incidentMarketUSD: courseCost === null ? null : Math.round(treatedNewCases * courseCost)
+            };
+            return row;
+          });
+        });
+      });
+
+      const sum = (field: 'prevalentMarketUSD' | 'incidentMarketUSD', selected: MarketSizingRow[]) =>
+        selected.reduce((total, row) => total + (row[field] ?? 0), 0);
+      // Mutation rows of an indication overlap (patients can carry several), so an
+      // indication's total is its whole-indication rows and a mutation's the sum over its indications
+      const totalled = mutationId ? rows : rows.filter(r => r.mutationId === null);
+
+      return {
+        assumptions: {
+          indicationId: indicationId ?? null,
+          mutationId: mutationId ?? null,
+          regions,
+          treatmentRate: request.treatmentRate,
+          durationMonths: request.durationMonths,
+          annualCostUSD: request.annualCostUSD ?? null,
+          therapyIds: request.therapyIds ?? null,
+          priceBasis,
+          priceIndex: Object.fromEntries(regions.map(region => [region, priceIndex[region] ?? 1])),
+          sourcedOnly
+        },
+        currency: 'USD',
+        rows,
+        totals: {
+          byRegion: Object.fromEntries(
+            regions.map(region => {
+              const inRegion = totalled.filter(r => r.region === region);
+              return [region, { prevalentMarketUSD: sum('prevalentMarketUSD', inRegion), incidentMarketUSD: sum('incidentMarketUSD', inRegion) }];
+            })
+          ),
+          prevalentMarketUSD: sum('prevalentMarketUSD', totalled),
+          incidentMarketUSD: sum('incidentMarketUSD', totalled)
+        },
+        unpricedRows: rows.filter(r => r.annualCostUSD === null).length
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  private priceIndex(request: MarketSizingRequestDto): Record<string, number> {
+    const index = request.priceIndex ?? {};
+    for (const [region, value] of Object.entries(index)) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new BadRequestException(`priceIndex.${region} must be a non-negative number`);
+      }
+    }
+    return index;
+  }
+
+  // The pair's share in the region, or the mean over its other regions
+  private shareFor(shares: Array<{ region: string | null; percentage: number }>, region: string): number | null {
+    const own = shares.find(s => s.region === region);
+    if (own) return own.percentage;
+    if (shares.length === 0) return null;
+    return shares.reduce((sum, s) => sum + s.percentage, 0) / shares.length;
+  }
+
+  private async requireNode(tx: Transaction, label: string, id: string) {
+    const res = await tx.run(`MATCH (n:${label} {id: $id}) RETURN n.id AS id`, { id });
+    if (res.records.length === 0) throw new NotFoundException(`${label} not found`);
+  }
+
+  private async mutationShares(
+    tx: Transaction,
+    indicationId: string | null,
+    mutationId: string | null,
+    sourcedOnly: boolean
+  ) {
+    const res = await tx.run(
+      `
+      MATCH (m:Mutation)-[:HAS_PREVALENCE]->(mp:MutationPrevalence)-[:IN_INDICATION]->(i:Indication)
+      WHERE ($indicationId IS NULL OR i.id = $indicationId)
+        AND ($mutationId IS NULL OR m.id = $mutationId)
+        AND mp.percentageOfPatients IS NOT NULL
+        AND (NOT $sourcedOnly OR ${sourcedPredicate('mp')})
+      OPTIONAL MATCH (mp)-[:FOR_REGION]->(r:Region)
+      RETURN i.id AS indicationId, m.id AS mutationId, m.name AS mutationName,
+             mp.percentageOfPatients AS percentage, r.name AS region
+      ORDER BY i.id, m.name
+      `,
+      { indicationId, mutationId, sourcedOnly }
+    );
+    return res.records.map(rec => ({
+      indicationId: rec.get('indicationId') as string,
+      mutationId: rec.get('mutationId') as string,
+      mutationName: rec.get('mutationName') as string,
+      percentage: toNumber(rec.get('percentage')),
+      region: rec.get('region') as string | null
+    }));
+  }
+
+  // Name, current prevalence and incidence per region, and priced therapies of each indication
+  private async indicationData(tx: Transaction, indicationIds: string[], regions: string[], sourcedOnly: boolean) {
+    const res = await tx.run(
+      `
+      MATCH (i:Indication) WHERE i.id IN $indicationIds
+      OPTIONAL MATCH (i)-[:MEASURED_BY]->(e:EpidemiologyMetric)-[:FOR_REGION]->(r:Region)
+      WHERE e.type IN ['PREVALENCE', 'INCIDENCE'] AND r.name IN $regions
+        AND (NOT $sourcedOnly OR ${sourcedPredicate('e')})
+      WITH i, collect(CASE WHEN e IS NULL THEN null ELSE {type: e.type, value: e.value, region: r.name} END) AS metrics
+      OPTIONAL MATCH (i)-[:HAS_THERAPY]->(t:Therapy)
+      WHERE t.annualCostUSA IS NOT NULL AND (NOT $sourcedOnly OR ${sourcedPredicate('t')})
+      RETURN i.id AS id, i.name AS name, metrics, collect(DISTINCT t {.id, .name, .annualCostUSA}) AS therapies
+      `,
+      { indicationIds, regions, sourcedOnly }
+    );
+    return new Map(
+      res.records.map(rec => {
+        const metrics = new Map<string, { prevalence: number; incidence: number }>();
+        for (const metric of rec.get('metrics') as Array<{ type: string; value: any; region: string }>) {
+          const entry = metrics.get(metric.region) ?? { prevalence: 0, incidence: 0 };
+          entry[metric.type === 'PREVALENCE' ? 'prevalence' : 'incidence'] += toNumber(metric.value);
+          metrics.set(metric.region, entry);
+        }
+        return [
+          rec.get('id') as string,
+          { name: rec.get('name') as string, metrics, therapies: this.pricedTherapies(rec.get('therapies')) }
+        ];
+      })
+    );
+  }
+
+  // Priced therapies named by active indication-specific actionability, keyed by indication|mutation
+  private async targetedTherapies(
+    tx: Transaction,
+    shares: Array<{ indicationId: string; mutationId: string }>,
+    sourcedOnly: boolean
+  ) {
+    const res = await tx.run(
+      `
+      MATCH (m:Mutation)-[:HAS_THERAPEUTIC_ACTIONABILITY]->(ta:TherapeuticActionability)-[:FOR_INDICATION]->(i:Indication)
+      WHERE m.id IN $mutationIds AND i.id IN $indicationIds
+        AND ta.retiredAt IS NULL AND ta.drugs IS NOT NULL
+        AND (NOT $sourcedOnly OR ${sourcedPredicate('ta')})
+      UNWIND ta.drugs AS drugName
+      MATCH (t:Therapy)
+      WHERE (t.name = drugName OR drugName IN t.brandNames) AND t.annualCostUSA IS NOT NULL
+        AND (NOT $sourcedOnly OR ${sourcedPredicate('t')})
+      RETURN i.id + '|' + m.id AS pair, collect(DISTINCT t {.id, .name, .annualCostUSA}) AS therapies
+      `,
+      {
+        mutationIds: [...new Set(shares.map(s => s.mutationId))],
+        indicationIds: [...new Set(shares.map(s => s.indicationId))],
+        sourcedOnly
+      }
+    );
+    return new Map(res.records.map(rec => [rec.get('pair') as string, this.pricedTherapies(rec.get('therapies'))]));
+  }
+
+  private async chosenTherapies(tx: Transaction, therapyIds: string[]) {
+    const res = await tx.run(
+      'MATCH (t:Therapy) WHERE t.id IN $therapyIds RETURN t {.id, .name, .annualCostUSA} AS therapy',
+      { therapyIds }
+    );
+    const therapies = this.pricedTherapies(res.records.map(rec => rec.get('therapy')));
+    const missing = therapyIds.filter(id => !therapies.some(t => t.id === id));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Therapy ${missing.join(', ')} does not exist or has no annualCostUSA`);
+    }
+    return therapies;
+  }
+
+  private pricedTherapies(raw: Array<{ id: string; name: string; annualCostUSA: any }>): PricedTherapy[] {
+    return raw
+      .filter(t => t.annualCostUSA !== null && t.annualCostUSA !== undefined)
+      .map(t => ({ id: t.id, name: t.name, annualCostUSA: toNumber(t.annualCostUSA) }));
+  }
+}
\ No newline at end of file
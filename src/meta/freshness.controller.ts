@@ -0,0 +1,19 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { FreshnessService } from './freshness.service';
+import { Scopes } from '../auth/scopes.decorator';
+
+@Controller()
+@Scopes('read:miipa')
+export class FreshnessController {
+  constructor(private readonly freshnessService: FreshnessService) {}
+
+  @Get('indications/:id/freshness')
+  indicationFreshness(@Param('id') id: string) {
+    return this.freshnessService.indicationFreshness(id);
+  }
+
+  @Get('mutations/:id/freshness')
+  mutationFreshness(@Param('id') id: string) {
+    return this.freshnessService.mutationFreshness(id);
+  }
+}
\ No newline at end of file
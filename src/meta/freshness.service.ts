@@ -0,0 +1,207 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Driver } from 'neo4j-driver';
+import {
+  DOMAIN_STAMPS,
+  domainFreshness,
+  Freshness,
+  FRESHNESS_DOMAINS,
+  FreshnessDomain,
+  latest,
+  staleAfterDays,
+  staleDomains
+} from './freshness';
+
+// Latest stamps of the facts shown for the indication bound to `i`
+const INDICATION_STAMPS = `
+  CALL { WITH i OPTIONAL MATCH (i)-[:MEASURED_BY]->(e:EpidemiologyMetric) RETURN max(e.updatedAt) AS epidemiology }
+  CALL { WITH i OPTIONAL MATCH (i)-[:HAS_THERAPY]->(t:Therapy) RETURN max(t.updatedAt) AS therapies, max(t.priceUpdatedAt) AS pricing }
+  CALL { WITH i OPTIONAL MATCH (m:Mutation)-[:ASSOCIATED_WITH]->(i) RETURN max(m.updatedAt) AS mutations }
+  CALL { WITH i OPTIONAL MATCH (p:MutationPrevalence)-[:IN_INDICATION]->(i) RETURN max(p.updatedAt) AS mutationPrevalence }
+  CALL { WITH i OPTIONAL MATCH (a:TherapeuticActionability)-[:FOR_INDICATION]->(i) RETURN max(a.updatedAt) AS actionability }
+  CALL { WITH i OPTIONAL MATCH (pa:PipelineAsset)-[:FOR_INDICATION]->(i) RETURN max(pa.updatedAt) AS competition }
+  CALL { WITH i OPTIONAL MATCH (ct:ClinicalTrial)-[:FOR_INDICATION]->(i) RETURN max(ct.updatedAt) AS trials }
+`;
+
+/**
+ * Computes data freshness from the `updatedAt` and `priceUpdatedAt` stamps
+ * on graph nodes, for the whole graph, one indication or one mutation, and
+ * flags data older than the staleness policy.
+ */
+@Injectable()
+export class FreshnessService {
+  private readonly policy = staleAfterDays();
+
+  constructor(@Inject('NEO4J_DRIVER') private readonly driver: Driver) {}
+
+  /** Latest write per data domain across the whole graph. */
+  async lastUpdates(): Promise<Record<FreshnessDomain, string | null>> {
+    const domains = FRESHNESS_DOMAINS.filter(domain => DOMAIN_STAMPS[domain].labels.length > 0);
+    const subqueries = domains.map((domain, index) => {
+      const { labels, field } = DOMAIN_STAMPS[domain];
+      const label = labels.join('|');
+      return `CALL { OPTIONAL MATCH (n${index}:${label}) RETURN max(n${index}.${field}) AS ${domain} }`;
+    });
+
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(tx =>
+        tx.run(`${subqueries.join('\n')}\nRETURN ${domains.join(', ')}`)
+      );
+      const rec = res.records[0];
+      return Object.fromEntries(
+        FRESHNESS_DOMAINS.map(domain => [domain, domains.includes(domain) ? rec.get(domain) ?? null : null])
+      ) as Record<FreshnessDomain, string | null>;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /** Freshness and staleness per domain across the whole graph. */
+  async graphFreshness() {
+    const updates = await this.lastUpdates();
+    const freshness = this.toFreshness(updates);
+    return { domains: freshness, staleDomains: staleDomains(freshness) };
+  }
+
+  /**
+   * Freshness of the data shown for an indication: its current epidemiology,
+   * therapies and their prices, associated mutations and their prevalence,
+   * indication-specific actionability, pipeline assets and clinical trials.
+   * @throws NotFoundException if the indication does not exist
+   */
+  async indicationFreshness(indicationId: string) {
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(tx =>
+        tx.run(
+          `
+          MATCH (i:Indication {id: $indicationId})
+          ${INDICATION_STAMPS}
+          RETURN i.id AS id, i.name AS name, epidemiology, therapies, pricing, mutations, mutationPrevalence, actionability,
+                 competition, trials
+          `,
+          { indicationId }
+        )
+      );
+      if (res.records.length === 0) throw new NotFoundException('Indication not found');
+      return this.indicationResult(res.records[0]);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Freshness of the data shown for a mutation: the mutation, its prevalence
+   * actionability, the pipeline assets targeting it and the trials enrolling
+   * it, plus epidemiology, therapies and prices of the indications it is
+   * associated with.
+   * @throws NotFoundException if the mutation does not exist
+   */
+  async mutationFreshness(mutationId: string) {
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(tx =>
+        tx.run(
+          `
+          MATCH (m:Mutation {id: $mutationId})
+          CALL { WITH m OPTIONAL MATCH (m)-[:HAS_PREVALENCE]->(p:MutationPrevalence) RETURN max(p.updatedAt) AS mutationPrevalence }
+          CALL {
+            WITH m
+            OPTIONAL MATCH (m)-[:HAS_ACTIONABILITY|HAS_THERAPEUTIC_ACTIONABILITY]->(a)
+            RETURN max(a.updatedAt) AS actionability
+          }
+          CALL {
+            WITH m
+            OPTIONAL MATCH (m)-[:ASSOCIATED_WITH]->(:Indication)-[:MEASURED_BY]->(e:EpidemiologyMetric)
+            RETURN max(e.updatedAt) AS epidemiology
+          }
+          CALL {
+            WITH m
+            OPTIONAL MATCH (m)-[:ASSOCIATED_WITH]->(:Indication)-[:HAS_THERAPY]->(t:Therapy)
+            RETURN max(t.updatedAt) AS therapies, max(t.priceUpdatedAt) AS pricing
+          }
+          CALL { WITH m OPTIONAL MATCH (pa:PipelineAsset)-[:TARGETS]->(m) RETURN max(pa.updatedAt) AS competition }
+          CALL { WITH m OPTIONAL MATCH (ct:ClinicalTrial)-[:FOR_MUTATION]->(m) RETURN max(ct.updatedAt) AS trials }
+          RETURN m.id AS id, m.name AS name, m.updatedAt AS mutation, mutationPrevalence, actionability, epidemiology, therapies, pricing,
+                 competition, trials
+          `,
+          { mutationId }
+        )
+      );
+      if (res.records.length === 0) throw new NotFoundException('Mutation not found');
+      const rec = res.records[0];
+      const freshness = this.toFreshness({
+        epidemiology: rec.get('epidemiology'),
+        therapies: rec.get('therapies'),
+        pricing: rec.get('pricing'),
+        competition: rec.get('competition'),
+        mutations: latest(rec.get('mutation'), rec.get('mutationPrevalence')),
+        actionability: rec.get('actionability'),
+        trials: rec.get('trials')
+      });
+      return {
+        mutationId: rec.get('id'),
+        name: rec.get('name'),
+        domains: freshness,
+        staleDomains: staleDomains(freshness)
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Indications with at least one stale domain, most stale domains first.
+   * `domain` restricts the check to one domain.
+   */
+  async staleIndications(domain?: string) {
+    if (domain !== undefined && !(FRESHNESS_DOMAINS as readonly string[]).includes(domain)) {
+      throw new BadRequestException(`domain must be one of: ${FRESHNESS_DOMAINS.join(', ')}`);
+    }
+
+    const session = this.driver.session();
+    try {
+      const res = await session.readTransaction(tx =>
+        tx.run(`
+          MATCH (i:Indication)
+          ${INDICATION_STAMPS}
+          RETURN i.id AS id, i.name AS name, epidemiology, therapies, pricing, mutations, mutationPrevalence, actionability,
+                 competition, trials
+          ORDER BY i.name
+        `)
+      );
+      const indications = res.records
+        .map(rec => this.indicationResult(rec))
+        .filter(result => (domain ? result.domains[domain as FreshnessDomain].stale : result.staleDomains.length > 0))
+        .sort((a, b) => b.staleDomains.length - a.staleDomains.length);
+      return { staleAfterDays: this.policy, domain: domain ?? null, indications };
+    } finally {
+      await session.close();
+    }
+  }
+
+  private indicationResult(rec: { get(key: string): any }) {
+    const freshness = this.toFreshness({
+      epidemiology: rec.get('epidemiology'),
+      therapies: rec.get('therapies'),
+      pricing: rec.get('pricing'),
+      competition: rec.get('competition'),
+      mutations: latest(rec.get('mutations'), rec.get('mutationPrevalence')),
+      actionability: rec.get('actionability'),
+      trials: rec.get('trials')
+    });
+    return {
+      indicationId: rec.get('id') as string,
+      name: rec.get('name') as string,
+      domains: freshness,
+      staleDomains: staleDomains(freshness)
+    };
+  }
+
+  private toFreshness(updates: Record<FreshnessDomain, string | null>): Freshness {
+    const now = Date.now();
+    return Object.fromEntries(
+      FRESHNESS_DOMAINS.map(domain => [domain, domainFreshness(updates[domain], this.policy[domain], now)])
+    ) as Freshness;
+  }
+}
\ No newline at end of file
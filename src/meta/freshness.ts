@@ -0,0 +1,118 @@
+/**
+ * Data freshness of the knowledge graph.
+ *
+ * Every write path stamps the nodes it creates or changes with `updatedAt`
+ * (an ISO timestamp); Therapy nodes also get `priceUpdatedAt` when their
+ * `annualCostUSA` changes. Freshness is the latest stamp within a data domain,
+ * and a domain is stale once that stamp is older than its policy allows.
+ */
+
+export const FRESHNESS_DOMAINS = [
+  'epidemiology',
+  'therapies',
+  'pricing',
+  'competition',
+  'mutations',
+  'actionability',
+  'trials'
+] as const;
+
+export type FreshnessDomain = (typeof FRESHNESS_DOMAINS)[number];
+
+/** Labels and stamp property whose latest value is a domain's last update. */
+export const DOMAIN_STAMPS: Record<FreshnessDomain, { labels: string[]; field: string }> = {
+  epidemiology: { labels: ['EpidemiologyMetric'], field: 'updatedAt' },
+  therapies: { labels: ['Therapy'], field: 'updatedAt' },
+  pricing: { labels: ['Therapy'], field: 'priceUpdatedAt' },
+  competition: { labels: ['Company', 'PipelineAsset'], field: 'updatedAt' },
+  mutations: { labels: ['Mutation', 'MutationPrevalence'], field: 'updatedAt' },
+  actionability: { labels: ['Actionability', 'TherapeuticActionability'], field: 'updatedAt' },
+  trials: { labels: ['ClinicalTrial'], field: 'updatedAt' }
+};
+
+/** Default maximum age in days before a domain's data counts as stale. */
+export const DEFAULT_STALE_AFTER_DAYS: Record<FreshnessDomain, number> = {
+  epidemiology: 365,
+  therapies: 180,
+  pricing: 90,
+  competition: 90,
+  mutations: 365,
+  actionability: 180,
+  trials: 90
+};
+
+export interface DomainFreshness {
+  lastUpdated: string | null;
+  ageDays: number | null;
+  staleAfterDays: number;
+  stale: boolean;
+}
+
+export type Freshness = Record<FreshnessDomain, DomainFreshness>;
+
+/**
+ * Cypher SET item stamping the node bound to `variable` as written now, or
+ * at `preferred` when that expression is not null (imports keep the stamps
+ * of the records they restore).
+ */
+export function updatedStamp(variable: string, preferred?: string): string {
+  return preferred
+    ? `${variable}.updatedAt = coalesce(${preferred}, toString(datetime()))`
+    : `${variable}.updatedAt = toString(datetime())`;
+}
+
+/**
+ * Cypher SET item stamping a Therapy's price change. It must run before the
+ * new properties are set, while the node still holds the previous cost.
+ */
+export function priceStamp(variable: string, costExpression: string): string {
+  return `${variable}.priceUpdatedAt = CASE
+    WHEN ${costExpression} IS NULL OR ${variable}.annualCostUSA = ${costExpression} THEN ${variable}.priceUpdatedAt
+    ELSE toString(datetime())
+  END`;
+}
+
+/**
+ * Staleness policy: the defaults, overridden by STALE_AFTER_DAYS
+ * (comma-separated `domain=days` pairs, e.g. `pricing=60,therapies=120`).
+ */
+export function staleAfterDays(setting = process.env.STALE_AFTER_DAYS): Record<FreshnessDomain, number> {
+  const policy = { ...DEFAULT_STALE_AFTER_DAYS };
+  for (const entry of (setting || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const [domain, days] = entry.split('=').map(part => part.trim());
+    if (!(FRESHNESS_DOMAINS as readonly string[]).includes(domain) || !/^\d+$/.test(days ?? '')) {
+      throw new Error(`Invalid STALE_AFTER_DAYS entry "${entry}": expected <domain>=<days> with domain one of ${FRESHNESS_DOMAINS.join(', ')}`);
+    }
+    policy[domain as FreshnessDomain] = Number(days);
+  }
+  return policy;
+}
+
+/** Latest of several ISO timestamps, ignoring missing ones. */
+export function latest(...stamps: Array<string | null | undefined>): string | null {
+  let result: string | null = null;
+  let resultTime = -Infinity;
+  for (const stamp of stamps) {
+    const time = stamp ? Date.parse(stamp) : NaN;
+    if (!Number.isNaN(time) && time > resultTime) {
+      result = stamp as string;
+      resultTime = time;
+    }
+  }
+  return result;
+}
+
+/** Domain freshness at `now`. Domains without any stamped data are never stale. */
+export function domainFreshness(lastUpdated: string | null, staleAfter: number, now = Date.now()): DomainFreshness {
+  const ageDays = lastUpdated ? Math.max(0, Math.floor((now - Date.parse(lastUpdated)) / 86_400_000)) : null;
+  return {
+    lastUpdated,
+    ageDays,
+    staleAfterDays: staleAfter,
+    stale: ageDays !== null && ageDays > staleAfter
+  };
+}
+
+export function staleDomains(freshness: Freshness): FreshnessDomain[] {
+  return FRESHNESS_DOMAINS.filter(domain => freshness[domain].stale);
+}
\ No newline at end of file
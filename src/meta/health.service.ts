@@ -0,0 +1,123 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Driver } from 'neo4j-driver';
+import { DataSource } from 'typeorm';
+
+export type DependencyStatus = 'up' | 'down';
+
+export interface DependencyCheck {
+  status: DependencyStatus;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface Neo4jCheck extends DependencyCheck {
+  // Node count per label
+  labels?: Record<string, number>;
+}
+
+export interface Readiness {
+  status: 'ok' | 'unavailable';
+  checkedAt: string;
+  dependencies: {
+    neo4j: Neo4jCheck;
+    postgres: DependencyCheck;
+  };
+}
+
+// Per-dependency limit, so a hanging database fails the check instead of the probe
+const CHECK_TIMEOUT_MS = Number(process.env.HEALTH_CHECK_TIMEOUT_MS) || 3000;
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Status and latency only, for unauthenticated probes
+function summary({ status, latencyMs }: DependencyCheck): DependencyCheck {
+  return { status, latencyMs };
+}
+
+/**
+ * Liveness and readiness of the API. Liveness only says the process is
+ * serving requests; readiness checks that Neo4j and Postgres answer a
+ * trivial query within the timeout. Label counts are only computed, and
+ * error messages only included, when `detailed` is requested; failures are
+ * always logged.
+ */
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+
+  constructor(
+    @Inject('NEO4J_DRIVER') private readonly driver: Driver,
+    private readonly dataSource: DataSource
+  ) {}
+
+  liveness() {
+    return { status: 'ok', uptimeSeconds: Math.round(process.uptime()) };
+  }
+
+  async readiness(detailed = false): Promise<Readiness> {
+    const [neo4j, postgres] = await Promise.all([this.checkNeo4j(detailed), this.checkPostgres()]);
+    const status = neo4j.status === 'up' && postgres.status === 'up' ? 'ok' : 'unavailable';
+    if (status !== 'ok') {
+      this.logger.warn(`Not ready: neo4j ${neo4j.status}, postgres ${postgres.status}`);
+    }
+    const dependencies = detailed
+      ? { neo4j, postgres }
+      : { neo4j: summary(neo4j), postgres: summary(postgres) };
+    return { status, checkedAt: new Date().toISOString(), dependencies };
+  }
+
+  // Counting nodes costs a query per label, so only detailed checks do it
+  private async checkNeo4j(countLabels: boolean): Promise<Neo4jCheck> {
+    return this.check('Neo4j', async () => {
+      await withTimeout(this.driver.verifyConnectivity(), CHECK_TIMEOUT_MS, 'Neo4j connectivity check');
+      const session = this.driver.session({ defaultAccessMode: 'READ' });
+      try {
+        const run = async () => {
+          await session.run('RETURN 1', {}, { timeout: CHECK_TIMEOUT_MS });
+          if (!countLabels) return undefined;
+          const labelRes = await session.run('CALL db.labels() YIELD label RETURN label ORDER BY label', {}, {
+            timeout: CHECK_TIMEOUT_MS
+          });
+          const labels = labelRes.records.map(rec => rec.get('label') as string);
+          if (labels.length === 0) return {};
+          // A count per fixed label is answered from the count store instead of scanning nodes
+          const query = labels
+            .map((label, index) => `MATCH (n:\`${label.replace(/`/g, '``')}\`) RETURN $labels[${index}] AS label, count(n) AS count`)
+            .join(' UNION ALL ');
+          const counts = await session.run(query, { labels }, { timeout: CHECK_TIMEOUT_MS });
+          return Object.fromEntries(counts.records.map(rec => [rec.get('label'), rec.get('count').toNumber()]));
+        };
+        const labels = await withTimeout(run(), CHECK_TIMEOUT_MS, 'Neo4j query');
+        return labels ? { labels } : {};
+      } finally {
+        await session.close();
+      }
+    });
+  }
+
+  private async checkPostgres(): Promise<DependencyCheck> {
+    return this.check('Postgres', async () => {
+      if (!this.dataSource.isInitialized) throw new Error('Postgres connection is not initialized');
+      await withTimeout(this.dataSource.query('SELECT 1'), CHECK_TIMEOUT_MS, 'Postgres query');
+      return {};
+    });
+  }
+
+  private async check<T extends object>(name: string, probe: () => Promise<T>): Promise<DependencyCheck & Partial<T>> {
+    const started = Date.now();
+    try {
+      const details = await probe();
+      return { status: 'up', latencyMs: Date.now() - started, ...details };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`${name} check failed: ${message}`);
+      return { status: 'down', latencyMs: Date.now() - started, error: message } as DependencyCheck & Partial<T>;
+    }
+  }
+}
\ No newline at end of file
@@ -1,20 +1,61 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Query, ServiceUnavailableException } from '@nestjs/common';
+import { Public } from '../auth/public.decorator';
+import { FreshnessService } from './freshness.service';
+import { HealthService } from './health.service';
 
 @Controller('meta')
 export class MetaController {
+  constructor(
+    private readonly freshnessService: FreshnessService,
+    private readonly healthService: HealthService
+  ) {}
+
+  // Latest write per data domain, as ISO timestamps (null when nothing is stamped yet)
   @Get('last-updates')
   lastUpdates() {
-    // For MVP, hard-code or wire to PG table later
-    return {
-      epidemiology: '2025-01-01',
-      therapies: '2025-01-01',
-      pricing: '2025-01-01',
-      competition: '2025-01-01'
-    };
+    return this.freshnessService.lastUpdates();
+  }
+
+  @Get('freshness')
+  freshness() {
+    return this.freshnessService.graphFreshness();
   }
 
+  @Get('freshness/stale-indications')
+  staleIndications(@Query('domain') domain?: string) {
+    return this.freshnessService.staleIndications(domain);
+  }
+
+  // Readiness, kept at the path the deployment health check already probes
+  @Public()
   @Get('health')
   health() {
-    return { status: 'ok' };
+    return this.ready();
+  }
+
+  // The process is up and serving requests; never touches the databases
+  @Public()
+  @Get('health/live')
+  live() {
+    return this.healthService.liveness();
+  }
+
+  // Neo4j and Postgres both answer; 503 with the per-dependency status and latency otherwise
+  @Public()
+  @Get('health/ready')
+  ready() {
+    return this.readiness(false);
+  }
+
+  // Readiness with graph counts per label and dependency error messages, for signed-in users
+  @Get('health/details')
+  details() {
+    return this.readiness(true);
+  }
+
+  private async readiness(detailed: boolean) {
+    const readiness = await this.healthService.readiness(detailed);
+    if (readiness.status !== 'ok') throw new ServiceUnavailableException(readiness);
+    return readiness;
   }
-}
+}
\ No newline at end of file
@@ -1,7 +1,11 @@
 import { Module } from '@nestjs/common';
 import { MetaController } from './meta.controller';
+import { FreshnessController } from './freshness.controller';
+import { FreshnessService } from './freshness.service';
+import { HealthService } from './health.service';
 
 @Module({
-  controllers: [MetaController]
+  providers: [FreshnessService, HealthService],
+  controllers: [MetaController, FreshnessController]
 })
-export class MetaModule {}
+export class MetaModule {}
\ No newline at end of file
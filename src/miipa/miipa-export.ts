@@ -0,0 +1,365 @@
+import { StreamableFile } from '@nestjs/common';
+import { csvFile, ExportFormat, ExportTable, pdfFile, printable, xlsxFile } from '../export/export-file';
+import { PdfDocument } from '../export/pdf';
+import { today } from '../provenance/provenance';
+
+/**
+ * Flattens the MIIPA views into export tables and printable one-pagers.
+ * Column keys follow the JSON field names so CSV exports line up with the
+ * dataset upload columns.
+ */
+
+const PROVENANCE_COLUMNS = [
+  { key: 'source', header: 'Source' },
+  { key: 'sourceUrl', header: 'Source URL' },
+  { key: 'retrievedAt', header: 'Retrieved' }
+];
+
+const EPIDEMIOLOGY_COLUMNS = [
+  { key: 'region', header: 'Region' },
+  { key: 'type', header: 'Metric' },
+  { key: 'value', header: 'Value' },
+  { key: 'unit', header: 'Unit' },
+  { key: 'year', header: 'Year' },
+  { key: 'confidence', header: 'Confidence' },
+  ...PROVENANCE_COLUMNS
+];
+
+const TRIAL_COLUMNS = [
+  { key: 'id', header: 'Registry ID' },
+  { key: 'title', header: 'Trial' },
+  { key: 'phase', header: 'Phase' },
+  { key: 'status', header: 'Status' },
+  { key: 'sponsor', header: 'Sponsor' },
+  { key: 'enrollment', header: 'Enrollment' },
+  { key: 'biomarkerCriteria', header: 'Biomarker criteria' },
+  ...PROVENANCE_COLUMNS
+];
+
+// Views from snapshots taken before trials were tracked have none
+function trialsTable(view: any): ExportTable {
+  return {
+    name: 'Trials',
+    columns: TRIAL_COLUMNS,
+    // Criteria contain commas of their own
+    rows: (view.clinicalTrials?.trials ?? []).map((t: any) => ({
+      ...withProvenance(t),
+      biomarkerCriteria: (t.biomarkerCriteria ?? []).join('; ')
+    }))
+  };
+}
+
+// PDF tables list at most this many rows per section to stay on one page
+const ONE_PAGER_ROWS = 12;
+
+// Epidemiology, therapies and diagnostics come back once per region; keep one row each
+function unique<T extends Record<string, any>>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+function withProvenance<T extends Record<string, any>>(item: T) {
+  return { ...item, ...(item.provenance ?? {}) };
+}
+
+/** Latest retrieval date among the view's facts, or today when none is recorded. */
+export function dataAsOf(facts: Array<{ provenance?: { retrievedAt: string | null } | null }>): string {
+  const dates = facts.map(f => f.provenance?.retrievedAt).filter((d): d is string => !!d).sort();
+  return dates.length ? dates[dates.length - 1].slice(0, 10) : today();
+}
+
+function indicationAsOf(view: any) {
+  return dataAsOf([
+    ...view.epidemiology,
+    ...view.therapies,
+    ...view.mutations.map((m: any) => ({ provenance: m.prevalenceProvenance }))
+  ]);
+}
+
+function mutationAsOf(view: any) {
+  return dataAsOf([...view.epidemiology, ...view.actionability, ...view.therapies]);
+}
+
+// First workbook sheet: what the export covers
+function overviewTable(fields: [string, unknown][]): ExportTable {
+  return {
+    name: 'Overview',
+    columns: [
+      { key: 'field', header: 'Field' },
+      { key: 'value', header: 'Value' }
+    ],
+    rows: fields.map(([field, value]) => ({ field, value }))
+  };
+}
+
+export function indicationMiipaTables(view: any): ExportTable[] {
+  return [
+    {
+      name: 'Mutations',
+      columns: [
+        { key: 'id', header: 'Mutation ID' },
+        { key: 'name', header: 'Mutation' },
+        { key: 'gene', header: 'Gene' },
+        { key: 'percentageOfPatients', header: '% of patients' },
+        { key: 'estimatedPrevalencePatients', header: 'Est. prevalent patients' },
+        { key: 'estimatedIncidencePatients', header: 'Est. new cases / year' },
+        { key: 'crowdedness', header: 'Crowdedness' },
+        ...PROVENANCE_COLUMNS
+      ],
+      rows: view.mutations.map((m: any) => ({
+        ...m,
+        ...(m.prevalenceProvenance ?? {}),
+        crowdedness: m.crowdedness?.score ?? null
+      }))
+    },
+    {
+      name: 'Epidemiology',
+      columns: EPIDEMIOLOGY_COLUMNS,
+      rows: unique(view.epidemiology, (e: any) => e.id ?? `${e.region}:${e.type}`).map(withProvenance)
+    },
+    {
+      name: 'Therapies',
+      columns: [
+        { key: 'id', header: 'Therapy ID' },
+        { key: 'name', header: 'Therapy' },
+        { key: 'mechanism', header: 'Mechanism' },
+        { key: 'approvalStatus', header: 'Approval status' },
+        { key: 'annualCostUSA', header: 'Annual cost (USD)' },
+        ...PROVENANCE_COLUMNS
+      ],
+      rows: unique(view.therapies, (t: any) => t.id ?? t.name).map(t => ({
+        ...withProvenance(t),
+        approvalStatus: t.approvalStatus ?? t.status
+      }))
+    },
+    {
+      name: 'Diagnostics',
+      columns: [
+        { key: 'id', header: 'Diagnostic ID' },
+        { key: 'name', header: 'Diagnostic' },
+        { key: 'type', header: 'Type' },
+        { key: 'invasiveness', header: 'Invasiveness' }
+      ],
+      rows: unique(view.diagnostics, (d: any) => d.id ?? d.name)
+    },
+    trialsTable(view)
+  ];
+}
+
+export function mutationMiipaTables(view: any): ExportTable[] {
+  return [
+    {
+      name: 'Indications',
+      columns: [
+        { key: 'id', header: 'Indication ID' },
+        { key: 'name', header: 'Indication' },
+        { key: 'oncotreeCode', header: 'OncoTree code' },
+        { key: 'crowdedness', header: 'Crowdedness' }
+      ],
+      rows: view.indications.map((i: any) => ({ ...i, crowdedness: i.crowdedness?.score ?? null }))
+    },
+    {
+      name: 'Therapies',
+      columns: [
+        { key: 'name', header: 'Therapy' },
+        { key: 'indication', header: 'Indication' },
+        { key: 'level', header: 'Level' },
+        { key: 'fdaApproved', header: 'FDA approved' },
+        { key: 'mechanism', header: 'Mechanism' },
+        { key: 'annualCostUSA', header: 'Annual cost (USD)' },
+        ...PROVENANCE_COLUMNS
+      ],
+      rows: view.therapies.map((t: any) => withProvenance({ ...t, provenance: t.provenance ?? t.actionabilityProvenance }))
+    },
+    {
+      name: 'Actionability',
+      columns: [
+        { key: 'level', header: 'Level' },
+        { key: 'evidence', header: 'Evidence' },
+        { key: 'fdaApproved', header: 'FDA approved' },
+        { key: 'drugs', header: 'Drugs' },
+        ...PROVENANCE_COLUMNS
+      ],
+      rows: view.actionability.map(withProvenance)
+    },
+    {
+      name: 'Epidemiology',
+      columns: EPIDEMIOLOGY_COLUMNS,
+      rows: unique(view.epidemiology, (e: any) => e.id ?? `${e.region}:${e.type}`).map(withProvenance)
+    },
+    {
+      name: 'Diagnostics',
+      columns: [
+        { key: 'name', header: 'Diagnostic' },
+        { key: 'type', header: 'Type' },
+        { key: 'indication', header: 'Indication' }
+      ],
+      rows: unique(view.diagnostics, (d: any) => `${d.id ?? d.name}:${d.indication}`)
+    },
+    trialsTable(view)
+  ];
+}
+
+export function topIndicationsTable(rows: any[]): ExportTable {
+  return {
+    name: 'Indications',
+    columns: [
+      { key: 'rank', header: 'Rank' },
+      { key: 'id', header: 'Indication ID' },
+      { key: 'name', header: 'Indication' },
+      { key: 'totalPrevalence', header: 'Prevalence' },
+      { key: 'totalIncidence', header: 'Incidence / year' }
+    ],
+    rows
+  };
+}
+
+export function allMutationsTable(rows: any[]): ExportTable {
+  return {
+    name: 'Mutations',
+    columns: [
+      { key: 'id', header: 'Mutation ID' },
+      { key: 'name', header: 'Mutation' },
+      { key: 'gene', header: 'Gene' },
+      { key: 'alteration', header: 'Alteration' },
+      { key: 'oncogenic', header: 'Oncogenic' },
+      { key: 'actionabilityCount', header: 'Actionable indications' },
+      { key: 'estimatedPatients', header: 'Est. prevalent patients' },
+      { key: 'estimatedNewCases', header: 'Est. new cases / year' }
+    ],
+    rows
+  };
+}
+
+// PDF section from an export table, keeping the given columns
+function section(table: ExportTable, keys: string[], rightAligned: string[] = [], sortBy?: string) {
+  const columns = keys.map(k => table.columns.find(c => c.key === k)!);
+  const rows = sortBy ? [...table.rows].sort((a, b) => (b[sortBy] ?? 0) - (a[sortBy] ?? 0)) : table.rows;
+  const more = rows.length - ONE_PAGER_ROWS;
+  return {
+    heading: more > 0 ? `${table.name} (top ${ONE_PAGER_ROWS} of ${rows.length})` : table.name,
+    table: {
+      columns: columns.map(c => ({
+        header: c.header,
+        width: c.key === 'name' || c.key === 'source' ? 2 : 1,
+        align: rightAligned.includes(c.key) ? ('right' as const) : ('left' as const)
+      })),
+      // Years print without thousands separators
+      rows: rows.slice(0, ONE_PAGER_ROWS).map(row => columns.map(c => (c.key === 'year' ? String(row.year ?? '') : printable(row[c.key]))))
+    }
+  };
+}
+
+function header(regions: string[], asOf: string, sourcedOnly: boolean) {
+  return [
+    `Regions: ${regions.join(', ')}${sourcedOnly ? ' - sourced facts only' : ''}`,
+    `Data as of ${asOf} - generated ${today()}`
+  ];
+}
+
+export function indicationOnePager(view: any, regions: string[]): PdfDocument {
+  const tables = indicationMiipaTables(view);
+  const [mutations, epidemiology, therapies, diagnostics, trials] = tables;
+  const total = (type: string) =>
+    epidemiology.rows.filter(e => e.type === type).reduce((sum, e) => sum + (Number(e.value) || 0), 0);
+
+  return {
+    title: `${view.indication.name} - MIIPA profile`,
+    headerLines: header(regions, indicationAsOf(view), view.sourcedOnly),
+    sections: [
+      {
+        heading: 'Summary',
+        lines: [
+          `Prevalence: ${printable(total('PREVALENCE'))} patients; incidence: ${printable(total('INCIDENCE'))} new cases per year`,
+          `${mutations.rows.length} mutations, ${therapies.rows.length} therapies, ${diagnostics.rows.length} diagnostics`,
+          `${trials.rows.length} clinical trials, ${view.clinicalTrials?.active ?? 0} active`
+        ]
+      },
+      section(epidemiology, ['region', 'type', 'value', 'unit', 'year', 'source'], ['value', 'year']),
+      section(
+        mutations,
+        ['name', 'gene', 'percentageOfPatients', 'estimatedPrevalencePatients', 'estimatedIncidencePatients'],
+        ['percentageOfPatients', 'estimatedPrevalencePatients', 'estimatedIncidencePatients'],
+        'estimatedPrevalencePatients'
+      ),
+      section(therapies, ['name', 'mechanism', 'approvalStatus', 'annualCostUSA'], ['annualCostUSA'])
+    ],
+    footer: `MIIPA - ${view.indication.id}`
+  };
+}
+
+export function mutationOnePager(view: any, regions: string[]): PdfDocument {
+  const [indications, therapies, actionability, epidemiology] = mutationMiipaTables(view);
+  const gene = view.gene?.hugoSymbol ?? view.mutation.gene;
+
+  return {
+    title: `${view.mutation.name} - MIIPA profile`,
+    headerLines: header(regions, mutationAsOf(view), view.sourcedOnly),
+    sections: [
+      {
+        heading: 'Summary',
+        lines: [
+          `Gene: ${gene ?? 'unknown'}; oncogenic: ${view.mutation.oncogenic ?? 'Unknown'}`,
+          `Indications: ${indications.rows.map((i: any) => i.name).join(', ') || 'none'}`,
+          `Clinical trials: ${view.clinicalTrials?.count ?? 0}, ${view.clinicalTrials?.active ?? 0} active`
+        ]
+      },
+      section(actionability, ['level', 'evidence', 'fdaApproved', 'drugs']),
+      section(therapies, ['name', 'indication', 'level', 'fdaApproved', 'annualCostUSA'], ['annualCostUSA']),
+      section(epidemiology, ['region', 'type', 'value', 'unit', 'year', 'source'], ['value', 'year'])
+    ],
+    footer: `MIIPA - ${view.mutation.id}`
+  };
+}
+
+/** Non-JSON rendering of an indication MIIPA view. */
+export function exportIndicationMiipa(
+  view: any,
+  regions: string[],
+  format: Exclude<ExportFormat, 'json'>,
+  table?: string
+): StreamableFile {
+  const basename = `${view.indication.id}-miipa`;
+  if (format === 'csv') return csvFile(indicationMiipaTables(view), basename, table);
+  if (format === 'xlsx') {
+    const overview = overviewTable([
+      ['Indication', view.indication.name],
+      ['Indication ID', view.indication.id],
+      ['Regions', regions],
+      ['Sourced facts only', view.sourcedOnly],
+      ['Data as of', indicationAsOf(view)],
+      ['Generated', today()]
+    ]);
+    return xlsxFile([overview, ...indicationMiipaTables(view)], basename);
+  }
+  return pdfFile(indicationOnePager(view, regions), basename);
+}
+
+/** Non-JSON rendering of a mutation MIIPA view. */
+export function exportMutationMiipa(
+  view: any,
+  regions: string[],
+  format: Exclude<ExportFormat, 'json'>,
+  table?: string
+): StreamableFile {
+  const basename = `${view.mutation.id}-miipa`;
+  if (format === 'csv') return csvFile(mutationMiipaTables(view), basename, table);
+  if (format === 'xlsx') {
+    const overview = overviewTable([
+      ['Mutation', view.mutation.name],
+      ['Mutation ID', view.mutation.id],
+      ['Gene', view.gene?.hugoSymbol ?? view.mutation.gene],
+      ['Regions', regions],
+      ['Sourced facts only', view.sourcedOnly],
+      ['Data as of', mutationAsOf(view)],
+      ['Generated', today()]
+    ]);
+    return xlsxFile([overview, ...mutationMiipaTables(view)], basename);
+  }
+  return pdfFile(mutationOnePager(view, regions), basename);
+}
\ No newline at end of file
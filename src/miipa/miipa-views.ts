@@ -0,0 +1,168 @@
+import { GraphBundle, RELATIONSHIP_FIELDS, GraphBundleSection } from '../graph-bundle/graph-bundle.dto';
+import { MiipaOptions } from './miipa.service';
+import { SortBy, SortOrder } from '../mutations/mutations.service';
+import { isSourced, provenanceOf } from '../provenance/provenance';
+import { crowdednessOf } from '../competition/crowdedness';
+import { trialSummaryOf } from '../clinical-trials/trial-summary';
+import { GLOBAL_REGION, mutationEstimate, totalsByRegion } from './mutation-shares';
+
+/**
+ * The MIIPA indication view and the mutation list, computed from a graph
+ * bundle. The live endpoints run them over an export of the sections they
+ * need and `asOf` requests over a snapshot, so both always agree.
+ */
+
+export const INDICATION_VIEW_SECTIONS: GraphBundleSection[] = [
+  'indications',
+  'mutations',
+  'therapies',
+  'diagnostics',
+  'epidemiology',
+  'mutationPrevalence',
+  'actionability',
+  'pipelineAssets',
+  'clinicalTrials'
+];
+
+export const MUTATION_LIST_SECTIONS: GraphBundleSection[] = ['mutations', 'epidemiology', 'mutationPrevalence', 'actionability'];
+
+type Rec = Record<string, any>;
+
+// A bundle record as the node it was exported from: relationship fields removed
+function node(section: GraphBundleSection, record: Rec): Rec {
+  return Object.fromEntries(Object.entries(record).filter(([field]) => !RELATIONSHIP_FIELDS[section].includes(field)));
+}
+
+function currentMetrics(bundle: GraphBundle, indicationId: string, regions: string[], sourcedOnly: boolean) {
+  return (bundle.epidemiology as Rec[]).filter(
+    e =>
+      e.indicationId === indicationId &&
+      e.current !== false &&
+      regions.includes(e.region) &&
+      (!sourcedOnly || isSourced(e))
+  );
+}
+
+export function indicationMiipaView(
+  bundle: GraphBundle,
+  indicationId: string,
+  regions: string[],
+  options: MiipaOptions = {}
+) {
+  const sourcedOnly = !!options.sourcedOnly;
+  const indication = bundle.indications.find(i => i.id === indicationId);
+  if (!indication) return null;
+
+  const metrics = currentMetrics(bundle, indicationId, regions, sourcedOnly);
+  const totals = {
+    prevalence: totalsByRegion(metrics.filter(e => e.type === 'PREVALENCE')),
+    incidence: totalsByRegion(metrics.filter(e => e.type === 'INCIDENCE'))
+  };
+
+  const prevalence = (bundle.mutationPrevalence as Rec[]).filter(mp => mp.indicationId === indicationId);
+  const therapeutic = (bundle.actionability as Rec[]).filter(a => a.indicationId === indicationId);
+  // Snapshots taken before pipeline assets were tracked have none
+  const assets = ((bundle.pipelineAssets ?? []) as Rec[]).filter(
+    a => (a.indicationIds ?? []).includes(indicationId) && (!sourcedOnly || isSourced(a))
+  );
+
+  const mutations = (bundle.mutations as Rec[])
+    .filter(m => m.gene)
+    .filter(
+      m =>
+        (m.indicationIds ?? []).includes(indicationId) ||
+        therapeutic.some(a => a.mutationId === m.id) ||
+        prevalence.some(mp => mp.mutationId === m.id)
+    )
+    .map(m => {
+      const shares = prevalence
+        .filter(mp => mp.mutationId === m.id && (!sourcedOnly || isSourced(mp)))
+        .map(mp => ({ region: mp.region, percentageOfPatients: mp.percentageOfPatients, provenance: provenanceOf(mp) }));
+      return {
+        ...node('mutations', m),
+        gene: m.gene,
+        ...mutationEstimate(shares, regions, totals),
+        crowdedness: crowdednessOf(assets.filter(a => (a.mutationIds ?? []).includes(m.id)))
+      };
+    });
+
+  // Likewise for clinical trials
+  const trials = ((bundle.clinicalTrials ?? []) as Rec[])
+    .filter(t => (t.indicationIds ?? []).includes(indicationId) && (!sourcedOnly || isSourced(t)))
+    .map(t => ({
+      id: t.id as string,
+      ...node('clinicalTrials', t),
+      indicationIds: t.indicationIds ?? [],
+      mutationIds: t.mutationIds ?? [],
+      therapyIds: t.therapyIds ?? [],
+      provenance: provenanceOf(t)
+    }));
+
+  const linked = (section: 'therapies' | 'diagnostics') =>
+    (bundle[section] as Rec[]).filter(r => (r.indicationIds ?? []).includes(indicationId));
+
+  return {
+    indication: node('indications', indication),
+    mutations,
+    epidemiology: metrics.map(e => ({ ...node('epidemiology', e), region: e.region, provenance: provenanceOf(e) })),
+    therapies: linked('therapies')
+      .filter(t => !sourcedOnly || isSourced(t))
+      .map(t => ({ ...node('therapies', t), region: null, provenance: provenanceOf(t) })),
+    diagnostics: linked('diagnostics').map(d => ({ ...node('diagnostics', d), region: null })),
+    clinicalTrials: trialSummaryOf(trials),
+    sourcedOnly
+  };
+}
+
+export function mutationListView(
+  bundle: GraphBundle,
+  limit = 50,
+  sortBy: SortBy = 'actionability',
+  sortOrder: SortOrder = 'desc',
+  regions: string[] = ['USA', 'EU', 'APAC']
+) {
+  const metricValues = (indicationId: string, type: string, region: string) =>
+    (bundle.epidemiology as Rec[])
+      .filter(e => e.indicationId === indicationId && e.type === type && e.current !== false && e.region === region)
+      .map(e => e.value as number);
+
+  const rows = (bundle.mutations as Rec[])
+    .filter(m => m.gene)
+    .map(m => {
+      const mps = (bundle.mutationPrevalence as Rec[]).filter(mp => mp.mutationId === m.id);
+      const indicationIds = [...new Set(mps.map(mp => mp.indicationId as string))];
+      // Per indication and region: the region's share, else the GLOBAL one, times the region's metrics
+      const estimate = (type: string) =>
+        indicationIds.reduce((sum, indicationId) => {
+          const shares = mps.filter(mp => mp.indicationId === indicationId);
+          return regions.reduce((s, region) => {
+            const share = shares.find(mp => mp.region === region) ?? shares.find(mp => mp.region === GLOBAL_REGION);
+            if (!share) return s;
+            return s + metricValues(indicationId, type, region).reduce((t, v) => t + (v * share.percentageOfPatients) / 100, 0);
+          }, sum);
+        }, 0);
+      return {
+        id: m.id,
+        name: m.name,
+        gene: m.gene,
+        alteration: m.alteration,
+        oncogenic: m.oncogenic || 'Unknown',
+        actionabilityCount: (bundle.actionability as Rec[]).filter(
+          a => a.mutationId === m.id && a.indicationId && !a.retiredAt
+        ).length,
+        estimatedPatients: Math.round(estimate('PREVALENCE')),
+        estimatedNewCases: Math.round(estimate('INCIDENCE'))
+      };
+    });
+
+  // Ties are broken by name
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  const byName = (a: Rec, b: Rec) => String(a.name).localeCompare(String(b.name));
+  const sortFields = { prevalence: 'estimatedPatients', incidence: 'estimatedNewCases', actionability: 'actionabilityCount' } as const;
+  rows.sort((a, b) => {
+    if (sortBy === 'alphabetical') return direction * byName(a, b);
+    const field = sortFields[sortBy] ?? 'actionabilityCount';
+    return direction * (a[field] - b[field]) || byName(a, b);
+  });
+  return rows.slice(0, limit);
+}
\ No newline at end of file
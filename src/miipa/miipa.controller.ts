@@ -1,29 +1,51 @@
 import { Controller, Get, Param, Query, NotFoundException } from '@nestjs/common';
 import { MiipaService } from './miipa.service';
+import { exportIndicationMiipa, exportMutationMiipa } from './miipa-export';
+import { parseExportFormat } from '../export/export-file';
+import { SnapshotsService } from '../snapshots/snapshots.service';
+import { Scopes } from '../auth/scopes.decorator';
 
 @Controller()
+@Scopes('read:miipa')
 export class MiipaController {
-  constructor(private readonly miipaService: MiipaService) {}
+  constructor(
+    private readonly miipaService: MiipaService,
+    private readonly snapshotsService: SnapshotsService
+  ) {}
 
   @Get('indications/:id/miipa')
   async indicationMiipa(
     @Param('id') id: string,
-    @Query('regions') regions?: string
+    @Query('regions') regions?: string,
+    @Query('sourcedOnly') sourcedOnly?: string,
+    @Query('format') format?: string,
+    @Query('table') table?: string,
+    @Query('asOf') asOf?: string
   ) {
+    const exportFormat = parseExportFormat(format);
     const regionList = regions ? regions.split(',') : ['USA', 'EU', 'APAC'];
-    const result = await this.miipaService.getIndicationMiipa(id, regionList);
+    const options = { sourcedOnly: sourcedOnly === 'true' };
+    // asOf names a snapshot (or a date, meaning the latest snapshot taken by then)
+    const result = asOf
+      ? await this.snapshotsService.indicationMiipa(asOf, id, regionList, options)
+      : await this.miipaService.getIndicationMiipa(id, regionList, options);
     if (!result) throw new NotFoundException('Indication not found');
-    return result;
+    // csv returns one table (?table=, default the first), xlsx every table, pdf a one-page summary
+    return exportFormat === 'json' ? result : exportIndicationMiipa(result, regionList, exportFormat, table);
   }
 
   @Get('mutations/:id/miipa')
   async mutationMiipa(
     @Param('id') id: string,
-    @Query('regions') regions?: string
+    @Query('regions') regions?: string,
+    @Query('sourcedOnly') sourcedOnly?: string,
+    @Query('format') format?: string,
+    @Query('table') table?: string
   ) {
+    const exportFormat = parseExportFormat(format);
     const regionList = regions ? regions.split(',') : ['USA', 'EU', 'APAC'];
-    const result = await this.miipaService.getMutationMiipa(id, regionList);
+    const result = await this.miipaService.getMutationMiipa(id, regionList, { sourcedOnly: sourcedOnly === 'true' });
     if (!result) throw new NotFoundException('Mutation not found');
-    return result;
+    return exportFormat === 'json' ? result : exportMutationMiipa(result, regionList, exportFormat, table);
   }
 }
\ No newline at end of file
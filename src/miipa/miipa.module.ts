@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { MiipaService } from './miipa.service';
 import { MiipaController } from './miipa.controller';
+import { SnapshotsModule } from '../snapshots/snapshots.module';
 
 @Module({
+  imports: [SnapshotsModule],
   providers: [MiipaService],
   controllers: [MiipaController]
 })
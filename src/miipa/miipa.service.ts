@@ -17,15 +17,47 @@
 
 import { Inject, Injectable } from '@nestjs/common';
 import { Driver } from 'neo4j-driver';
+import { provenanceOf, sourcedPredicate } from '../provenance/provenance';
+import { crowdednessOf } from '../competition/crowdedness';
+import { trialSummaryOf } from '../clinical-trials/trial-summary';
+import { GraphBundleService } from '../graph-bundle/graph-bundle.service';
+import { INDICATION_VIEW_SECTIONS, indicationMiipaView } from './miipa-views';
+
+/** Options shared by the MIIPA views. */
+export interface MiipaOptions {
+  // Drop epidemiology, prevalence, therapy, actionability, pipeline asset and clinical trial facts that cite no source
+  sourcedOnly?: boolean;
+}
+
+// Ids of everything a ClinicalTrial bound to `t` is linked to
+const TRIAL_LINK_IDS = `
+  [(t)-[:FOR_INDICATION]->(i:Indication) | i.id] AS indicationIds,
+  [(t)-[:FOR_MUTATION]->(m:Mutation) | m.id] AS mutationIds,
+  [(t)-[:TESTS]->(th:Therapy) | th.id] AS therapyIds
+`;
+
+// Trial list items: node properties, linked ids and provenance
+function trialItem(rec: { get(key: string): any }) {
+  const props = rec.get('t').properties;
+  return {
+    ...props,
+    indicationIds: rec.get('indicationIds'),
+    mutationIds: rec.get('mutationIds'),
+    therapyIds: rec.get('therapyIds'),
+    provenance: provenanceOf(props)
+  };
+}
 
 @Injectable()
 export class MiipaService {
   /**
    * Creates an instance of MiipaService.
    * @param driver - Neo4j database driver injected via NestJS DI
+   * @param graphBundleService - Exports the graph sections the indication view is computed from
    */
   constructor(
-    @Inject('NEO4J_DRIVER') private readonly driver: Driver
+    @Inject('NEO4J_DRIVER') private readonly driver: Driver,
+    private readonly graphBundleService: GraphBundleService
   ) {}
 
   /**
@@ -37,125 +69,29 @@ export class MiipaService {
    * - Epidemiology metrics filtered by selected geographic regions
    * - Available therapies linked to this indication
    * - Diagnostic modalities used for this indication
+   * - Crowdedness of each mutation: approved plus late-stage pipeline assets in this indication
+   * - Clinical trials in this indication: counts by activity and phase, and the trials themselves
    * 
-   * The mutation data includes calculated estimates of:
-   * - Estimated prevalence patients: (indication prevalence × mutation %) 
-   * - Estimated incidence patients: (indication incidence × mutation %)
+   * The view is computed by `indicationMiipaView` over a live export of the graph,
+   * the same code that serves `asOf` requests from a snapshot.
+   *
+   * The mutation data includes calculated estimates, one row per mutation, summed over regions:
+   * - Estimated prevalence patients: (region prevalence × mutation % in the region, else GLOBAL %)
+   * - Estimated incidence patients: (region incidence × mutation % in the region, else GLOBAL %)
    * 
    * @param indicationId - Unique identifier for the indication (e.g., 'ind-breast-cancer')
    * @param regions - Array of geographic regions to filter epidemiology data (e.g., ['USA', 'EU', 'APAC'])
-   * @returns Promise containing indication data with mutations, epidemiology, therapies, and diagnostics
+   * @param options - `sourcedOnly` excludes facts without provenance, including from patient estimates
+   * @returns Promise containing indication data with mutations, epidemiology, therapies, diagnostics, and clinical trials;
+   *          each fact carries a `provenance` object
    * @returns null if indication not found
    * 
    * @example
    * const data = await miipaService.getIndicationMiipa('ind-breast-cancer', ['USA', 'EU']);
    */
-  async getIndicationMiipa(indicationId: string, regions: string[]) {
-    const session = this.driver.session();
-    try {
-      const result = await session.readTransaction(async tx => {
-        // First get indication basic data
-        const res = await tx.run(
-          `
-          MATCH (i:Indication {id: $indicationId})
-          OPTIONAL MATCH (i)-[:HAS_THERAPY]->(t:Therapy)
-          OPTIONAL MATCH (i)-[:HAS_DIAGNOSTIC]->(d:DiagnosticModality)
-          OPTIONAL MATCH (i)-[:MEASURED_BY]->(e:EpidemiologyMetric)-[:FOR_REGION]->(r:Region)
-          WHERE r.name IN $regions
-          RETURN i,
-                 collect(DISTINCT {therapy: t, region: r}) AS therapies,
-                 collect(DISTINCT {diagnostic: d, region: r}) AS diagnostics,
-                 collect(DISTINCT {epi: e, region: r}) AS epidemiology
-          `,
-          { indicationId, regions }
-        );
-
-        if (res.records.length === 0) return null;
-        const rec = res.records[0];
-
-        // Get mutations with prevalence data for this indication
-        const mutRes = await tx.run(
-          `
-          MATCH (i:Indication {id: $indicationId})
-          MATCH (m:Mutation)-[:IN_GENE]->(g:Gene)
-          WHERE (m)-[:ASSOCIATED_WITH]->(i)
-             OR (m)-[:HAS_THERAPEUTIC_ACTIONABILITY]->(:TherapeuticActionability)-[:FOR_INDICATION]->(i)
-             OR (m)-[:HAS_PREVALENCE]->(:MutationPrevalence)-[:IN_INDICATION]->(i)
-          OPTIONAL MATCH (m)-[:HAS_PREVALENCE]->(mp:MutationPrevalence)-[:IN_INDICATION]->(i)
-          OPTIONAL MATCH (i)-[:MEASURED_BY]->(epPrev:EpidemiologyMetric {type: 'PREVALENCE'})-[:FOR_REGION]->(rPrev:Region)
-          WHERE rPrev.name IN $regions
-          OPTIONAL MATCH (i)-[:MEASURED_BY]->(epInc:EpidemiologyMetric {type: 'INCIDENCE'})-[:FOR_REGION]->(rInc:Region)
-          WHERE rInc.name IN $regions
-          WITH m, g, mp,
-               sum(DISTINCT epPrev.value) as totalPrevalence,
-               sum(DISTINCT epInc.value) as totalIncidence
-          RETURN m, g.hugoSymbol as gene, g.name as geneName,
-                 mp.percentageOfPatients as percentageOfPatients,
-                 totalPrevalence,
-                 totalIncidence,
-                 CASE WHEN mp.percentageOfPatients IS NOT NULL AND totalPrevalence > 0 
-                      THEN mp.percentageOfPatients * totalPrevalence / 100 
-                      ELSE 0 END as estimatedPrevalencePatients,
-                 CASE WHEN mp.percentageOfPatients IS NOT NULL AND totalIncidence > 0 
-                      THEN mp.percentageOfPatients * totalIncidence / 100 
-                      ELSE 0 END as estimatedIncidencePatients
-          `,
-          { indicationId, regions }
-        );
-
-        const i = rec.get('i').properties;
-        const therapiesRaw = rec.get('therapies') as any[];
-        const diagnosticsRaw = rec.get('diagnostics') as any[];
-        const epiRaw = rec.get('epidemiology') as any[];
-
-        const therapies = therapiesRaw
-          .filter(t => t.therapy)
-          .map(t => ({
-            ...t.therapy.properties,
-            region: t.region ? t.region.properties.name : null
-          }));
-
-        const diagnostics = diagnosticsRaw
-          .filter(d => d.diagnostic)
-          .map(d => ({
-            ...d.diagnostic.properties,
-            region: d.region ? d.region.properties.name : null
-          }));
-
-        const epidemiology = epiRaw
-          .filter(e => e.epi)
-          .map(e => ({
-            ...e.epi.properties,
-            region: e.region ? e.region.properties.name : null
-          }));
-
-        const mutations = mutRes.records.map(mutRec => {
-          const m = mutRec.get('m').properties;
-          const pct = mutRec.get('percentageOfPatients');
-          const estPrev = mutRec.get('estimatedPrevalencePatients');
-          const estInc = mutRec.get('estimatedIncidencePatients');
-          return {
-            ...m,
-            gene: mutRec.get('gene') || mutRec.get('geneName'),
-            percentageOfPatients: pct ? (typeof pct === 'object' ? pct.toNumber() : pct) : null,
-            estimatedPrevalencePatients: estPrev ? Math.round(typeof estPrev === 'object' ? estPrev.toNumber() : estPrev) : 0,
-            estimatedIncidencePatients: estInc ? Math.round(typeof estInc === 'object' ? estInc.toNumber() : estInc) : 0
-          };
-        });
-
-        return {
-          indication: i,
-          mutations,
-          epidemiology,
-          therapies,
-          diagnostics
-        };
-      });
-
-      return result;
-    } finally {
-      await session.close();
-    }
+  async getIndicationMiipa(indicationId: string, regions: string[], options: MiipaOptions = {}) {
+    const bundle = await this.graphBundleService.exportBundle(INDICATION_VIEW_SECTIONS);
+    return indicationMiipaView(bundle, indicationId, regions, options);
   }
 
   /**
@@ -167,12 +103,17 @@ export class MiipaService {
    * - Epidemiology metrics for associated indications
    * - Therapeutic actionability (drugs that target this mutation)
    * - Diagnostic modalities that can detect this mutation
+   * - Crowdedness in each associated indication: approved plus late-stage pipeline assets
+   * - Clinical trials enrolling patients with this mutation: counts and the trials themselves
    * 
    * @param mutationId - Unique identifier for the mutation (e.g., 'mut-egfr-l858r')
    * @param regions - Array of geographic regions to filter epidemiology data
-   * @returns Promise containing mutation data with indications, therapies, epidemiology, and diagnostics
+   * @param options - `sourcedOnly` excludes facts without provenance
+   * @returns Promise containing mutation data with indications, therapies, epidemiology, diagnostics, and clinical trials;
+   *          each fact carries a `provenance` object
    */
-  async getMutationMiipa(mutationId: string, regions: string[]) {
+  async getMutationMiipa(mutationId: string, regions: string[], options: MiipaOptions = {}) {
+    const sourcedOnly = !!options.sourcedOnly;
     const session = this.driver.session();
     try {
       const result = await session.readTransaction(async tx => {
@@ -182,8 +123,9 @@ export class MiipaService {
           MATCH (m:Mutation {id: $mutationId})-[:IN_GENE]->(g:Gene)
           OPTIONAL MATCH (m)-[:ASSOCIATED_WITH]->(i:Indication)
           OPTIONAL MATCH (i)-[:MEASURED_BY]->(e:EpidemiologyMetric)-[:FOR_REGION]->(r:Region)
-          WHERE r.name IN $regions
+          WHERE r.name IN $regions AND (NOT $sourcedOnly OR ${sourcedPredicate('e')})
           OPTIONAL MATCH (m)-[:HAS_ACTIONABILITY]->(a:Actionability)
+          WHERE a.retiredAt IS NULL AND (NOT $sourcedOnly OR ${sourcedPredicate('a')})
           OPTIONAL MATCH (i)-[:HAS_DIAGNOSTIC]->(d:DiagnosticModality)
           RETURN m, g,
                  collect(DISTINCT {indication: i}) AS indications,
@@ -191,7 +133,7 @@ export class MiipaService {
                  collect(DISTINCT a) AS actionability,
                  collect(DISTINCT {diagnostic: d, indication: i}) AS diagnostics
           `,
-          { mutationId, regions }
+          { mutationId, regions, sourcedOnly }
         );
 
         if (res.records.length === 0) return null;
@@ -202,13 +144,35 @@ export class MiipaService {
           `
           MATCH (m:Mutation {id: $mutationId})
           OPTIONAL MATCH (m)-[:HAS_THERAPEUTIC_ACTIONABILITY]->(ta:TherapeuticActionability)-[:FOR_INDICATION]->(i:Indication)
-          WHERE ta.drugs IS NOT NULL
+          WHERE ta.drugs IS NOT NULL AND ta.retiredAt IS NULL
+            AND (NOT $sourcedOnly OR ${sourcedPredicate('ta')})
           UNWIND ta.drugs AS drugName
           OPTIONAL MATCH (t:Therapy)
-          WHERE t.name = drugName OR drugName IN t.brandNames
-          RETURN DISTINCT drugName, t, i.name as indication, ta.level as level, ta.fdaApproved as fdaApproved
+          WHERE (t.name = drugName OR drugName IN t.brandNames)
+            AND (NOT $sourcedOnly OR ${sourcedPredicate('t')})
+          RETURN DISTINCT drugName, t, ta, i.name as indication, ta.level as level, ta.fdaApproved as fdaApproved
           `,
-          { mutationId }
+          { mutationId, sourcedOnly }
+        );
+
+        // Approved and late-stage assets targeting this mutation, per indication
+        const crowdRes = await tx.run(
+          `
+          MATCH (:Mutation {id: $mutationId})<-[:TARGETS]-(a:PipelineAsset)-[:FOR_INDICATION]->(i:Indication)
+          WHERE NOT $sourcedOnly OR ${sourcedPredicate('a')}
+          RETURN i.id AS indicationId, collect(a {.phase, .status}) AS assets
+          `,
+          { mutationId, sourcedOnly }
+        );
+        const assetsByIndication = new Map(crowdRes.records.map(r => [r.get('indicationId'), r.get('assets')]));
+
+        const trialRes = await tx.run(
+          `
+          MATCH (t:ClinicalTrial)-[:FOR_MUTATION]->(:Mutation {id: $mutationId})
+          WHERE NOT $sourcedOnly OR ${sourcedPredicate('t')}
+          RETURN t, ${TRIAL_LINK_IDS}
+          `,
+          { mutationId, sourcedOnly }
         );
 
         const m = rec.get('m').properties;
@@ -220,18 +184,22 @@ export class MiipaService {
 
         const indications = indicationsRaw
           .filter(i => i.indication)
-          .map(i => i.indication.properties);
+          .map(i => ({
+            ...i.indication.properties,
+            crowdedness: crowdednessOf(assetsByIndication.get(i.indication.properties.id) ?? [])
+          }));
 
         const epidemiology = epiRaw
           .filter(e => e.epi)
           .map(e => ({
             ...e.epi.properties,
-            region: e.region ? e.region.properties.name : null
+            region: e.region ? e.region.properties.name : null,
+            provenance: provenanceOf(e.epi.properties)
           }));
 
         const actionability = actionabilityRaw
           .filter(a => a)
-          .map(a => a.properties);
+          .map(a => ({ ...a.properties, provenance: provenanceOf(a.properties) }));
 
         const therapies = therapyRes.records.map(tRec => {
           const therapy = tRec.get('t');
@@ -239,20 +207,25 @@ export class MiipaService {
           const indication = tRec.get('indication');
           const level = tRec.get('level');
           const fdaApproved = tRec.get('fdaApproved');
+          const actionabilityProvenance = provenanceOf(tRec.get('ta').properties);
           
           if (therapy) {
             return {
               ...therapy.properties,
               indication,
               level,
-              fdaApproved
+              fdaApproved,
+              provenance: provenanceOf(therapy.properties),
+              actionabilityProvenance
             };
           }
           return {
             name: drugName,
             indication,
             level,
-            fdaApproved
+            fdaApproved,
+            provenance: null,
+            actionabilityProvenance
           };
         });
 
@@ -270,7 +243,9 @@ export class MiipaService {
           epidemiology,
           actionability,
           therapies,
-          diagnostics
+          diagnostics,
+          clinicalTrials: trialSummaryOf(trialRes.records.map(trialItem)),
+          sourcedOnly
         };
       });
 
@@ -0,0 +1,81 @@
+import { Provenance } from '../provenance/provenance';
+
+/**
+ * Patient estimates from a mutation's share of patients in an indication.
+ *
+ * MutationPrevalence is recorded per region. Each selected region uses its
+ * own share, or else the GLOBAL one, and that share is applied to the same
+ * region's epidemiology only.
+ */
+
+export const GLOBAL_REGION = 'GLOBAL';
+
+export interface RegionalShare {
+  region: string;
+  percentageOfPatients: number;
+  provenance: Provenance | null;
+}
+
+/** Current prevalence and incidence per region. */
+export interface RegionTotals {
+  prevalence: Record<string, number>;
+  incidence: Record<string, number>;
+}
+
+export interface MutationEstimate {
+  // The applied share, weighted by prevalence when regions use different shares
+  percentageOfPatients: number | null;
+  estimatedPrevalencePatients: number;
+  estimatedIncidencePatients: number;
+  // Of the GLOBAL share when it is applied, else of the first applied share
+  prevalenceProvenance: Provenance | null;
+  prevalenceByRegion: Array<{ region: string; sourceRegion: string; percentageOfPatients: number }>;
+}
+
+/** Sums metric values per region, e.g. over the current metrics of one type. */
+export function totalsByRegion(metrics: Array<{ region?: string | null; value?: unknown }>): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const { region, value } of metrics) {
+    if (!region) continue;
+    totals[region] = (totals[region] ?? 0) + (Number(value) || 0);
+  }
+  return totals;
+}
+
+export function mutationEstimate(shares: RegionalShare[], regions: string[], totals: RegionTotals): MutationEstimate {
+  const global = shares.find(s => s.region === GLOBAL_REGION);
+  const applied = regions
+    .map(region => ({ region, share: shares.find(s => s.region === region) ?? global }))
+    .filter((a): a is { region: string; share: RegionalShare } => !!a.share);
+  if (applied.length === 0) {
+    return {
+      percentageOfPatients: null,
+      estimatedPrevalencePatients: 0,
+      estimatedIncidencePatients: 0,
+      prevalenceProvenance: null,
+      prevalenceByRegion: []
+    };
+  }
+
+  const estimate = (byRegion: Record<string, number>) =>
+    applied.reduce((sum, a) => sum + ((byRegion[a.region] ?? 0) * a.share.percentageOfPatients) / 100, 0);
+  const prevalencePatients = estimate(totals.prevalence);
+  const coveredPrevalence = applied.reduce((sum, a) => sum + (totals.prevalence[a.region] ?? 0), 0);
+  const percentage =
+    coveredPrevalence > 0
+      ? (prevalencePatients * 100) / coveredPrevalence
+      : applied.reduce((sum, a) => sum + a.share.percentageOfPatients, 0) / applied.length;
+  const representative = applied.find(a => a.share === global)?.share ?? applied[0].share;
+
+  return {
+    percentageOfPatients: Math.round(percentage * 100) / 100,
+    estimatedPrevalencePatients: Math.round(prevalencePatients),
+    estimatedIncidencePatients: Math.round(estimate(totals.incidence)),
+    prevalenceProvenance: representative.provenance,
+    prevalenceByRegion: applied.map(a => ({
+      region: a.region,
+      sourceRegion: a.share.region,
+      percentageOfPatients: a.share.percentageOfPatients
+    }))
+  };
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Body, Controller, Post } from '@nestjs/common';
+import { MutationsService } from './mutations.service';
+import { CreateGeneDto } from './mutations.dto';
+import { Scopes } from '../auth/scopes.decorator';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+
+@Controller('genes')
+export class GenesController {
+  constructor(private mutationsService: MutationsService) {}
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Post()
+  async createGene(@Body() body: CreateGeneDto, @CurrentUser() user: AuthUser) {
+    return this.mutationsService.createGene(body, user);
+  }
+}
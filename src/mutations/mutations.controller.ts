@@ -1,18 +1,102 @@
-import { Controller, Get, Query } from '@nestjs/common';
+import { Body, Controller, Delete, Get, HttpCode, Param, Patch, Post, Put, Query } from '@nestjs/common';
 import { MutationsService, SortBy, SortOrder } from './mutations.service';
+import { CreateActionabilityDto, CreateMutationDto, RetireActionabilityDto, UpdateMutationDto } from './mutations.dto';
+import { Scopes } from '../auth/scopes.decorator';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+import { csvFile, parseExportFormat, xlsxFile } from '../export/export-file';
+import { allMutationsTable } from '../miipa/miipa-export';
+import { SnapshotsService } from '../snapshots/snapshots.service';
 
 @Controller('mutations')
+@Scopes('read:miipa')
 export class MutationsController {
-  constructor(private mutationsService: MutationsService) {}
+  constructor(
+    private mutationsService: MutationsService,
+    private snapshotsService: SnapshotsService
+  ) {}
 
   @Get('all')
   async getAllMutations(
     @Query('limit') limit = '50',
     @Query('sortBy') sortBy: SortBy = 'actionability',
     @Query('sortOrder') sortOrder: SortOrder = 'desc',
-    @Query('regions') regionsParam = 'USA,EU,APAC'
+    @Query('regions') regionsParam = 'USA,EU,APAC',
+    @Query('format') format?: string,
+    @Query('asOf') asOf?: string
   ) {
+    const exportFormat = parseExportFormat(format, ['json', 'csv', 'xlsx']);
     const regions = regionsParam.split(',').filter(r => r.trim());
-    return this.mutationsService.getAllMutations(Number(limit), sortBy, sortOrder, regions);
+    const mutations = asOf
+      ? await this.snapshotsService.allMutations(asOf, Number(limit), sortBy, sortOrder, regions)
+      : await this.mutationsService.getAllMutations(Number(limit), sortBy, sortOrder, regions);
+    if (exportFormat === 'csv') return csvFile([allMutationsTable(mutations)], 'mutations');
+    if (exportFormat === 'xlsx') return xlsxFile([allMutationsTable(mutations)], 'mutations');
+    return mutations;
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Post()
+  async createMutation(@Body() body: CreateMutationDto, @CurrentUser() user: AuthUser) {
+    return this.mutationsService.createMutation(body, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Patch(':id')
+  async updateMutation(
+    @Param('id') id: string,
+    @Body() body: UpdateMutationDto,
+    @CurrentUser() user: AuthUser
+  ) {
+    return this.mutationsService.updateMutation(id, body, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Put(':id/indications/:indicationId')
+  async associateIndication(
+    @Param('id') id: string,
+    @Param('indicationId') indicationId: string,
+    @CurrentUser() user: AuthUser
+  ) {
+    return this.mutationsService.associateIndication(id, indicationId, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Delete(':id/indications/:indicationId')
+  async dissociateIndication(
+    @Param('id') id: string,
+    @Param('indicationId') indicationId: string,
+    @CurrentUser() user: AuthUser
+  ) {
+    return this.mutationsService.dissociateIndication(id, indicationId, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Post(':id/actionability')
+  async addActionability(
+    @Param('id') id: string,
+    @Body() body: CreateActionabilityDto,
+    @CurrentUser() user: AuthUser
+  ) {
+    return this.mutationsService.addActionability(id, body, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @HttpCode(200)
+  @Post(':id/actionability/:actionabilityId/retire')
+  async retireActionability(
+    @Param('id') id: string,
+    @Param('actionabilityId') actionabilityId: string,
+    @Body() body: RetireActionabilityDto,
+    @CurrentUser() user: AuthUser
+  ) {
+    return this.mutationsService.retireActionability(id, actionabilityId, body.reason, user);
   }
 }
@@ -0,0 +1,112 @@
+import { ArrayMaxSize, IsArray, IsBoolean, IsIn, IsOptional, IsString, Matches, MaxLength, MinLength } from 'class-validator';
+import { ProvenanceDto } from '../provenance/provenance.dto';
+
+/** Mutation ids follow the `mut-<slug>` convention used by the seed and deep research. */
+export const MUTATION_ID_PATTERN = /^mut-[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** OncoKB oncogenicity classifications. */
+export const ONCOGENIC_STATUSES = [
+  'Oncogenic',
+  'Likely Oncogenic',
+  'Likely Neutral',
+  'Inconclusive',
+  'Resistance',
+  'Unknown'
+] as const;
+
+/** OncoKB therapeutic levels of evidence, in the `Level X` form stored on actionability nodes. */
+export const ACTIONABILITY_LEVELS = [
+  'Level 1',
+  'Level 2',
+  'Level 3A',
+  'Level 3B',
+  'Level 4',
+  'Level R1',
+  'Level R2'
+] as const;
+
+const HUGO_SYMBOL_PATTERN = /^[A-Z0-9-]+$/;
+
+export class CreateGeneDto {
+  @Matches(HUGO_SYMBOL_PATTERN, { message: 'hugoSymbol must be an upper-case HGNC symbol' })
+  hugoSymbol: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  name?: string;
+}
+
+export class CreateMutationDto {
+  @IsOptional()
+  @Matches(MUTATION_ID_PATTERN, { message: 'id must look like mut-<slug>' })
+  id?: string;
+
+  @Matches(HUGO_SYMBOL_PATTERN, { message: 'gene must be an upper-case HGNC symbol' })
+  gene: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  alteration: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  alias?: string;
+
+  @IsOptional()
+  @IsIn(ONCOGENIC_STATUSES)
+  oncogenic?: string;
+}
+
+export class UpdateMutationDto {
+  @IsOptional()
+  @Matches(HUGO_SYMBOL_PATTERN, { message: 'gene must be an upper-case HGNC symbol' })
+  gene?: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(200)
+  alteration?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  alias?: string;
+
+  @IsOptional()
+  @IsIn(ONCOGENIC_STATUSES)
+  oncogenic?: string;
+}
+
+export class CreateActionabilityDto extends ProvenanceDto {
+  // With an indication the record is a TherapeuticActionability; without, a mutation-level Actionability
+  @IsOptional()
+  @IsString()
+  indicationId?: string;
+
+  @IsIn(ACTIONABILITY_LEVELS)
+  level: string;
+
+  @IsBoolean()
+  fdaApproved: boolean;
+
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  drugs: string[];
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(2000)
+  evidence: string;
+}
+
+export class RetireActionabilityDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
\ No newline at end of file
@@ -1,9 +1,12 @@
 import { Module } from '@nestjs/common';
 import { MutationsController } from './mutations.controller';
+import { GenesController } from './genes.controller';
 import { MutationsService } from './mutations.service';
+import { SnapshotsModule } from '../snapshots/snapshots.module';
 
 @Module({
-  controllers: [MutationsController],
+  imports: [SnapshotsModule],
+  controllers: [MutationsController, GenesController],
   providers: [MutationsService],
   exports: [MutationsService]
 })
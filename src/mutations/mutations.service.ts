@@ -10,6 +10,8 @@
  * - Calculate estimated patient populations per mutation
  * - Filter epidemiology by geographic regions (USA, EU, APAC)
  * - Sort by actionability, prevalence, incidence, or alphabetically
+ * - Curate genes, mutations, indication associations and actionability
+ *   evidence (retired actionability is kept but excluded from counts)
  * 
  * Data validated against OncoKB (December 2024):
  * - 61 mutations across 31 genes
@@ -19,8 +21,16 @@
  * @module MutationsService
  */
 
-import { Inject, Injectable } from '@nestjs/common';
-import { Driver, int } from 'neo4j-driver';
+import { BadRequestException, ConflictException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { Driver, Transaction } from 'neo4j-driver';
+import { randomUUID } from 'crypto';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user.interface';
+import { today } from '../provenance/provenance';
+import { updatedStamp } from '../meta/freshness';
+import { GraphBundleService } from '../graph-bundle/graph-bundle.service';
+import { MUTATION_LIST_SECTIONS, mutationListView } from '../miipa/miipa-views';
+import { CreateActionabilityDto, CreateGeneDto, CreateMutationDto, UpdateMutationDto } from './mutations.dto';
 
 /** Sort field options for mutation listing */
 export type SortBy = 'actionability' | 'alphabetical' | 'prevalence' | 'incidence';
@@ -30,13 +40,20 @@ export type SortOrder = 'asc' | 'desc';
 
 @Injectable()
 export class MutationsService {
-  constructor(@Inject('NEO4J_DRIVER') private readonly driver: Driver) {}
+  constructor(
+    @Inject('NEO4J_DRIVER') private readonly driver: Driver,
+    private readonly auditService: AuditService,
+    private readonly graphBundleService: GraphBundleService
+  ) {}
 
   /**
    * Retrieves all mutations with actionability and patient estimates.
    * 
-   * Patient estimates are calculated as:
-   * (indication prevalence) × (mutation % in that indication) / 100
+   * Patient estimates are calculated per indication and selected region as:
+   * (region prevalence) × (mutation % in the region, else GLOBAL %) / 100
+   *
+   * Computed by `mutationListView` over a live export of the graph, the same
+   * code that serves `asOf` requests from a snapshot.
    * 
    * @param limit - Maximum number of results
    * @param sortBy - Sort field (actionability, alphabetical, prevalence, incidence)
@@ -45,72 +62,367 @@ export class MutationsService {
    * @returns Array of mutation summaries with actionability and patient estimates
    */
   async getAllMutations(limit = 50, sortBy: SortBy = 'actionability', sortOrder: SortOrder = 'desc', regions: string[] = ['USA', 'EU', 'APAC']) {
+    const bundle = await this.graphBundleService.exportBundle(MUTATION_LIST_SECTIONS);
+    return mutationListView(bundle, limit, sortBy, sortOrder, regions);
+  }
+
+  /**
+   * Creates a Gene node keyed by its HUGO symbol.
+   *
+   * @param dto - Validated gene fields
+   * @param actor - User performing the write, recorded in the audit log
+   * @throws ConflictException if a gene with this symbol already exists
+   */
+  async createGene(dto: CreateGeneDto, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      const gene = await session.writeTransaction(async tx => {
+        if (await this.findGene(tx, dto.hugoSymbol)) {
+          throw new ConflictException(`Gene ${dto.hugoSymbol} already exists`);
+        }
+        const res = await tx.run(
+          `
+          CREATE (g:Gene {id: $id, hugoSymbol: $hugoSymbol, name: $name})
+          SET ${updatedStamp('g')}
+          RETURN g
+          `,
+          { id: `gene-${dto.hugoSymbol.toLowerCase()}`, hugoSymbol: dto.hugoSymbol, name: dto.name || dto.hugoSymbol }
+        );
+        return res.records[0].get('g').properties;
+      });
+
+      await this.auditService.record({ action: 'graph.gene.create', actor, targetIds: [gene.id], after: gene });
+      return gene;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Creates a mutation and links it to an existing gene.
+   *
+   * @param dto - Validated mutation fields; the id defaults to `mut-<gene>-<alteration>`
+   * @param actor - User performing the write, recorded in the audit log
+   * @throws BadRequestException if the gene does not exist
+   * @throws ConflictException if the mutation id is already in use
+   */
+  async createMutation(dto: CreateMutationDto, actor?: AuthUser) {
+    const id = dto.id || `mut-${dto.gene.toLowerCase()}-${this.slug(dto.alteration)}`;
+    const session = this.driver.session();
+    try {
+      const mutation = await session.writeTransaction(async tx => {
+        const gene = await this.findGene(tx, dto.gene);
+        if (!gene) throw new BadRequestException(`Gene ${dto.gene} does not exist`);
+
+        const existing = await tx.run('MATCH (m:Mutation {id: $id}) RETURN m', { id });
+        if (existing.records.length > 0) throw new ConflictException(`Mutation ${id} already exists`);
+
+        const res = await tx.run(
+          `
+          MATCH (g:Gene) WHERE elementId(g) = $geneElementId
+          CREATE (m:Mutation {id: $id})
+          SET m.name = $name,
+              m.gene = $gene,
+              m.alteration = $alteration,
+              m.alias = $alias,
+              m.oncogenic = $oncogenic,
+              ${updatedStamp('m')}
+          CREATE (m)-[:IN_GENE]->(g)
+          RETURN m
+          `,
+          {
+            geneElementId: gene.elementId,
+            id,
+            name: `${dto.gene} ${dto.alteration}`,
+            gene: dto.gene,
+            alteration: dto.alteration,
+            alias: dto.alias ?? null,
+            oncogenic: dto.oncogenic || 'Unknown'
+          }
+        );
+        return res.records[0].get('m').properties;
+      });
+
+      await this.auditService.record({ action: 'graph.mutation.create', actor, targetIds: [id], after: mutation });
+      return mutation;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Updates the supplied fields of a mutation. Changing the gene moves the
+   * IN_GENE relationship; changing gene or alteration regenerates the name.
+   *
+   * @param id - Mutation id
+   * @param dto - Validated fields to change
+   * @param actor - User performing the write, recorded in the audit log
+   * @throws NotFoundException if the mutation does not exist
+   * @throws BadRequestException if the new gene does not exist
+   */
+  async updateMutation(id: string, dto: UpdateMutationDto, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      const { before, after } = await session.writeTransaction(async tx => {
+        const current = await this.requireMutation(tx, id);
+
+        const props: Record<string, unknown> = {};
+        if (dto.alteration !== undefined) props.alteration = dto.alteration;
+        if (dto.alias !== undefined) props.alias = dto.alias;
+        if (dto.oncogenic !== undefined) props.oncogenic = dto.oncogenic;
+
+        if (dto.gene !== undefined) {
+          const gene = await this.findGene(tx, dto.gene);
+          if (!gene) throw new BadRequestException(`Gene ${dto.gene} does not exist`);
+          props.gene = dto.gene;
+          await tx.run(
+            `
+            MATCH (m:Mutation {id: $id})
+            OPTIONAL MATCH (m)-[old:IN_GENE]->(:Gene)
+            DELETE old
+            WITH DISTINCT m
+            MATCH (g:Gene) WHERE elementId(g) = $geneElementId
+            CREATE (m)-[:IN_GENE]->(g)
+            `,
+            { id, geneElementId: gene.elementId }
+          );
+        }
+
+        if (dto.gene !== undefined || dto.alteration !== undefined) {
+          const gene = dto.gene ?? current.gene;
+          const alteration = dto.alteration ?? current.alteration;
+          if (gene && alteration) props.name = `${gene} ${alteration}`;
+        }
+
+        const res = await tx.run(
+          `
+          MATCH (m:Mutation {id: $id})
+          SET m += $props, ${updatedStamp('m')}
+          RETURN m
+          `,
+          { id, props }
+        );
+        return { before: current, after: res.records[0].get('m').properties };
+      });
+
+      await this.auditService.record({ action: 'graph.mutation.update', actor, targetIds: [id], before, after });
+      return after;
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Links a mutation to an indication via ASSOCIATED_WITH (idempotent).
+   *
+   * @throws NotFoundException if the mutation does not exist
+   * @throws BadRequestException if the indication does not exist
+   */
+  async associateIndication(mutationId: string, indicationId: string, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      await session.writeTransaction(async tx => {
+        await this.requireMutation(tx, mutationId);
+        await this.requireIndication(tx, indicationId);
+        await tx.run(
+          `
+          MATCH (m:Mutation {id: $mutationId}), (i:Indication {id: $indicationId})
+          MERGE (m)-[:ASSOCIATED_WITH]->(i)
+          SET ${updatedStamp('m')}
+          `,
+          { mutationId, indicationId }
+        );
+      });
+
+      await this.auditService.record({
+        action: 'graph.mutation.associate',
+        actor,
+        targetIds: [mutationId, indicationId]
+      });
+      return { mutationId, indicationId, associated: true };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Removes the ASSOCIATED_WITH link between a mutation and an indication.
+   *
+   * @throws NotFoundException if no such association exists
+   */
+  async dissociateIndication(mutationId: string, indicationId: string, actor?: AuthUser) {
     const session = this.driver.session();
     try {
-      // Build ORDER BY clause based on sort options
-      let orderClause: string;
-      const order = sortOrder === 'asc' ? 'ASC' : 'DESC';
-      
-      switch (sortBy) {
-        case 'alphabetical':
-          orderClause = `ORDER BY m.name ${order}`;
-          break;
-        case 'prevalence':
-          orderClause = `ORDER BY estimatedPatients ${order}, m.name ASC`;
-          break;
-        case 'incidence':
-          orderClause = `ORDER BY estimatedNewCases ${order}, m.name ASC`;
-          break;
-        case 'actionability':
-        default:
-          orderClause = `ORDER BY actionabilityCount ${order}, m.name ASC`;
-          break;
-      }
-
-      // Query uses MutationPrevalence to calculate estimated patient counts
-      // Formula: (indication prevalence) * (mutation % in that indication) / 100
-      // Only sum epidemiology from selected regions
-      const res = await session.run(
-        `
-        MATCH (m:Mutation)-[:IN_GENE]->(g:Gene)
-        OPTIONAL MATCH (m)-[:HAS_THERAPEUTIC_ACTIONABILITY]->(ta:TherapeuticActionability)
-        OPTIONAL MATCH (m)-[:HAS_PREVALENCE]->(mp:MutationPrevalence)-[:IN_INDICATION]->(i:Indication)
-        OPTIONAL MATCH (i)-[:MEASURED_BY]->(ep:EpidemiologyMetric {type: 'PREVALENCE'})-[:FOR_REGION]->(rp:Region)
-        WHERE rp.name IN $regions
-        OPTIONAL MATCH (i)-[:MEASURED_BY]->(ei:EpidemiologyMetric {type: 'INCIDENCE'})-[:FOR_REGION]->(ri:Region)
-        WHERE ri.name IN $regions
-        WITH m, g, 
-             count(DISTINCT ta) as actionabilityCount,
-             sum(ep.value * mp.percentageOfPatients / 100) as estimatedPatients,
-             sum(ei.value * mp.percentageOfPatients / 100) as estimatedNewCases,
-             collect(DISTINCT {indication: i.name, percentage: mp.percentageOfPatients}) as prevalenceByIndication
-        RETURN m, g.hugoSymbol as gene, actionabilityCount, 
-               coalesce(estimatedPatients, 0) as estimatedPatients,
-               coalesce(estimatedNewCases, 0) as estimatedNewCases,
-               prevalenceByIndication
-        ${orderClause}
-        LIMIT $limit
-        `,
-        { limit: int(limit), regions }
-      );
-
-      return res.records.map(rec => {
-        const m = rec.get('m').properties;
-        const patients = rec.get('estimatedPatients');
-        const newCases = rec.get('estimatedNewCases');
-        return {
-          id: m.id,
-          name: m.name,
-          gene: rec.get('gene'),
-          alteration: m.alteration,
-          oncogenic: m.oncogenic || 'Unknown',
-          actionabilityCount: rec.get('actionabilityCount').toNumber(),
-          estimatedPatients: typeof patients === 'object' ? Math.round(patients.toNumber()) : Math.round(patients || 0),
-          estimatedNewCases: typeof newCases === 'object' ? Math.round(newCases.toNumber()) : Math.round(newCases || 0)
+      const removed = await session.writeTransaction(async tx => {
+        const res = await tx.run(
+          `
+          MATCH (m:Mutation {id: $mutationId})-[r:ASSOCIATED_WITH]->(:Indication {id: $indicationId})
+          DELETE r
+          SET ${updatedStamp('m')}
+          RETURN count(r) AS removed
+          `,
+          { mutationId, indicationId }
+        );
+        return res.records[0].get('removed').toNumber();
+      });
+      if (removed === 0) throw new NotFoundException('Association not found');
+
+      await this.auditService.record({
+        action: 'graph.mutation.dissociate',
+        actor,
+        targetIds: [mutationId, indicationId]
+      });
+      return { mutationId, indicationId, associated: false };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Adds an actionability record to a mutation. With an indication it is
+   * stored as a TherapeuticActionability linked FOR_INDICATION; without one,
+   * as a mutation-level Actionability.
+   *
+   * @throws NotFoundException if the mutation does not exist
+   * @throws BadRequestException if the indication does not exist
+   */
+  async addActionability(mutationId: string, dto: CreateActionabilityDto, actor?: AuthUser) {
+    const id = `act-${randomUUID()}`;
+    const session = this.driver.session();
+    try {
+      const actionability = await session.writeTransaction(async tx => {
+        await this.requireMutation(tx, mutationId);
+        const props = {
+          id,
+          level: dto.level,
+          fdaApproved: dto.fdaApproved,
+          drugs: dto.drugs,
+          evidence: dto.evidence,
+          source: dto.source,
+          sourceUrl: dto.sourceUrl ?? null,
+          sourceDocumentId: dto.sourceDocumentId ?? null,
+          retrievedAt: dto.retrievedAt ?? today(),
+          curatedBy: actor?.email ?? null
         };
+
+        if (dto.indicationId) {
+          await this.requireIndication(tx, dto.indicationId);
+          const res = await tx.run(
+            `
+            MATCH (m:Mutation {id: $mutationId}), (i:Indication {id: $indicationId})
+            CREATE (ta:TherapeuticActionability)
+            SET ta = $props, ${updatedStamp('ta')}
+            CREATE (m)-[:HAS_THERAPEUTIC_ACTIONABILITY]->(ta)
+            CREATE (ta)-[:FOR_INDICATION]->(i)
+            RETURN ta AS a
+            `,
+            { mutationId, indicationId: dto.indicationId, props }
+          );
+          return { ...res.records[0].get('a').properties, indicationId: dto.indicationId };
+        }
+
+        const res = await tx.run(
+          `
+          MATCH (m:Mutation {id: $mutationId})
+          CREATE (a:Actionability)
+          SET a = $props, ${updatedStamp('a')}
+          CREATE (m)-[:HAS_ACTIONABILITY]->(a)
+          RETURN a
+          `,
+          { mutationId, props }
+        );
+        return res.records[0].get('a').properties;
       });
+
+      await this.auditService.record({
+        action: 'graph.actionability.create',
+        actor,
+        targetIds: [id, mutationId, ...(dto.indicationId ? [dto.indicationId] : [])],
+        after: actionability
+      });
+      return actionability;
     } finally {
       await session.close();
     }
   }
-}
+
+  /**
+   * Retires an actionability record. The node is kept for history but is no
+   * longer counted or returned by the MIIPA queries.
+   *
+   * @throws NotFoundException if the record does not belong to the mutation
+   * @throws ConflictException if it is already retired
+   */
+  async retireActionability(mutationId: string, actionabilityId: string, reason: string | undefined, actor?: AuthUser) {
+    const session = this.driver.session();
+    try {
+      const { before, after } = await session.writeTransaction(async tx => {
+        const current = await tx.run(
+          `
+          MATCH (:Mutation {id: $mutationId})-[:HAS_ACTIONABILITY|HAS_THERAPEUTIC_ACTIONABILITY]->(a {id: $actionabilityId})
+          RETURN a
+          `,
+          { mutationId, actionabilityId }
+        );
+        if (current.records.length === 0) throw new NotFoundException('Actionability record not found');
+        const before = current.records[0].get('a').properties;
+        if (before.retiredAt) throw new ConflictException('Actionability record is already retired');
+
+        const res = await tx.run(
+          `
+          MATCH (a {id: $actionabilityId})
+          WHERE a:Actionability OR a:TherapeuticActionability
+          SET a.retiredAt = toString(datetime()),
+              a.retiredBy = $retiredBy,
+              a.retiredReason = $reason,
+              ${updatedStamp('a')}
+          RETURN a
+          `,
+          { actionabilityId, retiredBy: actor?.email ?? null, reason: reason ?? null }
+        );
+        return { before, after: res.records[0].get('a').properties };
+      });
+
+      await this.auditService.record({
+        action: 'graph.actionability.retire',
+        actor,
+        targetIds: [actionabilityId, mutationId],
+        before,
+        after
+      });
+      return after;
+    } finally {
+      await session.close();
+    }
+  }
+
+  // Genes from the seed are keyed by name, those from research by hugoSymbol; accept either
+  private async findGene(tx: Transaction, symbol: string) {
+    const res = await tx.run(
+      `
+      MATCH (g:Gene)
+      WHERE g.hugoSymbol = $symbol OR g.name = $symbol
+      RETURN g
+      LIMIT 1
+      `,
+      { symbol }
+    );
+    return res.records.length > 0 ? res.records[0].get('g') : null;
+  }
+
+  private async requireMutation(tx: Transaction, id: string) {
+    const res = await tx.run('MATCH (m:Mutation {id: $id}) RETURN m', { id });
+    if (res.records.length === 0) throw new NotFoundException('Mutation not found');
+    return res.records[0].get('m').properties;
+  }
+
+  private async requireIndication(tx: Transaction, id: string) {
+    const res = await tx.run('MATCH (i:Indication {id: $id}) RETURN i', { id });
+    if (res.records.length === 0) throw new BadRequestException(`Indication ${id} does not exist`);
+    return res.records[0].get('i').properties;
+  }
+
+  private slug(value: string) {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+}
\ No newline at end of file
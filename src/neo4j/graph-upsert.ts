@@ -0,0 +1,56 @@
+import { isInt, Transaction } from 'neo4j-driver';
+
+/**
+ * Helpers shared by the graph importers (deep research, bundles, uploads)
+ * to report whether each upserted node was created, updated or unchanged.
+ */
+
+export type ImportOutcome = 'created' | 'updated' | 'unchanged';
+
+export type ImportCounts = Record<ImportOutcome, number>;
+
+export function emptyCounts(): ImportCounts {
+  return { created: 0, updated: 0, unchanged: 0 };
+}
+
+export function totalCounts(counts: Record<string, ImportCounts>): ImportCounts {
+  const totals = emptyCounts();
+  for (const c of Object.values(counts)) {
+    totals.created += c.created;
+    totals.updated += c.updated;
+    totals.unchanged += c.unchanged;
+  }
+  return totals;
+}
+
+// Convert Neo4j integers to plain numbers so stored and incoming values compare equal
+export function toPlain(value: any): any {
+  if (isInt(value)) return value.toNumber();
+  if (Array.isArray(value)) return value.map(toPlain);
+  return value ?? null;
+}
+
+export function sameValue(stored: any, proposed: any): boolean {
+  return JSON.stringify(toPlain(stored)) === JSON.stringify(toPlain(proposed));
+}
+
+/**
+ * Compares a node's stored properties (and optionally whether a relationship
+ * pattern involving it, bound as `n`, exists) with what is about to be written.
+ */
+export async function classifyNode(
+  tx: Transaction,
+  label: string,
+  key: { field: string; value: any },
+  props: Record<string, any>,
+  link?: { pattern: string; params: Record<string, any> }
+): Promise<ImportOutcome> {
+  const res = await tx.run(
+    `MATCH (n:${label} {${key.field}: $keyValue}) RETURN n, ${link ? `EXISTS { ${link.pattern} }` : 'true'} AS linked`,
+    { keyValue: key.value, ...link?.params }
+  );
+  if (res.records.length === 0) return 'created';
+  const stored = res.records[0].get('n').properties;
+  const same = Object.entries(props).every(([field, value]) => sameValue(stored[field], value));
+  return same && res.records[0].get('linked') ? 'unchanged' : 'updated';
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import neo4j from 'neo4j-driver';
+import * as dotenv from 'dotenv';
+import { Neo4jMigrationsService } from './neo4j-migrations.service';
+dotenv.config();
+
+// Usage: npm run neo4j:migrate [-- --status]
+const uri = process.env.NEO4J_URI || 'bolt://localhost:7687';
+const user = process.env.NEO4J_USER || 'neo4j';
+const password = process.env.NEO4J_PASSWORD || 'password';
+
+const driver = neo4j.driver(uri, neo4j.auth.basic(user, password));
+
+async function main() {
+  const migrations = new Neo4jMigrationsService(driver);
+
+  if (process.argv.includes('--status')) {
+    for (const m of await migrations.status()) {
+      const state = m.appliedAt ? `applied ${m.appliedAt}${m.modified ? ' (modified since)' : ''}` : 'pending';
+      console.log(`${String(m.version).padStart(3, '0')} ${m.name.padEnd(32)} ${state}`);
+    }
+    return;
+  }
+
+  const applied = await migrations.migrate();
+  console.log(applied.length ? `Applied ${applied.length} migration(s)` : 'Nothing to apply');
+}
+
+main()
+  .catch(error => {
+    console.error('Migration error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => driver.close());
\ No newline at end of file
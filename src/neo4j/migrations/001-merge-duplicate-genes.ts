@@ -0,0 +1,28 @@
+import { Neo4jMigration } from './neo4j-migration.interface';
+
+// The seed created genes keyed by `name` while research and curation key them
+// by `hugoSymbol`; fold the former into the latter, then backfill the rest.
+export const mergeDuplicateGenes: Neo4jMigration = {
+  version: 1,
+  name: 'merge-duplicate-genes',
+  statements: [
+    `
+    MATCH (dup:Gene)
+    WHERE dup.hugoSymbol IS NULL AND dup.name IS NOT NULL
+    MATCH (keep:Gene {hugoSymbol: dup.name})
+    CALL {
+      WITH dup, keep
+      MATCH (m:Mutation)-[:IN_GENE]->(dup)
+      MERGE (m)-[:IN_GENE]->(keep)
+    }
+    SET keep.name = coalesce(keep.name, dup.name)
+    DETACH DELETE dup
+    `,
+    `
+    MATCH (g:Gene)
+    WHERE g.hugoSymbol IS NULL AND g.name IS NOT NULL
+    SET g.hugoSymbol = g.name,
+        g.id = coalesce(g.id, 'gene-' + toLower(g.name))
+    `
+  ]
+};
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { Neo4jMigration } from './neo4j-migration.interface';
+
+// Relationships each label can have; the copies' links are moved onto the kept node
+const RELATIONSHIPS: Record<string, { incoming: string[]; outgoing: string[] }> = {
+  EpidemiologyMetric: {
+    incoming: ['MEASURED_BY', 'HAD_MEASUREMENT', 'SUPERSEDES'],
+    outgoing: ['FOR_REGION', 'SUPERSEDES']
+  },
+  MutationPrevalence: { incoming: ['HAS_PREVALENCE'], outgoing: ['IN_INDICATION', 'FOR_REGION'] },
+  Therapy: { incoming: ['HAS_THERAPY', 'TESTS'], outgoing: [] }
+};
+
+// Copies `pattern` from `dup` onto `keep`; the pattern's blank end is the node being replaced
+function repoint(pattern: string): string {
+  const from = pattern.startsWith('(') ? `${pattern}(dup)` : `(dup)${pattern}`;
+  const to = pattern.startsWith('(') ? `${pattern}(keep)` : `(keep)${pattern}`;
+  return `CALL {
+      WITH dup, keep
+      MATCH ${from}
+      WHERE other <> keep
+      MERGE ${to}
+    }`;
+}
+
+// Before imports became idempotent, re-running deep research created a second
+// node for the same deterministic id; keep the first, re-point the copies'
+// relationships onto it and drop the copies.
+export const deduplicateResearchFacts: Neo4jMigration = {
+  version: 2,
+  name: 'deduplicate-research-facts',
+  statements: Object.entries(RELATIONSHIPS).map(
+    ([label, { incoming, outgoing }]) => `
+    MATCH (n:${label})
+    WHERE n.id IS NOT NULL
+    WITH n.id AS id, collect(n) AS nodes
+    WHERE size(nodes) > 1
+    WITH head(nodes) AS keep, tail(nodes) AS dups
+    UNWIND dups AS dup
+    ${[...incoming.map(type => repoint(`(other)-[:${type}]->`)), ...outgoing.map(type => repoint(`-[:${type}]->(other)`))].join('\n    ')}
+    DETACH DELETE dup
+    `
+  )
+};
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Neo4jMigration } from './neo4j-migration.interface';
+
+export const uniquenessConstraints: Neo4jMigration = {
+  version: 3,
+  name: 'uniqueness-constraints',
+  statements: [
+    'CREATE CONSTRAINT indication_id IF NOT EXISTS FOR (n:Indication) REQUIRE n.id IS UNIQUE',
+    'CREATE CONSTRAINT mutation_id IF NOT EXISTS FOR (n:Mutation) REQUIRE n.id IS UNIQUE',
+    'CREATE CONSTRAINT gene_hugo_symbol IF NOT EXISTS FOR (n:Gene) REQUIRE n.hugoSymbol IS UNIQUE',
+    'CREATE CONSTRAINT region_name IF NOT EXISTS FOR (n:Region) REQUIRE n.name IS UNIQUE',
+    'CREATE CONSTRAINT therapy_id IF NOT EXISTS FOR (n:Therapy) REQUIRE n.id IS UNIQUE',
+    'CREATE CONSTRAINT epidemiology_metric_id IF NOT EXISTS FOR (n:EpidemiologyMetric) REQUIRE n.id IS UNIQUE',
+    'CREATE CONSTRAINT mutation_prevalence_id IF NOT EXISTS FOR (n:MutationPrevalence) REQUIRE n.id IS UNIQUE'
+  ]
+};
\ No newline at end of file
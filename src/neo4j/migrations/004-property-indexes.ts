@@ -0,0 +1,15 @@
+import { Neo4jMigration } from './neo4j-migration.interface';
+
+export const propertyIndexes: Neo4jMigration = {
+  version: 4,
+  name: 'property-indexes',
+  statements: [
+    'CREATE INDEX indication_name IF NOT EXISTS FOR (n:Indication) ON (n.name)',
+    'CREATE INDEX mutation_name IF NOT EXISTS FOR (n:Mutation) ON (n.name)',
+    'CREATE INDEX gene_name IF NOT EXISTS FOR (n:Gene) ON (n.name)',
+    'CREATE INDEX therapy_name IF NOT EXISTS FOR (n:Therapy) ON (n.name)',
+    'CREATE INDEX epidemiology_metric_type IF NOT EXISTS FOR (n:EpidemiologyMetric) ON (n.type)',
+    'CREATE INDEX actionability_id IF NOT EXISTS FOR (n:Actionability) ON (n.id)',
+    'CREATE INDEX therapeutic_actionability_id IF NOT EXISTS FOR (n:TherapeuticActionability) ON (n.id)'
+  ]
+};
\ No newline at end of file
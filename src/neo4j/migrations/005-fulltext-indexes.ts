@@ -0,0 +1,12 @@
+import { Neo4jMigration } from './neo4j-migration.interface';
+
+export const fulltextIndexes: Neo4jMigration = {
+  version: 5,
+  name: 'fulltext-indexes',
+  statements: [
+    'CREATE FULLTEXT INDEX indication_search IF NOT EXISTS FOR (n:Indication) ON EACH [n.name, n.oncotreeCode]',
+    'CREATE FULLTEXT INDEX mutation_search IF NOT EXISTS FOR (n:Mutation) ON EACH [n.name, n.alias, n.gene, n.alteration]',
+    'CREATE FULLTEXT INDEX gene_search IF NOT EXISTS FOR (n:Gene) ON EACH [n.hugoSymbol, n.name]',
+    'CREATE FULLTEXT INDEX therapy_search IF NOT EXISTS FOR (n:Therapy) ON EACH [n.name, n.mechanism]'
+  ]
+};
\ No newline at end of file
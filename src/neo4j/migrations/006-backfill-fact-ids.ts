@@ -0,0 +1,23 @@
+import { Neo4jMigration } from './neo4j-migration.interface';
+
+// Seeded facts were created without ids; give them one so they can be
+// exported, re-imported and referenced like every other node.
+const ID_PREFIXES: Record<string, string> = {
+  EpidemiologyMetric: 'epi',
+  MutationPrevalence: 'mp',
+  Actionability: 'act',
+  TherapeuticActionability: 'act',
+  DiagnosticModality: 'dx'
+};
+
+export const backfillFactIds: Neo4jMigration = {
+  version: 6,
+  name: 'backfill-fact-ids',
+  statements: Object.entries(ID_PREFIXES).map(
+    ([label, prefix]) => `
+    MATCH (n:${label})
+    WHERE n.id IS NULL
+    SET n.id = '${prefix}-' + randomUUID()
+    `
+  )
+};
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { Neo4jMigration } from './neo4j-migration.interface';
+
+// Nodes written before freshness tracking carry no updatedAt. Take the best
+// timestamp they already have (retrievedAt is a date, read as midnight UTC);
+// nodes without one stay unstamped rather than looking freshly written.
+const STAMPED_LABELS = [
+  'Indication',
+  'Gene',
+  'Mutation',
+  'Therapy',
+  'EpidemiologyMetric',
+  'MutationPrevalence',
+  'Actionability',
+  'TherapeuticActionability'
+];
+const labelList = STAMPED_LABELS.map(label => `'${label}'`).join(', ');
+
+export const backfillFreshnessStamps: Neo4jMigration = {
+  version: 7,
+  name: 'backfill-freshness-stamps',
+  statements: [
+    `
+    MATCH (n)
+    WHERE any(label IN labels(n) WHERE label IN [${labelList}])
+      AND n.updatedAt IS NULL
+    WITH n, coalesce(n.recordedAt, n.retiredAt, n.retrievedAt) AS stamp
+    WHERE stamp IS NOT NULL
+    SET n.updatedAt = CASE WHEN size(stamp) = 10 THEN stamp + 'T00:00:00Z' ELSE stamp END
+    `,
+    `
+    MATCH (t:Therapy)
+    WHERE t.annualCostUSA IS NOT NULL AND t.priceUpdatedAt IS NULL AND t.updatedAt IS NOT NULL
+    SET t.priceUpdatedAt = t.updatedAt
+    `
+  ]
+};
\ No newline at end of file
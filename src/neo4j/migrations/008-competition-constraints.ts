@@ -0,0 +1,12 @@
+import { Neo4jMigration } from './neo4j-migration.interface';
+
+export const competitionConstraints: Neo4jMigration = {
+  version: 8,
+  name: 'competition-constraints',
+  statements: [
+    'CREATE CONSTRAINT company_id IF NOT EXISTS FOR (n:Company) REQUIRE n.id IS UNIQUE',
+    'CREATE CONSTRAINT pipeline_asset_id IF NOT EXISTS FOR (n:PipelineAsset) REQUIRE n.id IS UNIQUE',
+    'CREATE INDEX company_name IF NOT EXISTS FOR (n:Company) ON (n.name)',
+    'CREATE INDEX pipeline_asset_phase IF NOT EXISTS FOR (n:PipelineAsset) ON (n.phase)'
+  ]
+};
\ No newline at end of file
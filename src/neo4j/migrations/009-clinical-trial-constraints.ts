@@ -0,0 +1,10 @@
+import { Neo4jMigration } from './neo4j-migration.interface';
+
+export const clinicalTrialConstraints: Neo4jMigration = {
+  version: 9,
+  name: 'clinical-trial-constraints',
+  statements: [
+    'CREATE CONSTRAINT clinical_trial_id IF NOT EXISTS FOR (n:ClinicalTrial) REQUIRE n.id IS UNIQUE',
+    'CREATE INDEX clinical_trial_status IF NOT EXISTS FOR (n:ClinicalTrial) ON (n.status)'
+  ]
+};
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { Neo4jMigration } from './neo4j-migration.interface';
+import { mergeDuplicateGenes } from './001-merge-duplicate-genes';
+import { deduplicateResearchFacts } from './002-deduplicate-research-facts';
+import { uniquenessConstraints } from './003-uniqueness-constraints';
+import { propertyIndexes } from './004-property-indexes';
+import { fulltextIndexes } from './005-fulltext-indexes';
+import { backfillFactIds } from './006-backfill-fact-ids';
+import { backfillFreshnessStamps } from './007-backfill-freshness-stamps';
+import { competitionConstraints } from './008-competition-constraints';
+import { clinicalTrialConstraints } from './009-clinical-trial-constraints';
+
+/** All graph migrations in version order. Append new ones; never edit an applied one. */
+export const NEO4J_MIGRATIONS: Neo4jMigration[] = [
+  mergeDuplicateGenes,
+  deduplicateResearchFacts,
+  uniquenessConstraints,
+  propertyIndexes,
+  fulltextIndexes,
+  backfillFactIds,
+  backfillFreshnessStamps,
+  competitionConstraints,
+  clinicalTrialConstraints
+];
\ No newline at end of file
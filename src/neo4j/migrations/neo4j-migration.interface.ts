@@ -0,0 +1,10 @@
+/**
+ * A versioned Neo4j schema or data migration. Statements run in order, each
+ * in its own transaction (Neo4j does not allow schema and data changes in
+ * one transaction), so every statement must be safe to re-run.
+ */
+export interface Neo4jMigration {
+  version: number;
+  name: string;
+  statements: string[];
+}
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { Inject, Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Driver } from 'neo4j-driver';
+import { NEO4J_MIGRATIONS } from './migrations';
+import { Neo4jMigration } from './migrations/neo4j-migration.interface';
+
+export interface Neo4jMigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+  // The script changed after it was applied
+  modified: boolean;
+}
+
+function checksum(migration: Neo4jMigration) {
+  return createHash('sha256').update(migration.statements.join('\n;\n')).digest('hex');
+}
+
+/**
+ * Applies the versioned scripts in `./migrations` that have not yet run and
+ * records each one as a `(:SchemaMigration {version})` node. Runs on startup
+ * unless NEO4J_MIGRATE_ON_STARTUP=false, and from the `neo4j:migrate` script.
+ */
+@Injectable()
+export class Neo4jMigrationsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(Neo4jMigrationsService.name);
+
+  private readonly migrations = NEO4J_MIGRATIONS;
+
+  constructor(@Inject('NEO4J_DRIVER') private readonly driver: Driver) {}
+
+  async onApplicationBootstrap() {
+    if (process.env.NEO4J_MIGRATE_ON_STARTUP === 'false') return;
+    await this.migrate();
+  }
+
+  async status(): Promise<Neo4jMigrationStatus[]> {
+    const applied = await this.applied();
+    return this.migrations.map(m => {
+      const record = applied.get(m.version);
+      return {
+        version: m.version,
+        name: m.name,
+        appliedAt: record?.appliedAt ?? null,
+        modified: !!record && record.checksum !== checksum(m)
+      };
+    });
+  }
+
+  // Apply pending migrations in version order, stopping at the first failure
+  async migrate(): Promise<Neo4jMigration[]> {
+    const session = this.driver.session();
+    try {
+      await session.run(
+        'CREATE CONSTRAINT schema_migration_version IF NOT EXISTS FOR (m:SchemaMigration) REQUIRE m.version IS UNIQUE'
+      );
+    } finally {
+      await session.close();
+    }
+
+    const applied = await this.applied();
+    for (const migration of this.migrations) {
+      const record = applied.get(migration.version);
+      if (record && record.checksum !== checksum(migration)) {
+        this.logger.warn(`Migration ${migration.version} (${migration.name}) changed after it was applied`);
+      }
+    }
+
+    const pending = [...this.migrations]
+      .sort((a, b) => a.version - b.version)
+      .filter(m => !applied.has(m.version));
+    if (pending.length === 0) {
+      this.logger.log('Graph schema is up to date');
+      return [];
+    }
+
+    for (const migration of pending) {
+      this.logger.log(`Applying graph migration ${migration.version} (${migration.name})`);
+      const started = Date.now();
+      const migrationSession = this.driver.session();
+      try {
+        for (const statement of migration.statements) {
+          await migrationSession.run(statement);
+        }
+        await migrationSession.run(
+          `
+          CREATE (:SchemaMigration {
+            version: $version,
+            name: $name,
+            checksum: $checksum,
+            appliedAt: toString(datetime()),
+            durationMs: $durationMs
+          })
+          `,
+          {
+            version: migration.version,
+            name: migration.name,
+            checksum: checksum(migration),
+            durationMs: Date.now() - started
+          }
+        );
+      } catch (error) {
+        this.logger.error(`Graph migration ${migration.version} (${migration.name}) failed`, error as Error);
+        throw error;
+      } finally {
+        await migrationSession.close();
+      }
+    }
+    return pending;
+  }
+
+  private async applied() {
+    const session = this.driver.session();
+    try {
+      const res = await session.run(
+        'MATCH (m:SchemaMigration) RETURN m.version AS version, m.checksum AS checksum, m.appliedAt AS appliedAt'
+      );
+      return new Map<number, { checksum: string; appliedAt: string }>(
+        res.records.map(rec => {
+          const version = rec.get('version');
+          return [
+            typeof version === 'object' ? version.toNumber() : version,
+            { checksum: rec.get('checksum'), appliedAt: rec.get('appliedAt') }
+          ];
+        })
+      );
+    } finally {
+      await session.close();
+    }
+  }
+}
\ No newline at end of file
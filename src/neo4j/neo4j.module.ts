@@ -1,5 +1,6 @@
 import { Global, Module } from '@nestjs/common';
 import neo4j, { Driver } from 'neo4j-driver';
+import { Neo4jMigrationsService } from './neo4j-migrations.service';
 
 @Global()
 @Module({
@@ -12,8 +13,9 @@ import neo4j, { Driver } from 'neo4j-driver';
         const password = process.env.NEO4J_PASSWORD || 'password';
         return neo4j.driver(uri, neo4j.auth.basic(user, password));
       }
-    }
+    },
+    Neo4jMigrationsService
   ],
-  exports: ['NEO4J_DRIVER']
+  exports: ['NEO4J_DRIVER', Neo4jMigrationsService]
 })
 export class Neo4jModule {}
\ No newline at end of file
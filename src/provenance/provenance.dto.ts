@@ -0,0 +1,24 @@
+import { IsISO8601, IsOptional, IsString, IsUrl, MaxLength, MinLength } from 'class-validator';
+
+/** Citation fields accepted wherever a curator enters a graph fact. */
+export class ProvenanceDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(500)
+  source: string;
+
+  @IsOptional()
+  @IsUrl()
+  sourceUrl?: string;
+
+  // DOI, PMID, report or file name when there is no stable URL
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  sourceDocumentId?: string;
+
+  // Defaults to the day the value is entered
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  retrievedAt?: string;
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+/**
+ * Provenance of graph facts (EpidemiologyMetric, MutationPrevalence,
+ * Actionability, TherapeuticActionability and Therapy nodes).
+ *
+ * Neo4j cannot store nested maps, so provenance is kept as flat node
+ * properties and regrouped into a `provenance` object when returned. A fact
+ * counts as sourced when it names a source and cites it with a URL or a
+ * document id (DOI, PMID, file name, ...).
+ */
+
+export interface Provenance {
+  source: string | null;
+  sourceUrl: string | null;
+  sourceDocumentId: string | null;
+  // ISO date the value was retrieved from the source
+  retrievedAt: string | null;
+  // Email of the user who entered or approved the value
+  curatedBy: string | null;
+}
+
+export const PROVENANCE_FIELDS: Array<keyof Provenance> = [
+  'source',
+  'sourceUrl',
+  'sourceDocumentId',
+  'retrievedAt',
+  'curatedBy'
+];
+
+export function provenanceOf(props: Record<string, any>): Provenance {
+  return {
+    source: props.source ?? null,
+    sourceUrl: props.sourceUrl ?? null,
+    sourceDocumentId: props.sourceDocumentId ?? null,
+    retrievedAt: props.retrievedAt ?? null,
+    curatedBy: props.curatedBy ?? null
+  };
+}
+
+export function isSourced(props: Record<string, any>): boolean {
+  return !!props.source && !!(props.sourceUrl || props.sourceDocumentId);
+}
+
+/** Cypher boolean expression that is true when the node bound to `variable` is sourced. */
+export function sourcedPredicate(variable: string): string {
+  return `(${variable}.source IS NOT NULL AND (${variable}.sourceUrl IS NOT NULL OR ${variable}.sourceDocumentId IS NOT NULL))`;
+}
+
+/** Today's date in the `YYYY-MM-DD` form used for `retrievedAt`. */
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
\ No newline at end of file
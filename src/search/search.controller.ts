@@ -1,7 +1,9 @@
 import { Controller, Get, Query } from '@nestjs/common';
 import { SearchService } from './search.service';
+import { Scopes } from '../auth/scopes.decorator';
 
 @Controller('search')
+@Scopes('read:miipa')
 export class SearchController {
   constructor(private searchService: SearchService) {}
 
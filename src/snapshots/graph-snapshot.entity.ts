@@ -0,0 +1,33 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { GraphBundle } from '../graph-bundle/graph-bundle.dto';
+
+/** A named, frozen copy of the knowledge graph taken as a graph bundle. */
+@Entity()
+export class GraphSnapshot {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column()
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'jsonb' })
+  bundle: GraphBundle;
+
+  // Records per bundle section
+  @Column({ type: 'jsonb' })
+  counts: Record<string, number>;
+
+  @Column({ type: 'varchar', nullable: true })
+  createdById: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  createdByEmail: string | null;
+
+  @Index()
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { Body, Controller, Delete, Get, Param, Post, Query } from '@nestjs/common';
+import { IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { SnapshotsService } from './snapshots.service';
+import { Roles } from '../auth/roles.decorator';
+import { Scopes } from '../auth/scopes.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+
+class CreateSnapshotDto {
+  // Used as `asOf=<name>`, so kept URL-safe
+  @Matches(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, { message: 'name may only contain letters, digits, ".", "_" and "-"' })
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+}
+
+class SnapshotDiffQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  from: string;
+
+  // Defaults to the live graph
+  @IsOptional()
+  @IsString()
+  to?: string;
+}
+
+@Controller('snapshots')
+@Scopes('read:miipa')
+export class SnapshotsController {
+  constructor(private snapshotsService: SnapshotsService) {}
+
+  @Get()
+  list() {
+    return this.snapshotsService.list();
+  }
+
+  @Get('diff')
+  diff(@Query() query: SnapshotDiffQueryDto) {
+    return this.snapshotsService.diff(query.from, query.to);
+  }
+
+  @Get(':ref')
+  get(@Param('ref') ref: string) {
+    return this.snapshotsService.get(ref);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Post()
+  create(@Body() body: CreateSnapshotDto, @CurrentUser() user: AuthUser) {
+    return this.snapshotsService.create(body.name, body.description, user);
+  }
+
+  @Roles('admin')
+  @Scopes('write:graph')
+  @Delete(':ref')
+  remove(@Param('ref') ref: string, @CurrentUser() user: AuthUser) {
+    return this.snapshotsService.remove(ref, user);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SnapshotsController } from './snapshots.controller';
+import { SnapshotsService } from './snapshots.service';
+import { GraphSnapshot } from './graph-snapshot.entity';
+import { GraphBundleService } from '../graph-bundle/graph-bundle.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([GraphSnapshot])],
+  controllers: [SnapshotsController],
+  providers: [SnapshotsService, GraphBundleService],
+  exports: [SnapshotsService, GraphBundleService]
+})
+export class SnapshotsModule {}
\ No newline at end of file
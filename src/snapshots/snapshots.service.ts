@@ -0,0 +1,214 @@
+/**
+ * Snapshots Service - Named Copies of the Knowledge Graph
+ *
+ * A snapshot freezes the whole graph as a graph bundle in Postgres under a
+ * unique name. The MIIPA indication view and the mutation list can be
+ * computed `asOf` a snapshot, and two snapshots (or a snapshot and the live
+ * graph) can be diffed to show which prevalence, incidence, mutation
+ * frequency, actionability and therapy facts changed.
+ *
+ * @module SnapshotsService
+ */
+
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user.interface';
+import { GRAPH_BUNDLE_SECTIONS, GraphBundle } from '../graph-bundle/graph-bundle.dto';
+import { GraphBundleService } from '../graph-bundle/graph-bundle.service';
+import { sameValue } from '../neo4j/graph-upsert';
+import { MiipaOptions } from '../miipa/miipa.service';
+import { SortBy, SortOrder } from '../mutations/mutations.service';
+import { GraphSnapshot } from './graph-snapshot.entity';
+import { indicationMiipaView, mutationListView } from '../miipa/miipa-views';
+
+type Rec = Record<string, any>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** Fact categories compared by a diff: how to pick, key and compare their records. */
+const DIFF_CATEGORIES: Record<
+  string,
+  { records: (bundle: GraphBundle) => Rec[]; key: (r: Rec) => string; fields: string[] }
+> = {
+  prevalence: {
+    records: b => (b.epidemiology as Rec[]).filter(e => e.type === 'PREVALENCE' && e.current !== false),
+    key: e => `${e.indicationId}|${e.region}`,
+    fields: ['value', 'unit', 'year', 'source', 'sourceUrl']
+  },
+  incidence: {
+    records: b => (b.epidemiology as Rec[]).filter(e => e.type === 'INCIDENCE' && e.current !== false),
+    key: e => `${e.indicationId}|${e.region}`,
+    fields: ['value', 'unit', 'year', 'source', 'sourceUrl']
+  },
+  mutationPrevalence: {
+    records: b => b.mutationPrevalence as Rec[],
+    key: mp => `${mp.mutationId}|${mp.indicationId}|${mp.region}`,
+    fields: ['percentageOfPatients', 'year', 'source', 'sourceUrl']
+  },
+  actionability: {
+    records: b => b.actionability as Rec[],
+    key: a => a.id,
+    fields: ['mutationId', 'indicationId', 'level', 'fdaApproved', 'drugs', 'evidence', 'retiredAt', 'source']
+  },
+  therapies: {
+    records: b => b.therapies as Rec[],
+    key: t => t.id,
+    fields: ['name', 'mechanism', 'approvalStatus', 'status', 'annualCostUSA', 'indicationIds', 'source']
+  }
+};
+
+export interface SnapshotFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+@Injectable()
+export class SnapshotsService {
+  constructor(
+    @InjectRepository(GraphSnapshot) private repo: Repository<GraphSnapshot>,
+    private graphBundleService: GraphBundleService,
+    private auditService: AuditService
+  ) {}
+
+  /**
+   * Takes a snapshot of the current graph.
+   *
+   * @throws ConflictException if the name is already taken
+   */
+  async create(name: string, description: string | undefined, actor?: AuthUser) {
+    if (await this.repo.exists({ where: { name } })) {
+      throw new ConflictException(`Snapshot "${name}" already exists`);
+    }
+    const bundle = await this.graphBundleService.exportBundle();
+    const counts = Object.fromEntries(GRAPH_BUNDLE_SECTIONS.map(section => [section, bundle[section].length]));
+    const snapshot = await this.repo.save(
+      this.repo.create({
+        name,
+        description: description ?? null,
+        bundle,
+        counts,
+        createdById: actor?.id ?? null,
+        createdByEmail: actor?.email ?? null
+      })
+    );
+
+    await this.auditService.record({
+      action: 'graph.snapshot.create',
+      actor,
+      targetIds: [snapshot.id],
+      details: { name, counts }
+    });
+    return this.summary(snapshot);
+  }
+
+  async list() {
+    const snapshots = await this.repo.find({
+      select: ['id', 'name', 'description', 'counts', 'createdById', 'createdByEmail', 'createdAt'],
+      order: { createdAt: 'DESC' }
+    });
+    return snapshots.map(s => this.summary(s));
+  }
+
+  async get(ref: string) {
+    return this.summary(await this.resolve(ref));
+  }
+
+  async remove(ref: string, actor?: AuthUser) {
+    const snapshot = await this.resolve(ref);
+    await this.repo.delete(snapshot.id);
+    await this.auditService.record({
+      action: 'graph.snapshot.delete',
+      actor,
+      targetIds: [snapshot.id],
+      before: this.summary(snapshot)
+    });
+    return { id: snapshot.id, deleted: true };
+  }
+
+  /** The indication MIIPA view as of a snapshot, or null if the indication was not in it. */
+  async indicationMiipa(ref: string, indicationId: string, regions: string[], options: MiipaOptions = {}) {
+    const snapshot = await this.resolve(ref);
+    const view = indicationMiipaView(snapshot.bundle, indicationId, regions, options);
+    return view && { ...view, asOf: this.summary(snapshot) };
+  }
+
+  /** The mutation list as of a snapshot; same parameters as the live list. */
+  async allMutations(ref: string, limit: number, sortBy: SortBy, sortOrder: SortOrder, regions: string[]) {
+    const snapshot = await this.resolve(ref);
+    return mutationListView(snapshot.bundle, limit, sortBy, sortOrder, regions);
+  }
+
+  /**
+   * Compares the MIIPA-relevant facts of two snapshots. Without `to` the
+   * snapshot is compared with the live graph.
+   *
+   * @returns Per category, the facts added, removed and changed (with the changed fields)
+   */
+  async diff(fromRef: string, toRef?: string) {
+    const from = await this.resolve(fromRef);
+    const to = toRef ? await this.resolve(toRef) : null;
+    const toBundle = to ? to.bundle : await this.graphBundleService.exportBundle();
+
+    const categories = Object.fromEntries(
+      Object.entries(DIFF_CATEGORIES).map(([category, { records, key, fields }]) => {
+        const before = new Map(records(from.bundle).map(r => [key(r), r]));
+        const after = new Map(records(toBundle).map(r => [key(r), r]));
+        const pick = (r: Rec) => Object.fromEntries(fields.map(f => [f, r[f] ?? null]));
+
+        const added = [...after].filter(([k]) => !before.has(k)).map(([k, r]) => ({ key: k, after: pick(r) }));
+        const removed = [...before].filter(([k]) => !after.has(k)).map(([k, r]) => ({ key: k, before: pick(r) }));
+        const changed = [...after]
+          .filter(([k]) => before.has(k))
+          .map(([k, r]) => {
+            const old = before.get(k) as Rec;
+            const changes: SnapshotFieldChange[] = fields
+              .filter(f => !sameValue(old[f], r[f]))
+              .map(f => ({ field: f, before: old[f] ?? null, after: r[f] ?? null }));
+            return { key: k, changes };
+          })
+          .filter(c => c.changes.length > 0);
+        return [category, { added, removed, changed }];
+      })
+    );
+
+    return {
+      from: this.summary(from),
+      to: to ? this.summary(to) : { live: true, exportedAt: toBundle.exportedAt },
+      summary: Object.fromEntries(
+        Object.entries(categories).map(([category, d]) => [
+          category,
+          { added: d.added.length, removed: d.removed.length, changed: d.changed.length }
+        ])
+      ),
+      categories
+    };
+  }
+
+  /**
+   * Finds a snapshot by id or name, or for a date (`YYYY-MM-DD` or ISO
+   * timestamp) the latest snapshot taken at or before it.
+   *
+   * @throws NotFoundException if nothing matches
+   */
+  private async resolve(ref: string): Promise<GraphSnapshot> {
+    let snapshot: GraphSnapshot | null = null;
+    if (UUID_PATTERN.test(ref)) snapshot = await this.repo.findOne({ where: { id: ref } });
+    snapshot ??= await this.repo.findOne({ where: { name: ref } });
+    if (!snapshot && DATE_PATTERN.test(ref)) {
+      const at = new Date(ref.length === 10 ? `${ref}T23:59:59.999Z` : ref);
+      if (!isNaN(at.getTime())) {
+        snapshot = await this.repo.findOne({ where: { createdAt: LessThanOrEqual(at) }, order: { createdAt: 'DESC' } });
+      }
+    }
+    if (!snapshot) throw new NotFoundException(`Snapshot "${ref}" not found`);
+    return snapshot;
+  }
+
+  private summary({ bundle, ...snapshot }: GraphSnapshot) {
+    return snapshot;
+  }
+}
\ No newline at end of file
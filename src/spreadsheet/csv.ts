@@ -0,0 +1,58 @@
+/**
+ * Minimal RFC 4180 CSV reader/writer: comma separated, double-quote escaped,
+ * CRLF or LF line endings. Values are returned as strings.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(v => v !== ''));
+  if (!header) return [];
+  const columns = header.map(h => h.replace(/^\uFEFF/, '').trim());
+  return body.map(values => Object.fromEntries(columns.map((c, i) => [c, values[i] ?? ''])));
+}
+
+function escape(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(columns: string[], rows: Record<string, any>[]): string {
+  const lines = [columns.map(escape).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(c => escape(row[c] === null || row[c] === undefined ? '' : String(row[c]))).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
\ No newline at end of file
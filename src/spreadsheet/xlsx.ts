@@ -0,0 +1,334 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+/**
+ * Minimal XLSX (Office Open XML) reader and writer: just enough of ZIP and
+ * SpreadsheetML to read cell values from every sheet of a workbook, and to
+ * write plain workbooks with a bold header row. Formatting, formulas and
+ * dates are not interpreted; cells hold their stored value.
+ */
+
+export type SheetCell = string | number | boolean | null;
+
+export interface Sheet {
+  name: string;
+  rows: SheetCell[][];
+}
+
+/**
+ * Bounds on the cells a workbook may address. Rows are padded up to each
+ * cell's position, so a single far-away cell reference would otherwise
+ * allocate millions of empty slots.
+ */
+export interface SheetLimits {
+  maxRows: number;
+  maxColumns: number;
+}
+
+// Uncompressed size limits, so a small upload cannot expand into a huge workbook
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 100 * 1024 * 1024;
+
+// Files in the ZIP archive, keyed by path
+function unzip(buffer: Buffer): Map<string, Buffer> {
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive');
+
+  const files = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  let total = 0;
+  for (let n = 0; n < count; n++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt ZIP central directory');
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    total += uncompressedSize;
+    if (uncompressedSize > MAX_ENTRY_BYTES || total > MAX_ARCHIVE_BYTES) {
+      throw new Error(`ZIP entry ${name} is too large to extract`);
+    }
+    if (method === 0) files.set(name, data);
+    else if (method === 8) files.set(name, inflate(data, uncompressedSize, name));
+    else throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+// The declared size is not trusted: output past it fails instead of being allocated
+function inflate(data: Buffer, declaredSize: number, name: string): Buffer {
+  try {
+    return inflateRawSync(data, { maxOutputLength: Math.max(declaredSize, 1) });
+  } catch (error) {
+    if (error instanceof RangeError) throw new Error(`ZIP entry ${name} is larger than its declared size`);
+    throw error;
+  }
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity] as string;
+  });
+}
+
+function attr(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Concatenated text of all <t> runs in an XML fragment
+function text(fragment: string): string {
+  return [...fragment.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(m => decodeXml(m[1])).join('');
+}
+
+// Zero-based column index of a cell reference such as "AB12"
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const ch of ref.replace(/\d+$/, '')) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+function parseSheet(xml: string, sharedStrings: string[], limits: SheetLimits): SheetCell[][] {
+  const rows: SheetCell[][] = [];
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowIndex = Number(attr(rowMatch[1], 'r') ?? rows.length + 1) - 1;
+    if (!Number.isInteger(rowIndex) || rowIndex < 0 || rowIndex >= limits.maxRows) {
+      throw new Error(`Row ${rowIndex + 1} is outside the first ${limits.maxRows} rows`);
+    }
+    const row: SheetCell[] = [];
+    let next = 0;
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attr(cellMatch[1], 'r');
+      const col = ref ? columnIndex(ref) : next;
+      if (col < 0 || col >= limits.maxColumns) {
+        throw new Error(`Cell ${ref ?? col + 1} is outside the first ${limits.maxColumns} columns`);
+      }
+      next = col + 1;
+      const type = attr(cellMatch[1], 't');
+      const body = cellMatch[2] ?? '';
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value: SheetCell = null;
+      if (type === 'inlineStr') value = text(body);
+      else if (raw === undefined) value = null;
+      else if (type === 's') value = sharedStrings[Number(raw)] ?? null;
+      else if (type === 'str' || type === 'e') value = decodeXml(raw);
+      else if (type === 'b') value = raw === '1';
+      else value = Number(raw);
+
+      while (row.length < col) row.push(null);
+      row[col] = value;
+    }
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = row;
+  }
+  return rows;
+}
+
+export function readXlsx(buffer: Buffer, limits: SheetLimits): Sheet[] {
+  const files = unzip(buffer);
+  const read = (name: string) => files.get(name)?.toString('utf8');
+
+  const workbook = read('xl/workbook.xml');
+  if (!workbook) throw new Error('Not an XLSX workbook');
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(m => text(m[1]));
+
+  const targets = new Map<string, string>();
+  for (const rel of (read('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attr(rel[0], 'Id');
+    const target = attr(rel[0], 'Target');
+    if (id && target) targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+
+  return [...workbook.matchAll(/<sheet\b[^>]*>/g)].map(match => {
+    const name = attr(match[0], 'name') ?? '';
+    const target = targets.get(attr(match[0], 'r:id') ?? '');
+    const xml = target ? read(target) : undefined;
+    return { name, rows: xml ? parseSheet(xml, sharedStrings, limits) : [] };
+  });
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zip(files: [name: string, content: string][]): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of files) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const raw = Buffer.from(content, 'utf8');
+    const data = deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(0x0800, 8);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    central.push(entry, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...central, end]);
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+}
+
+function sheetXml(rows: SheetCell[][]): string {
+  const body = rows
+    .map((row, r) => {
+      const style = r === 0 ? ' s="1"' : '';
+      const cells = row
+        .map((value, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (value === null || value === undefined || value === '') return '';
+          if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"${style}><v>${value}</v></c>`;
+          if (typeof value === 'boolean') return `<c r="${ref}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+          return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${encodeXml(String(value))}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+  const freeze = '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>';
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `${rows.length > 1 ? freeze : ''}<sheetData>${body}</sheetData></worksheet>`
+  );
+}
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\
+function sheetName(name: string, used: Set<string>): string {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let candidate = base;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${base.slice(0, 28)} ${n}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/** Writes sheets (first row of each is the header) to an XLSX workbook. */
+export function writeXlsx(sheets: Sheet[]): Buffer {
+  const used = new Set<string>();
+  const names = sheets.map(s => sheetName(s.name, used));
+  const ns = 'http://schemas.openxmlformats.org';
+
+  return zip([
+    [
+      '[Content_Types].xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        `<Types xmlns="${ns}/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets
+          .map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+          .join('') +
+        '</Types>'
+    ],
+    [
+      '_rels/.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        `<Relationships xmlns="${ns}/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>'
+    ],
+    [
+      'xl/workbook.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        `<workbook xmlns="${ns}/spreadsheetml/2006/main" xmlns:r="${ns}/officeDocument/2006/relationships"><sheets>` +
+        names.map((name, i) => `<sheet name="${encodeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>'
+    ],
+    [
+      'xl/_rels/workbook.xml.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        `<Relationships xmlns="${ns}/package/2006/relationships">` +
+        sheets
+          .map((_, i) => `<Relationship Id="rId${i + 1}" Type="${ns}/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+          .join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="${ns}/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    ],
+    [
+      'xl/styles.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        `<styleSheet xmlns="${ns}/spreadsheetml/2006/main">` +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>'
+    ],
+    ...sheets.map((sheet, i) => [`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet.rows)] as [string, string])
+  ]);
+}
\ No newline at end of file
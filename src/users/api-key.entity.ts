@@ -0,0 +1,40 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export const API_KEY_SCOPES = ['read:miipa', 'write:research', 'write:graph'] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+@Entity()
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  userId: string;
+
+  @Column()
+  name: string;
+
+  // Leading characters of the key, kept in clear so owners can tell keys apart
+  @Column()
+  prefix: string;
+
+  @Column({ unique: true })
+  keyHash: string;
+
+  @Column('text', { array: true, default: '{}' })
+  scopes: ApiKeyScope[];
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
\ No newline at end of file
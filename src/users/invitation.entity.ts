@@ -0,0 +1,30 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+import { UserRole } from './user.entity';
+
+@Entity()
+export class Invitation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  email: string;
+
+  @Column({ default: 'user' })
+  role: UserRole;
+
+  // SHA-256 of the one-time token; the raw token is only ever returned to the inviter
+  @Column({ unique: true })
+  tokenHash: string;
+
+  @Column({ type: 'timestamptz' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  acceptedAt: Date | null;
+
+  @Column({ nullable: true })
+  invitedById: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
\ No newline at end of file
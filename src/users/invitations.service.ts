@@ -0,0 +1,93 @@
+import { BadRequestException, ConflictException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { Invitation } from './invitation.entity';
+import { UserRole } from './user.entity';
+import { normalizeEmail, UsersService } from './users.service';
+import { AuditService } from '../audit/audit.service';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class InvitationsService {
+  constructor(
+    @InjectRepository(Invitation) private repo: Repository<Invitation>,
+    private usersService: UsersService,
+    private auditService: AuditService
+  ) {}
+
+  // Create a one-time invitation; the raw token is returned once and only its hash is stored
+  async invite(email: string, role: UserRole, invitedById: string) {
+    const normalized = normalizeEmail(email);
+    if (await this.usersService.findByEmail(normalized)) {
+      throw new ConflictException('A user with this email already exists');
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const invitation = await this.repo.save(
+      this.repo.create({
+        email: normalized,
+        role,
+        tokenHash: this.hash(token),
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        acceptedAt: null,
+        invitedById
+      })
+    );
+
+    await this.auditService.record({
+      action: 'user.invite',
+      actorId: invitedById,
+      targetIds: [invitation.id],
+      after: { email: invitation.email, role: invitation.role }
+    });
+
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      token
+    };
+  }
+
+  // Redeem an invitation token and create the account with a bcrypt password
+  async accept(token: string, password: string) {
+    const invitation = await this.repo.findOne({
+      where: { tokenHash: this.hash(token), acceptedAt: IsNull() }
+    });
+    if (!invitation || invitation.expiresAt.getTime() < Date.now()) {
+      throw new BadRequestException('Invitation is invalid or has expired');
+    }
+    if (await this.usersService.findByEmail(invitation.email)) {
+      throw new ConflictException('A user with this email already exists');
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+    // Claiming the invitation and creating the account commit together, and only one request can claim it
+    const user = await this.repo.manager.transaction(async manager => {
+      const claimed = await manager.update(
+        Invitation,
+        { id: invitation.id, acceptedAt: IsNull() },
+        { acceptedAt: new Date() }
+      );
+      if (!claimed.affected) {
+        throw new BadRequestException('Invitation is invalid or has expired');
+      }
+      return this.usersService.createUser(invitation.email, passwordHash, invitation.role, manager);
+    });
+    await this.auditService.record({
+      action: 'user.invitation_accept',
+      actorId: user.id,
+      actorEmail: user.email,
+      targetIds: [invitation.id, user.id]
+    });
+    return { id: user.id, email: user.email, role: user.role };
+  }
+
+  private hash(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+export type RefreshTokenRevocation = 'rotated' | 'logout' | 'reuse';
+
+@Entity()
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column()
+  userId: string;
+
+  // All tokens descending from one login share a family, so a replay can revoke the whole chain
+  @Index()
+  @Column('uuid')
+  familyId: string;
+
+  @Column({ unique: true })
+  tokenHash: string;
+
+  @Column({ type: 'timestamptz' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  revokedAt: Date | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  revokedReason: RefreshTokenRevocation | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  replacedById: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
\ No newline at end of file
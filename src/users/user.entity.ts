@@ -1,4 +1,6 @@
-import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+export type UserRole = 'user' | 'admin';
 
 @Entity()
 export class User {
@@ -12,5 +14,21 @@ export class User {
   passwordHash: string;
 
   @Column({ default: 'user' })
-  role: 'user' | 'admin';
+  role: UserRole;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  // Consecutive failed logins since the last success; drives progressive lockout
+  @Column({ default: 0 })
+  failedLoginAttempts: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lockedUntil: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastLoginAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
 }
\ No newline at end of file
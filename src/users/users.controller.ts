@@ -0,0 +1,79 @@
+import { Body, Controller, Get, Param, ParseUUIDPipe, Patch, Post } from '@nestjs/common';
+import { IsEmail, IsIn, IsOptional, IsString, MinLength } from 'class-validator';
+import { UsersService } from './users.service';
+import { InvitationsService } from './invitations.service';
+import { UserRole } from './user.entity';
+import { Roles } from '../auth/roles.decorator';
+import { Public } from '../auth/public.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { AuthUser } from '../auth/auth-user.interface';
+
+const ROLES: UserRole[] = ['user', 'admin'];
+
+class InviteUserDto {
+  @IsEmail()
+  email: string;
+
+  @IsOptional()
+  @IsIn(ROLES)
+  role?: UserRole;
+}
+
+class AcceptInvitationDto {
+  @IsString()
+  token: string;
+
+  @IsString()
+  @MinLength(8)
+  password: string;
+}
+
+class ChangeRoleDto {
+  @IsIn(ROLES)
+  role: UserRole;
+}
+
+@Controller('users')
+@Roles('admin')
+export class UsersController {
+  constructor(
+    private usersService: UsersService,
+    private invitationsService: InvitationsService
+  ) {}
+
+  @Get()
+  list() {
+    return this.usersService.listUsers();
+  }
+
+  @Post('invitations')
+  invite(@Body() body: InviteUserDto, @CurrentUser() actor: AuthUser) {
+    return this.invitationsService.invite(body.email, body.role || 'user', actor.id);
+  }
+
+  @Public()
+  @Roles()
+  @Post('invitations/accept')
+  acceptInvitation(@Body() body: AcceptInvitationDto) {
+    return this.invitationsService.accept(body.token, body.password);
+  }
+
+  @Post(':id/deactivate')
+  deactivate(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() actor: AuthUser) {
+    return this.usersService.deactivate(id, actor.id);
+  }
+
+  @Post(':id/unlock')
+  unlock(@Param('id', ParseUUIDPipe) id: string, @CurrentUser() actor: AuthUser) {
+    return this.usersService.unlock(id, actor.id);
+  }
+
+  @Patch(':id/role')
+  changeRole(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() body: ChangeRoleDto,
+    @CurrentUser() actor: AuthUser
+  ) {
+    return this.usersService.changeRole(id, body.role, actor.id);
+  }
+}
\ No newline at end of file
@@ -1,11 +1,15 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from './user.entity';
+import { Invitation } from './invitation.entity';
 import { UsersService } from './users.service';
+import { InvitationsService } from './invitations.service';
+import { UsersController } from './users.controller';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User])],
-  providers: [UsersService],
+  imports: [TypeOrmModule.forFeature([User, Invitation])],
+  providers: [UsersService, InvitationsService],
+  controllers: [UsersController],
   exports: [UsersService]
 })
 export class UsersModule {}
\ No newline at end of file
@@ -1,18 +1,91 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { User } from './user.entity';
+import { EntityManager, Raw, Repository } from 'typeorm';
+import { User, UserRole } from './user.entity';
+import { AuditService } from '../audit/audit.service';
+
+/** Emails are stored and looked up trimmed and lower-cased. */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
 
 @Injectable()
 export class UsersService {
-  constructor(@InjectRepository(User) private repo: Repository<User>) {}
+  constructor(
+    @InjectRepository(User) private repo: Repository<User>,
+    private auditService: AuditService
+  ) {}
 
+  // Case-insensitive, so accounts stored before emails were normalized still match
   findByEmail(email: string) {
-    return this.repo.findOne({ where: { email } });
+    return this.repo.findOne({
+      where: { email: Raw(column => `LOWER(${column}) = :email`, { email: normalizeEmail(email) }) }
+    });
+  }
+
+  findById(id: string) {
+    return this.repo.findOne({ where: { id } });
+  }
+
+  // Pass a transaction's manager to create the user as part of a larger unit of work
+  createUser(email: string, passwordHash: string, role: UserRole = 'user', manager: EntityManager = this.repo.manager) {
+    const user = manager.create(User, { email: normalizeEmail(email), passwordHash, role });
+    return manager.save(user);
+  }
+
+  async setPasswordHash(id: string, passwordHash: string) {
+    await this.repo.update({ id }, { passwordHash });
+  }
+
+  async updateLoginState(
+    id: string,
+    state: Partial<Pick<User, 'failedLoginAttempts' | 'lockedUntil' | 'lastLoginAt'>>
+  ) {
+    await this.repo.update({ id }, state);
+  }
+
+  async listUsers() {
+    const users = await this.repo.find({ order: { createdAt: 'ASC' } });
+    return users.map(u => this.toPublic(u));
+  }
+
+  async deactivate(id: string, actorId: string) {
+    if (id === actorId) throw new BadRequestException('You cannot deactivate your own account');
+    const user = await this.getOrFail(id);
+    user.isActive = false;
+    const saved = await this.repo.save(user);
+    await this.auditService.record({ action: 'user.deactivate', actorId, targetIds: [id] });
+    return this.toPublic(saved);
+  }
+
+  async unlock(id: string, actorId: string) {
+    const user = await this.getOrFail(id);
+    user.failedLoginAttempts = 0;
+    user.lockedUntil = null;
+    const saved = await this.repo.save(user);
+    await this.auditService.record({ action: 'user.unlock', actorId, targetIds: [id] });
+    return this.toPublic(saved);
+  }
+
+  async changeRole(id: string, role: UserRole, actorId: string) {
+    if (id === actorId) throw new BadRequestException('You cannot change your own role');
+    const user = await this.getOrFail(id);
+    const before = { role: user.role };
+    user.role = role;
+    const saved = await this.repo.save(user);
+    await this.auditService.record({ action: 'user.role_change', actorId, targetIds: [id], before, after: { role } });
+    return this.toPublic(saved);
+  }
+
+  private async getOrFail(id: string) {
+    const user = await this.findById(id);
+    if (!user) throw new NotFoundException('User not found');
+    return user;
   }
 
-  createUser(email: string, passwordHash: string, role: 'user' | 'admin' = 'user') {
-    const user = this.repo.create({ email, passwordHash, role });
-    return this.repo.save(user);
+  // Never expose the password hash outside the service
+  private toPublic(user: User) {
+    const { passwordHash, ...rest } = user;
+    return rest;
   }
 }
\ No newline at end of file